@@ -4,7 +4,16 @@ import Login from './pages/Login';
 import Register from './pages/Register';
 import Feed from './pages/Feed';
 import Profile from './pages/Profile';
+import Tag from './pages/Tag';
+import Inbox from './pages/Inbox';
+import EditProfile from './pages/EditProfile';
+import BlockedAccounts from './pages/BlockedAccounts';
+import AdminReports from './pages/AdminReports';
+import ForgotPassword from './pages/ForgotPassword';
+import ResetPassword from './pages/ResetPassword';
+import VerifyEmail from './pages/VerifyEmail';
 import Navbar from './components/Navbar';
+import { LOGOUT_EVENT } from './utils/auth';
 
 function App() {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
@@ -12,6 +21,11 @@ function App() {
   useEffect(() => {
     const token = localStorage.getItem('token');
     setIsAuthenticated(!!token);
+
+    // The session expired or was revoked on another device
+    const handleLogout = () => setIsAuthenticated(false);
+    window.addEventListener(LOGOUT_EVENT, handleLogout);
+    return () => window.removeEventListener(LOGOUT_EVENT, handleLogout);
   }, []);
 
   return (
@@ -27,6 +41,12 @@ function App() {
             path="/register" 
             element={!isAuthenticated ? <Register setIsAuthenticated={setIsAuthenticated} /> : <Navigate to="/" />} 
           />
+          <Route 
+            path="/forgot-password" 
+            element={!isAuthenticated ? <ForgotPassword /> : <Navigate to="/" />} 
+          />
+          <Route path="/reset-password" element={<ResetPassword />} />
+          <Route path="/verify-email" element={<VerifyEmail isAuthenticated={isAuthenticated} />} />
           <Route 
             path="/" 
             element={isAuthenticated ? <Feed /> : <Navigate to="/login" />} 
@@ -35,6 +55,30 @@ function App() {
             path="/profile/:userId" 
             element={isAuthenticated ? <Profile /> : <Navigate to="/login" />} 
           />
+          <Route 
+            path="/tags/:tag" 
+            element={isAuthenticated ? <Tag /> : <Navigate to="/login" />} 
+          />
+          <Route 
+            path="/accounts/edit" 
+            element={isAuthenticated ? <EditProfile /> : <Navigate to="/login" />} 
+          />
+          <Route 
+            path="/accounts/blocked" 
+            element={isAuthenticated ? <BlockedAccounts /> : <Navigate to="/login" />} 
+          />
+          <Route 
+            path="/admin/reports" 
+            element={isAuthenticated ? <AdminReports /> : <Navigate to="/login" />} 
+          />
+          <Route 
+            path="/inbox" 
+            element={isAuthenticated ? <Inbox /> : <Navigate to="/login" />} 
+          />
+          <Route 
+            path="/inbox/:conversationId" 
+            element={isAuthenticated ? <Inbox /> : <Navigate to="/login" />} 
+          />
         </Routes>
       </div>
     </BrowserRouter>
@@ -0,0 +1,248 @@
+import React, { useState, useEffect } from 'react';
+import axios from 'axios';
+import { Heart, Pencil, Trash2 } from 'lucide-react';
+import RichText, { Mention } from './RichText';
+import ReportModal from './ReportModal';
+
+export interface CommentType {
+  id: number;
+  user_id: number;
+  username: string;
+  avatar: string;
+  content: string;
+  created_at: string;
+  edited_at?: string | null;
+  parent_id?: number | null;
+  reply_count?: number;
+  likes_count?: number;
+  liked?: boolean;
+  mentions?: Mention[];
+}
+
+interface CommentItemProps {
+  postId: number;
+  comment: CommentType;
+  canDelete: boolean;
+  onUpdated: (comment: CommentType) => void;
+  onDeleted: (commentId: number) => void;
+  onReply: (comment: CommentType) => void;
+  // Replies may also be deleted by the post owner
+  isPostOwner: boolean;
+}
+
+const CommentItem: React.FC<CommentItemProps> = ({
+  postId, comment, canDelete, onUpdated, onDeleted, onReply, isPostOwner
+}) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(comment.content);
+  const [liked, setLiked] = useState(!!comment.liked);
+  const [likesCount, setLikesCount] = useState(comment.likes_count || 0);
+  const [replyCount, setReplyCount] = useState(comment.reply_count || 0);
+  const [showReplies, setShowReplies] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const [replies, setReplies] = useState<CommentType[]>([]);
+  const [repliesCursor, setRepliesCursor] = useState<string | null>(null);
+
+  const currentUserId = parseInt(localStorage.getItem('userId') || '0');
+  const isAuthor = currentUserId === comment.user_id;
+
+  // Pages arrive newest first; keep replies in chronological order
+  const fetchReplies = async (before?: string) => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await axios.get(`/api/posts/${postId}/comments/${comment.id}/replies`, {
+        headers: { Authorization: `Bearer ${token}` },
+        params: { before }
+      });
+      const page: CommentType[] = [...response.data.comments].reverse();
+      setReplies(prev => before ? [...page, ...prev] : page);
+      setRepliesCursor(response.data.nextCursor);
+    } catch (err) {
+      console.error('Failed to fetch replies', err);
+    }
+  };
+
+  // A new reply bumps reply_count on refresh; reload an open thread to show it
+  useEffect(() => {
+    setReplyCount(comment.reply_count || 0);
+    if (showReplies) {
+      fetchReplies();
+    }
+  }, [comment.reply_count]);
+
+  const handleToggleReplies = () => {
+    if (!showReplies) {
+      fetchReplies();
+    }
+    setShowReplies(!showReplies);
+  };
+
+  const handleLike = async () => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await axios.post(`/api/posts/${postId}/comments/${comment.id}/like`, {}, {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      setLiked(response.data.liked);
+      setLikesCount(response.data.likes_count);
+    } catch (err) {
+      console.error('Failed to like comment', err);
+    }
+  };
+
+  const handleReplyUpdated = (updated: CommentType) => {
+    setReplies(replies.map(r => r.id === updated.id ? updated : r));
+  };
+
+  const handleReplyDeleted = (replyId: number) => {
+    setReplies(replies.filter(r => r.id !== replyId));
+    setReplyCount(replyCount - 1);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+
+    try {
+      const token = localStorage.getItem('token');
+      const response = await axios.patch(
+        `/api/posts/${postId}/comments/${comment.id}`,
+        { content: draft },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      onUpdated({ ...comment, ...response.data });
+      setEditing(false);
+    } catch (err) {
+      console.error('Failed to update comment', err);
+      alert('Failed to update comment. Please try again.');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm('Delete this comment?')) {
+      return;
+    }
+
+    try {
+      const token = localStorage.getItem('token');
+      await axios.delete(`/api/posts/${postId}/comments/${comment.id}`, {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      onDeleted(comment.id);
+    } catch (err) {
+      console.error('Failed to delete comment', err);
+      alert('Failed to delete comment. Please try again.');
+    }
+  };
+
+  return (
+    <div className="flex gap-3 group">
+      <img
+        src={comment.avatar || '/default-avatar.png'}
+        alt={comment.username}
+        className="w-8 h-8 rounded-full object-cover flex-shrink-0"
+      />
+      <div className="flex-1 min-w-0">
+        {editing ? (
+          <form onSubmit={handleSave} className="flex gap-2">
+            <input
+              type="text"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              className="flex-1 p-1 text-sm border border-gray-300 rounded focus:outline-none focus:border-blue-500"
+              autoFocus
+            />
+            <button type="submit" className="text-blue-500 text-sm font-semibold">Save</button>
+            <button
+              type="button"
+              onClick={() => { setEditing(false); setDraft(comment.content); }}
+              className="text-gray-500 text-sm"
+            >
+              Cancel
+            </button>
+          </form>
+        ) : (
+          <div>
+            <span className="font-semibold text-sm mr-2">{comment.username}</span>
+            <RichText text={comment.content} mentions={comment.mentions} className="text-sm break-words" />
+          </div>
+        )}
+        <div className="flex gap-3 text-xs text-gray-400">
+          <span>
+            {new Date(comment.created_at).toLocaleDateString()}
+            {comment.edited_at && ' · Edited'}
+          </span>
+          {likesCount > 0 && <span>{likesCount} {likesCount === 1 ? 'like' : 'likes'}</span>}
+          <button onClick={() => onReply(comment)} className="font-semibold hover:text-gray-600">
+            Reply
+          </button>
+          {!isAuthor && (
+            <button onClick={() => setShowReport(true)} className="font-semibold hover:text-gray-600">
+              Report
+            </button>
+          )}
+        </div>
+
+        {showReport && (
+          <ReportModal targetType="comment" targetId={comment.id} onClose={() => setShowReport(false)} />
+        )}
+
+        {!comment.parent_id && replyCount > 0 && (
+          <button
+            onClick={handleToggleReplies}
+            className="text-xs text-gray-500 font-semibold mt-1 hover:text-gray-700"
+          >
+            {showReplies ? 'Hide replies' : `View ${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}`}
+          </button>
+        )}
+
+        {showReplies && (
+          <div className="space-y-3 mt-3">
+            {repliesCursor && (
+              <button
+                onClick={() => fetchReplies(repliesCursor)}
+                className="text-xs text-gray-500 hover:text-gray-700"
+              >
+                View earlier replies
+              </button>
+            )}
+            {replies.map((reply) => (
+              <CommentItem
+                key={reply.id}
+                postId={postId}
+                comment={reply}
+                canDelete={isPostOwner || reply.user_id === currentUserId}
+                onUpdated={handleReplyUpdated}
+                onDeleted={handleReplyDeleted}
+                onReply={onReply}
+                isPostOwner={isPostOwner}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+      <button
+        onClick={handleLike}
+        className={`self-start ${liked ? 'text-red-500' : 'text-gray-400 hover:text-gray-600'}`}
+      >
+        <Heart size={12} fill={liked ? 'currentColor' : 'none'} />
+      </button>
+      {!editing && (
+        <div className="flex gap-2 items-start opacity-0 group-hover:opacity-100">
+          {isAuthor && (
+            <button onClick={() => setEditing(true)} className="text-gray-400 hover:text-gray-600">
+              <Pencil size={14} />
+            </button>
+          )}
+          {canDelete && (
+            <button onClick={handleDelete} className="text-gray-400 hover:text-red-500">
+              <Trash2 size={14} />
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CommentItem;
@@ -0,0 +1,243 @@
+import React, { useState, useEffect, useRef } from 'react';
+import axios from 'axios';
+import { Link } from 'react-router-dom';
+import { Send } from 'lucide-react';
+import { ImageVariant, findVariant } from '../utils/images';
+import { useLiveEvent } from '../hooks/useLiveEvent';
+import { getErrorMessage } from '../utils/errors';
+
+export interface ConversationType {
+  id: number;
+  updated_at: string;
+  user: { id: number; username: string; avatar: string };
+  other_last_read_message_id: number;
+  unread_count: number;
+  last_message: {
+    id: number;
+    sender_id: number;
+    content: string;
+    post_id: number | null;
+    created_at: string;
+  } | null;
+}
+
+interface MessageType {
+  id: number;
+  conversation_id: number;
+  sender_id: number;
+  content: string;
+  post_id: number | null;
+  created_at: string;
+  shared_post: {
+    id: number;
+    user_id: number;
+    username: string;
+    caption: string;
+    image_url: string;
+    variants: ImageVariant[];
+  } | null;
+}
+
+interface ConversationViewProps {
+  conversationId: number;
+  // Called after the caller sends or reads messages, so lists can refresh
+  onActivity?: () => void;
+}
+
+// Merge a page into the list, keeping messages unique and in id order
+const mergeMessages = (current: MessageType[], page: MessageType[]) => {
+  const byId = new Map(current.map(message => [message.id, message]));
+  page.forEach(message => byId.set(message.id, message));
+  return [...byId.values()].sort((a, b) => a.id - b.id);
+};
+
+const ConversationView: React.FC<ConversationViewProps> = ({ conversationId, onActivity }) => {
+  const [conversation, setConversation] = useState<ConversationType | null>(null);
+  const [messages, setMessages] = useState<MessageType[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const currentUserId = parseInt(localStorage.getItem('userId') || '0');
+  const token = localStorage.getItem('token');
+  const config = { headers: { Authorization: `Bearer ${token}` } };
+
+  // Live refreshes only fetch the newest page, so they keep the cursor of
+  // any earlier pages already loaded
+  const fetchMessages = async (before?: string, keepCursor = false) => {
+    try {
+      const response = await axios.get(`/api/conversations/${conversationId}/messages`, {
+        ...config,
+        params: { before }
+      });
+      setMessages(prev => mergeMessages(prev, response.data.messages));
+      if (!keepCursor) {
+        setNextCursor(response.data.nextCursor);
+      }
+    } catch (err) {
+      console.error('Failed to fetch messages', err);
+    }
+  };
+
+  const markRead = async () => {
+    try {
+      await axios.post(`/api/conversations/${conversationId}/read`, {}, config);
+      onActivity?.();
+    } catch (err) {
+      console.error('Failed to mark conversation as read', err);
+    }
+  };
+
+  useEffect(() => {
+    const fetchConversation = async () => {
+      try {
+        const response = await axios.get(`/api/conversations/${conversationId}`, config);
+        setConversation(response.data);
+      } catch (err) {
+        console.error('Failed to fetch conversation', err);
+      }
+    };
+
+    setConversation(null);
+    setMessages([]);
+    setNextCursor(null);
+    fetchConversation();
+    fetchMessages().then(markRead);
+  }, [conversationId]);
+
+  // Keep the newest message in view
+  const lastMessageId = messages[messages.length - 1]?.id;
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView();
+  }, [lastMessageId]);
+
+  useLiveEvent<{ conversation_id: number }>('message:created', (data) => {
+    if (data.conversation_id === conversationId) {
+      fetchMessages(undefined, true).then(markRead);
+    }
+  });
+
+  useLiveEvent<{ conversation_id: number; user_id: number; last_read_message_id: number }>(
+    'conversation:read',
+    (data) => {
+      if (data.conversation_id === conversationId && data.user_id !== currentUserId && conversation) {
+        setConversation({ ...conversation, other_last_read_message_id: data.last_read_message_id });
+      }
+    }
+  );
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+
+    try {
+      const response = await axios.post(
+        `/api/conversations/${conversationId}/messages`,
+        { content: draft },
+        config
+      );
+      setMessages(prev => mergeMessages(prev, [response.data]));
+      setDraft('');
+      onActivity?.();
+    } catch (err) {
+      console.error('Failed to send message', err);
+      alert(getErrorMessage(err, 'Failed to send message. Please try again.'));
+    }
+  };
+
+  if (!conversation) {
+    return <div className="flex-1 flex items-center justify-center text-gray-500">Loading...</div>;
+  }
+
+  // "Seen" goes under the caller's latest message once the other member read it
+  const lastOwnMessage = [...messages].reverse().find(message => message.sender_id === currentUserId);
+  const seen = lastOwnMessage && conversation.other_last_read_message_id >= lastOwnMessage.id;
+
+  return (
+    <div className="flex-1 flex flex-col min-w-0">
+      <Link
+        to={`/profile/${conversation.user.id}`}
+        className="flex items-center gap-3 p-4 border-b border-gray-200"
+      >
+        <img
+          src={conversation.user.avatar || '/default-avatar.png'}
+          alt={conversation.user.username}
+          className="w-10 h-10 rounded-full object-cover flex-shrink-0"
+        />
+        <span className="font-semibold truncate">{conversation.user.username}</span>
+      </Link>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-2">
+        {nextCursor && (
+          <button
+            onClick={() => fetchMessages(nextCursor)}
+            className="block mx-auto text-sm text-gray-500 hover:text-gray-700"
+          >
+            Load earlier messages
+          </button>
+        )}
+        {messages.map((message) => {
+          const isOwn = message.sender_id === currentUserId;
+          return (
+            <div key={message.id} className={`flex flex-col ${isOwn ? 'items-end' : 'items-start'}`}>
+              {/* An empty message shared a post that was later deleted */}
+              {(message.post_id || !message.content) && (
+                message.shared_post ? (
+                  <Link
+                    to={`/profile/${message.shared_post.user_id}`}
+                    className="w-48 border border-gray-200 rounded-lg overflow-hidden bg-white mb-1"
+                  >
+                    <div className="px-3 py-2 text-sm font-semibold truncate">{message.shared_post.username}</div>
+                    <img
+                      src={findVariant(message.shared_post.variants, 'thumb')?.url || message.shared_post.image_url}
+                      alt={message.shared_post.caption}
+                      className="w-48 h-48 object-cover"
+                    />
+                    {message.shared_post.caption && (
+                      <div className="px-3 py-2 text-xs text-gray-600 line-clamp-2">{message.shared_post.caption}</div>
+                    )}
+                  </Link>
+                ) : (
+                  <div className="px-3 py-2 text-sm text-gray-500 border border-gray-200 rounded-lg mb-1">
+                    Post unavailable
+                  </div>
+                )
+              )}
+              {message.content && (
+                <div
+                  className={`max-w-xs px-3 py-2 rounded-2xl text-sm break-words ${
+                    isOwn ? 'bg-blue-500 text-white' : 'bg-gray-100'
+                  }`}
+                >
+                  {message.content}
+                </div>
+              )}
+              {message.id === lastOwnMessage?.id && seen && (
+                <span className="text-xs text-gray-400 mt-1">Seen</span>
+              )}
+            </div>
+          );
+        })}
+        <div ref={bottomRef} />
+      </div>
+
+      <form onSubmit={handleSend} className="flex gap-2 p-4 border-t border-gray-200">
+        <input
+          type="text"
+          placeholder="Message..."
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          className="flex-1 p-2 border border-gray-300 rounded-lg focus:outline-none focus:border-blue-500"
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 flex items-center gap-2"
+        >
+          <Send size={16} />
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ConversationView;
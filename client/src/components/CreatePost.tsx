@@ -1,6 +1,14 @@
 import React, { useState } from 'react';
 import axios from 'axios';
-import { X } from 'lucide-react';
+import { X, ChevronLeft, ChevronRight } from 'lucide-react';
+import { getErrorMessage } from '../utils/errors';
+
+const MAX_IMAGES = 10;
+
+interface SelectedImage {
+  file: File;
+  preview: string;
+}
 
 interface CreatePostProps {
   onClose: () => void;
@@ -9,25 +17,53 @@ interface CreatePostProps {
 
 const CreatePost: React.FC<CreatePostProps> = ({ onClose, onPostCreated }) => {
   const [caption, setCaption] = useState('');
-  const [image, setImage] = useState<File | null>(null);
-  const [preview, setPreview] = useState<string>('');
+  const [images, setImages] = useState<SelectedImage[]>([]);
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
 
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setImage(file);
-      setPreview(URL.createObjectURL(file));
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    const room = MAX_IMAGES - images.length;
+    if (files.length > room) {
+      setError(`You can add up to ${MAX_IMAGES} images per post`);
+    } else {
+      setError('');
     }
+    setImages([
+      ...images,
+      ...files.slice(0, room).map(file => ({ file, preview: URL.createObjectURL(file) }))
+    ]);
+  };
+
+  const moveImage = (from: number, to: number) => {
+    if (to < 0 || to >= images.length) return;
+    const reordered = [...images];
+    const [moved] = reordered.splice(from, 1);
+    reordered.splice(to, 0, moved);
+    setImages(reordered);
+  };
+
+  const removeImage = (index: number) => {
+    URL.revokeObjectURL(images[index].preview);
+    setImages(images.filter((_, i) => i !== index));
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!image) return;
+    if (images.length === 0) {
+      setError('Pick at least one image');
+      return;
+    }
 
     const formData = new FormData();
-    formData.append('image', image);
+    images.forEach(({ file }) => formData.append('images', file));
     formData.append('caption', caption);
 
+    setSubmitting(true);
+    setError('');
     try {
       const token = localStorage.getItem('token');
       await axios.post('/api/posts', formData, {
@@ -39,7 +75,9 @@ const CreatePost: React.FC<CreatePostProps> = ({ onClose, onPostCreated }) => {
       onPostCreated();
       onClose();
     } catch (err) {
-      console.error('Failed to create post', err);
+      setError(getErrorMessage(err, 'Failed to create post. Please try again.'));
+    } finally {
+      setSubmitting(false);
     }
   };
 
@@ -53,18 +91,56 @@ const CreatePost: React.FC<CreatePostProps> = ({ onClose, onPostCreated }) => {
           </button>
         </div>
 
+        {error && <div className="bg-red-100 text-red-700 p-3 rounded mb-4">{error}</div>}
+
         <form onSubmit={handleSubmit}>
           <div className="mb-4">
             <input
               type="file"
-              accept="image/*"
+              accept="image/jpeg,image/png,image/webp,image/gif"
+              multiple
               onChange={handleImageChange}
+              disabled={images.length >= MAX_IMAGES}
               className="w-full"
-              required
             />
-            {preview && (
-              <img src={preview} alt="Preview" className="mt-4 w-full rounded-lg" />
+            {images.length > 0 && (
+              <div className="mt-4 grid grid-cols-3 gap-2">
+                {images.map((image, index) => (
+                  <div key={image.preview} className="relative aspect-square">
+                    <img src={image.preview} alt={`Preview ${index + 1}`} className="w-full h-full object-cover rounded" />
+                    <span className="absolute top-1 left-1 bg-black bg-opacity-60 text-white text-xs rounded px-1">
+                      {index + 1}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => removeImage(index)}
+                      className="absolute top-1 right-1 bg-white bg-opacity-80 rounded-full"
+                    >
+                      <X size={16} />
+                    </button>
+                    <div className="absolute bottom-1 w-full flex justify-between px-1">
+                      <button
+                        type="button"
+                        onClick={() => moveImage(index, index - 1)}
+                        disabled={index === 0}
+                        className="bg-white bg-opacity-80 rounded-full disabled:invisible"
+                      >
+                        <ChevronLeft size={16} />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => moveImage(index, index + 1)}
+                        disabled={index === images.length - 1}
+                        className="bg-white bg-opacity-80 rounded-full disabled:invisible"
+                      >
+                        <ChevronRight size={16} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
             )}
+            <p className="text-xs text-gray-500 mt-2">{images.length}/{MAX_IMAGES} images</p>
           </div>
 
           <textarea
@@ -77,9 +153,10 @@ const CreatePost: React.FC<CreatePostProps> = ({ onClose, onPostCreated }) => {
 
           <button 
             type="submit"
-            className="w-full bg-blue-500 text-white p-3 rounded font-semibold hover:bg-blue-600"
+            disabled={submitting}
+            className="w-full bg-blue-500 text-white p-3 rounded font-semibold hover:bg-blue-600 disabled:opacity-50"
           >
-            Share
+            {submitting ? 'Sharing...' : 'Share'}
           </button>
         </form>
       </div>
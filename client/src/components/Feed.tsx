@@ -20,7 +20,10 @@ const Feed: React.FC = () => {
 
   const fetchPosts = async () => {
     try {
-      const response = await axios.get('/api/posts');
+      const token = localStorage.getItem('token');
+      const response = await axios.get('/api/posts', {
+        headers: { Authorization: `Bearer ${token}` }
+      });
       setPosts(response.data);
     } catch (err) {
       console.error('Failed to fetch posts', err);
@@ -0,0 +1,77 @@
+import React, { useState, useEffect } from 'react';
+import axios from 'axios';
+import { Link } from 'react-router-dom';
+import { X } from 'lucide-react';
+
+interface FollowUser {
+  id: number;
+  username: string;
+  avatar: string;
+}
+
+interface FollowListProps {
+  userId: number;
+  type: 'followers' | 'following';
+  onClose: () => void;
+}
+
+const FollowList: React.FC<FollowListProps> = ({ userId, type, onClose }) => {
+  const [users, setUsers] = useState<FollowUser[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchUsers = async () => {
+      try {
+        const token = localStorage.getItem('token');
+        const response = await axios.get(`/api/users/${userId}/${type}`, {
+          headers: { Authorization: `Bearer ${token}` }
+        });
+        setUsers(response.data);
+      } catch (err) {
+        console.error(`Failed to fetch ${type}`, err);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchUsers();
+  }, [userId, type]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-96 max-w-full">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold">{type === 'followers' ? 'Followers' : 'Following'}</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        {loading ? (
+          <p className="text-gray-500 text-sm">Loading...</p>
+        ) : users.length === 0 ? (
+          <p className="text-gray-500 text-sm">No one here yet</p>
+        ) : (
+          <div className="space-y-3 max-h-80 overflow-y-auto">
+            {users.map((user) => (
+              <Link
+                key={user.id}
+                to={`/profile/${user.id}`}
+                onClick={onClose}
+                className="flex items-center gap-3"
+              >
+                <img
+                  src={user.avatar || '/default-avatar.png'}
+                  alt={user.username}
+                  className="w-10 h-10 rounded-full object-cover flex-shrink-0"
+                />
+                <span className="font-semibold truncate">{user.username}</span>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FollowList;
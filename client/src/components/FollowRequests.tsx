@@ -0,0 +1,131 @@
+import React, { useState, useEffect } from 'react';
+import axios from 'axios';
+import { Link } from 'react-router-dom';
+import { X } from 'lucide-react';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
+
+interface FollowRequest {
+  id: number;
+  created_at: string;
+  user: {
+    id: number;
+    username: string;
+    display_name: string | null;
+    avatar: string;
+  };
+}
+
+interface FollowRequestsProps {
+  onClose: () => void;
+  // Called after each approve or decline with how many requests are left
+  onChange?: (remaining: number) => void;
+}
+
+const FollowRequests: React.FC<FollowRequestsProps> = ({ onClose, onChange }) => {
+  const [requests, setRequests] = useState<FollowRequest[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchRequests = async (before?: string) => {
+    setLoading(true);
+    try {
+      const token = localStorage.getItem('token');
+      const response = await axios.get('/api/users/me/follow-requests', {
+        headers: { Authorization: `Bearer ${token}` },
+        params: { before }
+      });
+      setRequests(prev => before ? [...prev, ...response.data.requests] : response.data.requests);
+      setNextCursor(response.data.nextCursor);
+    } catch (err) {
+      console.error('Failed to fetch follow requests', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRequests();
+  }, []);
+
+  const sentinelRef = useInfiniteScroll(
+    () => {
+      if (nextCursor) fetchRequests(nextCursor);
+    },
+    !!nextCursor && !loading
+  );
+
+  const handleAnswer = async (request: FollowRequest, approve: boolean) => {
+    try {
+      const token = localStorage.getItem('token');
+      const config = { headers: { Authorization: `Bearer ${token}` } };
+      if (approve) {
+        await axios.post(`/api/users/me/follow-requests/${request.id}/approve`, {}, config);
+      } else {
+        await axios.delete(`/api/users/me/follow-requests/${request.id}`, config);
+      }
+      const remaining = requests.filter(r => r.id !== request.id);
+      setRequests(remaining);
+      onChange?.(remaining.length);
+    } catch (err) {
+      console.error('Failed to answer follow request', err);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-96 max-w-full">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold">Follow requests</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        {loading && requests.length === 0 ? (
+          <p className="text-gray-500 text-sm">Loading...</p>
+        ) : requests.length === 0 ? (
+          <p className="text-gray-500 text-sm">No pending requests</p>
+        ) : (
+          <div className="space-y-3 max-h-80 overflow-y-auto">
+            {requests.map((request) => (
+              <div key={request.id} className="flex items-center gap-3">
+                <Link
+                  to={`/profile/${request.user.id}`}
+                  onClick={onClose}
+                  className="flex items-center gap-3 flex-1 min-w-0"
+                >
+                  <img
+                    src={request.user.avatar || '/default-avatar.png'}
+                    alt={request.user.username}
+                    className="w-10 h-10 rounded-full object-cover flex-shrink-0"
+                  />
+                  <div className="min-w-0">
+                    <p className="font-semibold truncate">{request.user.username}</p>
+                    {request.user.display_name && (
+                      <p className="text-sm text-gray-500 truncate">{request.user.display_name}</p>
+                    )}
+                  </div>
+                </Link>
+                <button
+                  onClick={() => handleAnswer(request, true)}
+                  className="px-3 py-1 bg-blue-500 text-white text-sm rounded font-semibold hover:bg-blue-600"
+                >
+                  Confirm
+                </button>
+                <button
+                  onClick={() => handleAnswer(request, false)}
+                  className="px-3 py-1 border border-gray-300 text-sm rounded font-semibold hover:bg-gray-100"
+                >
+                  Delete
+                </button>
+              </div>
+            ))}
+            <div ref={sentinelRef} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FollowRequests;
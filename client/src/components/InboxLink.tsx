@@ -0,0 +1,42 @@
+import React, { useState, useEffect } from 'react';
+import axios from 'axios';
+import { Link } from 'react-router-dom';
+import { Send } from 'lucide-react';
+import { useLiveEvent } from '../hooks/useLiveEvent';
+
+// Navbar link to the inbox, badged with the number of unread conversations
+const InboxLink: React.FC = () => {
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const fetchUnreadCount = async () => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await axios.get('/api/conversations/unread-count', {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      setUnreadCount(response.data.count);
+    } catch (err) {
+      console.error('Failed to fetch unread messages', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchUnreadCount();
+  }, []);
+
+  useLiveEvent('message:created', fetchUnreadCount);
+  useLiveEvent('conversation:read', fetchUnreadCount);
+
+  return (
+    <Link to="/inbox" className="relative hover:text-gray-600">
+      <Send size={24} />
+      {unreadCount > 0 && (
+        <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full min-w-[18px] h-[18px] px-1 flex items-center justify-center">
+          {unreadCount > 99 ? '99+' : unreadCount}
+        </span>
+      )}
+    </Link>
+  );
+};
+
+export default InboxLink;
@@ -0,0 +1,95 @@
+import React, { useState, useRef } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { ImageVariant, buildSrcSet, findVariant } from '../utils/images';
+
+export interface MediaItem {
+  image_url: string;
+  variants?: ImageVariant[];
+}
+
+interface MediaCarouselProps {
+  media: MediaItem[];
+  alt: string;
+}
+
+// Horizontal swipe distance, in pixels, that counts as a slide change
+const SWIPE_THRESHOLD = 50;
+
+const MediaCarousel: React.FC<MediaCarouselProps> = ({ media, alt }) => {
+  const [index, setIndex] = useState(0);
+  const touchStartX = useRef<number | null>(null);
+
+  const goTo = (next: number) => {
+    setIndex(Math.max(0, Math.min(media.length - 1, next)));
+  };
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    touchStartX.current = e.touches[0].clientX;
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    if (touchStartX.current === null) return;
+    const delta = e.changedTouches[0].clientX - touchStartX.current;
+    if (delta > SWIPE_THRESHOLD) goTo(index - 1);
+    if (delta < -SWIPE_THRESHOLD) goTo(index + 1);
+    touchStartX.current = null;
+  };
+
+  return (
+    <div
+      className="relative w-full h-96 bg-gray-100 overflow-hidden"
+      onTouchStart={handleTouchStart}
+      onTouchEnd={handleTouchEnd}
+    >
+      <div
+        className="flex h-full transition-transform duration-300"
+        style={{ transform: `translateX(-${index * 100}%)` }}
+      >
+        {media.map((item, i) => (
+          <div key={i} className="w-full h-full flex-shrink-0 flex items-center justify-center">
+            <img
+              src={findVariant(item.variants, 'feed')?.url || item.image_url}
+              srcSet={buildSrcSet(item.variants)}
+              sizes="(max-width: 672px) 100vw, 640px"
+              alt={alt}
+              loading="lazy"
+              className="w-full h-full object-contain"
+            />
+          </div>
+        ))}
+      </div>
+
+      {media.length > 1 && (
+        <>
+          {index > 0 && (
+            <button
+              onClick={() => goTo(index - 1)}
+              className="absolute left-2 top-1/2 -translate-y-1/2 bg-white bg-opacity-80 rounded-full p-1 shadow"
+            >
+              <ChevronLeft size={20} />
+            </button>
+          )}
+          {index < media.length - 1 && (
+            <button
+              onClick={() => goTo(index + 1)}
+              className="absolute right-2 top-1/2 -translate-y-1/2 bg-white bg-opacity-80 rounded-full p-1 shadow"
+            >
+              <ChevronRight size={20} />
+            </button>
+          )}
+          <div className="absolute bottom-3 w-full flex justify-center gap-1">
+            {media.map((_, i) => (
+              <button
+                key={i}
+                onClick={() => goTo(i)}
+                className={`w-2 h-2 rounded-full ${i === index ? 'bg-blue-500' : 'bg-white bg-opacity-70'}`}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MediaCarousel;
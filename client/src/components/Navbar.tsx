@@ -1,17 +1,40 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { Home, User, LogOut, Camera } from 'lucide-react';
+import axios from 'axios';
+import { Home, LogOut, Camera, Shield } from 'lucide-react';
+import SearchBox from './SearchBox';
+import NotificationBell from './NotificationBell';
+import InboxLink from './InboxLink';
+import { clearSession, getStoredUser, USER_UPDATED_EVENT } from '../utils/auth';
 
 interface NavbarProps {
   setIsAuthenticated: (value: boolean) => void;
 }
 
 const Navbar: React.FC<NavbarProps> = ({ setIsAuthenticated }) => {
-  const user = JSON.parse(localStorage.getItem('user') || '{}');
+  const [user, setUser] = useState(getStoredUser);
 
-  const handleLogout = () => {
-    localStorage.removeItem('token');
-    localStorage.removeItem('user');
+  // Pick up username and avatar changes made on the edit profile page
+  useEffect(() => {
+    const handleUserUpdated = () => setUser(getStoredUser());
+    window.addEventListener(USER_UPDATED_EVENT, handleUserUpdated);
+    return () => window.removeEventListener(USER_UPDATED_EVENT, handleUserUpdated);
+  }, []);
+
+  const [showLogoutMenu, setShowLogoutMenu] = useState(false);
+
+  // Ends the session on the server too, so the refresh token stops working.
+  // The local session is cleared even if that request fails.
+  const handleLogout = async (everywhere: boolean) => {
+    try {
+      const token = localStorage.getItem('token');
+      await axios.post(everywhere ? '/api/auth/logout-all' : '/api/auth/logout', {}, {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+    } catch (err) {
+      console.error('Failed to log out on the server', err);
+    }
+    clearSession();
     setIsAuthenticated(false);
   };
 
@@ -22,17 +45,42 @@ const Navbar: React.FC<NavbarProps> = ({ setIsAuthenticated }) => {
           <Camera size={28} className="text-pink-600" />
           <span className="text-2xl font-bold font-serif">Instagram Lite</span>
         </Link>
+
+        <SearchBox />
         
         <div className="flex items-center gap-6">
           <Link to="/" className="hover:text-gray-600">
             <Home size={24} />
           </Link>
-          <Link to={`/profile/${user.id}`} className="hover:text-gray-600">
-            <User size={24} />
+          <InboxLink />
+          <NotificationBell />
+          {user.role === 'admin' && (
+            <Link to="/admin/reports" className="hover:text-gray-600" title="Reports">
+              <Shield size={24} />
+            </Link>
+          )}
+          <Link to={`/profile/${user.id}`} className="hover:opacity-80" title={user.username}>
+            <img
+              src={user.avatar || '/default-avatar.png'}
+              alt={user.username}
+              className="w-7 h-7 rounded-full object-cover border border-gray-300"
+            />
           </Link>
-          <button onClick={handleLogout} className="hover:text-gray-600">
-            <LogOut size={24} />
-          </button>
+          <div className="relative flex">
+            <button onClick={() => setShowLogoutMenu(!showLogoutMenu)} className="hover:text-gray-600">
+              <LogOut size={24} />
+            </button>
+            {showLogoutMenu && (
+              <div className="absolute right-0 top-full mt-3 w-48 bg-white rounded-lg shadow-lg border border-gray-200 py-1 text-sm">
+                <button onClick={() => handleLogout(false)} className="w-full text-left px-4 py-2 hover:bg-gray-50">
+                  Log out
+                </button>
+                <button onClick={() => handleLogout(true)} className="w-full text-left px-4 py-2 hover:bg-gray-50">
+                  Log out of all devices
+                </button>
+              </div>
+            )}
+          </div>
         </div>
       </div>
     </nav>
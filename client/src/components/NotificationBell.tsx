@@ -0,0 +1,248 @@
+import React, { useState, useEffect, useRef } from 'react';
+import axios from 'axios';
+import { Link } from 'react-router-dom';
+import { Bell } from 'lucide-react';
+import { ImageVariant, findVariant } from '../utils/images';
+import { useLiveEvent } from '../hooks/useLiveEvent';
+import FollowRequests from './FollowRequests';
+
+interface NotificationActor {
+  id: number;
+  username: string;
+  avatar: string;
+}
+
+interface NotificationType {
+  id: number;
+  group_key: string;
+  type: 'like' | 'comment' | 'reply' | 'follow' | 'mention' | 'follow_request' | 'follow_accepted';
+  post_id: number | null;
+  comment_id: number | null;
+  comment_content: string | null;
+  post: { image_url: string; variants: ImageVariant[] } | null;
+  actors: NotificationActor[];
+  actors_count: number;
+  read: boolean;
+  created_at: string;
+}
+
+// New notifications are pushed live; polling only catches up on anything
+// missed while the event stream was reconnecting
+const POLL_INTERVAL = 60000;
+
+const describeActors = (notification: NotificationType) => {
+  const [first, second] = notification.actors;
+  const others = notification.actors_count - 1;
+  if (others === 0 || !first) {
+    return first?.username || 'Someone';
+  }
+  if (others === 1 && second) {
+    return `${first.username} and ${second.username}`;
+  }
+  return `${first.username} and ${others} others`;
+};
+
+const describeAction = (notification: NotificationType) => {
+  switch (notification.type) {
+    case 'like':
+      return 'liked your post.';
+    case 'comment':
+      return `commented: ${notification.comment_content}`;
+    case 'reply':
+      return `replied to your comment: ${notification.comment_content}`;
+    case 'follow':
+      return 'started following you.';
+    case 'follow_request':
+      return 'requested to follow you.';
+    case 'follow_accepted':
+      return 'accepted your follow request.';
+    case 'mention':
+      return notification.comment_id
+        ? `mentioned you in a comment: ${notification.comment_content}`
+        : 'mentioned you in a post.';
+  }
+};
+
+const NotificationBell: React.FC = () => {
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<NotificationType[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [hasFollowRequests, setHasFollowRequests] = useState(false);
+  const [showFollowRequests, setShowFollowRequests] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const fetchUnreadCount = async () => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await axios.get('/api/notifications/unread-count', {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      setUnreadCount(response.data.count);
+    } catch (err) {
+      console.error('Failed to fetch unread notifications', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchUnreadCount();
+    const interval = setInterval(fetchUnreadCount, POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  useLiveEvent('notification', fetchUnreadCount);
+
+  // Close the panel when clicking anywhere else
+  useEffect(() => {
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, []);
+
+  const fetchNotifications = async (before?: string) => {
+    setLoading(true);
+    try {
+      const token = localStorage.getItem('token');
+      const response = await axios.get('/api/notifications', {
+        headers: { Authorization: `Bearer ${token}` },
+        params: { before }
+      });
+      setNotifications(prev => before ? [...prev, ...response.data.notifications] : response.data.notifications);
+      setNextCursor(response.data.nextCursor);
+    } catch (err) {
+      console.error('Failed to fetch notifications', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Only private accounts get requests, so the entry is shown only when some
+  // are pending
+  const fetchHasFollowRequests = async () => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await axios.get('/api/users/me/follow-requests', {
+        headers: { Authorization: `Bearer ${token}` },
+        params: { limit: 1 }
+      });
+      setHasFollowRequests(response.data.requests.length > 0);
+    } catch (err) {
+      console.error('Failed to fetch follow requests', err);
+    }
+  };
+
+  // Opening the panel marks everything read; unread entries stay
+  // highlighted until the panel is opened again.
+  const handleToggle = async () => {
+    if (open) {
+      setOpen(false);
+      return;
+    }
+
+    setOpen(true);
+    fetchHasFollowRequests();
+    await fetchNotifications();
+    if (unreadCount > 0) {
+      try {
+        const token = localStorage.getItem('token');
+        await axios.post('/api/notifications/read', {}, {
+          headers: { Authorization: `Bearer ${token}` }
+        });
+        setUnreadCount(0);
+      } catch (err) {
+        console.error('Failed to mark notifications as read', err);
+      }
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative flex">
+      <button onClick={handleToggle} className="relative hover:text-gray-600">
+        <Bell size={24} />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full min-w-[18px] h-[18px] px-1 flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-3 w-80 bg-white rounded-lg shadow-lg border border-gray-200 max-h-96 overflow-y-auto">
+          <h3 className="px-4 py-3 font-semibold border-b border-gray-100">Notifications</h3>
+
+          {hasFollowRequests && (
+            <button
+              onClick={() => {
+                setOpen(false);
+                setShowFollowRequests(true);
+              }}
+              className="w-full text-left px-4 py-3 text-sm font-semibold border-b border-gray-100 hover:bg-gray-50"
+            >
+              Follow requests
+            </button>
+          )}
+
+          {loading && notifications.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">Loading...</p>
+          ) : notifications.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">No notifications yet</p>
+          ) : (
+            notifications.map((notification) => (
+              <Link
+                key={notification.group_key}
+                to={`/profile/${notification.actors[0]?.id}`}
+                onClick={() => setOpen(false)}
+                className={`flex items-center gap-3 px-4 py-3 hover:bg-gray-50 ${notification.read ? '' : 'bg-blue-50'}`}
+              >
+                <img
+                  src={notification.actors[0]?.avatar || '/default-avatar.png'}
+                  alt={notification.actors[0]?.username}
+                  className="w-10 h-10 rounded-full object-cover flex-shrink-0"
+                />
+                <div className="flex-1 min-w-0 text-sm">
+                  <p className="line-clamp-2 break-words">
+                    <span className="font-semibold">{describeActors(notification)}</span>{' '}
+                    {describeAction(notification)}
+                  </p>
+                  <span className="text-xs text-gray-400">
+                    {new Date(notification.created_at).toLocaleDateString()}
+                  </span>
+                </div>
+                {notification.post && (
+                  <img
+                    src={findVariant(notification.post.variants, 'thumb')?.url || notification.post.image_url}
+                    alt=""
+                    className="w-10 h-10 rounded object-cover flex-shrink-0"
+                  />
+                )}
+              </Link>
+            ))
+          )}
+
+          {nextCursor && !loading && (
+            <button
+              onClick={() => fetchNotifications(nextCursor)}
+              className="w-full py-2 text-sm text-gray-500 hover:text-gray-700"
+            >
+              Load more
+            </button>
+          )}
+        </div>
+      )}
+
+      {showFollowRequests && (
+        <FollowRequests
+          onClose={() => setShowFollowRequests(false)}
+          onChange={(remaining) => setHasFollowRequests(remaining > 0)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
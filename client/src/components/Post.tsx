@@ -1,16 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import axios from 'axios';
-import { Heart, MessageCircle, Trash2, Send } from 'lucide-react';
+import { Heart, MessageCircle, Trash2, Send, Pencil, Share2, Flag } from 'lucide-react';
 import { Link } from 'react-router-dom';
-
-interface Comment {
-  id: number;
-  user_id: number;
-  username: string;
-  avatar: string;
-  content: string;
-  created_at: string;
-}
+import MediaCarousel, { MediaItem } from './MediaCarousel';
+import CommentItem, { CommentType } from './CommentItem';
+import RichText, { Mention } from './RichText';
+import SharePostModal from './SharePostModal';
+import ReportModal from './ReportModal';
+import { ImageVariant } from '../utils/images';
+import { useLiveEvent } from '../hooks/useLiveEvent';
 
 interface PostProps {
   post: {
@@ -19,9 +17,13 @@ interface PostProps {
     username: string;
     avatar: string;
     image_url: string;
+    variants?: ImageVariant[];
+    media?: MediaItem[];
     caption: string;
     likes_count: number;
     created_at: string;
+    edited_at?: string | null;
+    mentions?: Mention[];
   };
   onDelete?: (postId: number) => void;
 }
@@ -30,18 +32,35 @@ const Post: React.FC<PostProps> = ({ post, onDelete }) => {
   const [liked, setLiked] = useState(false);
   const [likesCount, setLikesCount] = useState(post.likes_count);
   const [showComments, setShowComments] = useState(false);
-  const [comments, setComments] = useState<Comment[]>([]);
+  const [comments, setComments] = useState<CommentType[]>([]);
+  const [commentsCursor, setCommentsCursor] = useState<string | null>(null);
   const [newComment, setNewComment] = useState('');
+  const [replyTo, setReplyTo] = useState<CommentType | null>(null);
   const [loadingComments, setLoadingComments] = useState(false);
+  const [caption, setCaption] = useState(post.caption);
+  const [editedAt, setEditedAt] = useState(post.edited_at);
+  const [mentions, setMentions] = useState(post.mentions);
+  const [editingCaption, setEditingCaption] = useState(false);
+  const [captionDraft, setCaptionDraft] = useState(post.caption);
+  const [showShare, setShowShare] = useState(false);
+  const [showReport, setShowReport] = useState(false);
   
   const currentUserId = parseInt(localStorage.getItem('userId') || '0');
   const isOwner = currentUserId === post.user_id;
 
-  const fetchComments = async () => {
+  // Pages arrive newest first; keep the list in chronological order and
+  // prepend earlier pages above it.
+  const fetchComments = async (before?: string) => {
     setLoadingComments(true);
     try {
-      const response = await axios.get(`/api/posts/${post.id}/comments`);
-      setComments(response.data);
+      const token = localStorage.getItem('token');
+      const response = await axios.get(`/api/posts/${post.id}/comments`, {
+        headers: { Authorization: `Bearer ${token}` },
+        params: { before }
+      });
+      const page: CommentType[] = [...response.data.comments].reverse();
+      setComments(prev => before ? [...page, ...prev] : page);
+      setCommentsCursor(response.data.nextCursor);
     } catch (err) {
       console.error('Failed to fetch comments', err);
     } finally {
@@ -49,14 +68,29 @@ const Post: React.FC<PostProps> = ({ post, onDelete }) => {
     }
   };
 
+  // Other viewers' likes and comments arrive over the live event stream
+  useLiveEvent<{ post_id: number; likes_count: number }>('post:liked', (data) => {
+    if (data.post_id === post.id) {
+      setLikesCount(data.likes_count);
+    }
+  });
+
+  const handleCommentEvent = (data: { post_id: number }) => {
+    if (data.post_id === post.id && showComments) {
+      fetchComments();
+    }
+  };
+  useLiveEvent<{ post_id: number }>('comment:created', handleCommentEvent);
+  useLiveEvent<{ post_id: number }>('comment:deleted', handleCommentEvent);
+
   const handleLike = async () => {
     try {
       const token = localStorage.getItem('token');
-      await axios.post(`/api/posts/${post.id}/like`, {}, {
+      const response = await axios.post(`/api/posts/${post.id}/like`, {}, {
         headers: { Authorization: `Bearer ${token}` }
       });
-      setLiked(!liked);
-      setLikesCount(liked ? likesCount - 1 : likesCount + 1);
+      setLiked(response.data.liked);
+      setLikesCount(response.data.likes_count);
     } catch (err) {
       console.error('Failed to like post', err);
     }
@@ -82,6 +116,44 @@ const Post: React.FC<PostProps> = ({ post, onDelete }) => {
     }
   };
 
+  const handleSaveCaption = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const token = localStorage.getItem('token');
+      const response = await axios.patch(
+        `/api/posts/${post.id}`,
+        { caption: captionDraft },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      setCaption(response.data.caption);
+      setEditedAt(response.data.edited_at);
+      setMentions(response.data.mentions);
+      setEditingCaption(false);
+    } catch (err) {
+      console.error('Failed to update caption', err);
+      alert('Failed to update caption. Please try again.');
+    }
+  };
+
+  const handleCommentUpdated = (updated: CommentType) => {
+    setComments(comments.map(c => c.id === updated.id ? updated : c));
+  };
+
+  const handleCommentDeleted = (commentId: number) => {
+    setComments(comments.filter(c => c.id !== commentId));
+  };
+
+  const handleReply = (comment: CommentType) => {
+    setReplyTo(comment);
+    setNewComment(`@${comment.username} `);
+  };
+
+  const handleCancelReply = () => {
+    setReplyTo(null);
+    setNewComment('');
+  };
+
   const handleCommentToggle = () => {
     if (!showComments) {
       fetchComments();
@@ -97,12 +169,13 @@ const Post: React.FC<PostProps> = ({ post, onDelete }) => {
       const token = localStorage.getItem('token');
       await axios.post(
         `/api/posts/${post.id}/comments`,
-        { content: newComment },
+        { content: newComment, parent_id: replyTo?.id },
         { headers: { Authorization: `Bearer ${token}` } }
       );
       
       fetchComments();
       setNewComment('');
+      setReplyTo(null);
     } catch (err) {
       console.error('Failed to add comment', err);
       alert('Failed to add comment. Please try again.');
@@ -123,14 +196,11 @@ const Post: React.FC<PostProps> = ({ post, onDelete }) => {
         </Link>
       </div>
 
-           {/* Image - Fixed Height with Better Object Fit */}
-    <div className="w-full h-96 bg-gray-100 flex items-center justify-center overflow-hidden">
-      <img 
-        src={post.image_url} 
-        alt={post.caption}
-        className="w-full h-full object-contain"
+      {/* Media - Fixed Height Carousel */}
+      <MediaCarousel
+        media={post.media?.length ? post.media : [{ image_url: post.image_url, variants: post.variants }]}
+        alt={caption}
       />
-    </div>
 
       {/* Content - Fixed Structure */}
       <div className="p-4">
@@ -142,21 +212,56 @@ const Post: React.FC<PostProps> = ({ post, onDelete }) => {
           <button onClick={handleCommentToggle} className="hover:text-gray-600">
             <MessageCircle size={24} />
           </button>
+          <button onClick={() => setShowShare(true)} className="hover:text-gray-600">
+            <Share2 size={24} />
+          </button>
           {isOwner && (
-            <button onClick={handleDelete} className="hover:text-red-500 ml-auto">
-              <Trash2 size={24} />
+            <>
+              <button
+                onClick={() => { setCaptionDraft(caption); setEditingCaption(true); }}
+                className="hover:text-gray-600 ml-auto"
+              >
+                <Pencil size={24} />
+              </button>
+              <button onClick={handleDelete} className="hover:text-red-500">
+                <Trash2 size={24} />
+              </button>
+            </>
+          )}
+          {!isOwner && (
+            <button onClick={() => setShowReport(true)} className="hover:text-red-500 ml-auto" title="Report">
+              <Flag size={24} />
             </button>
           )}
         </div>
 
+        {showShare && <SharePostModal postId={post.id} onClose={() => setShowShare(false)} />}
+        {showReport && <ReportModal targetType="post" targetId={post.id} onClose={() => setShowReport(false)} />}
+
         {/* Likes Count */}
         <div className="font-semibold mb-2">{likesCount} likes</div>
         
         {/* Caption - Max 2 lines with ellipsis */}
-        {post.caption && (
+        {editingCaption ? (
+          <form onSubmit={handleSaveCaption} className="mb-2">
+            <textarea
+              value={captionDraft}
+              onChange={(e) => setCaptionDraft(e.target.value)}
+              className="w-full p-2 border border-gray-300 rounded resize-none focus:outline-none focus:border-blue-500"
+              rows={2}
+              autoFocus
+            />
+            <div className="flex gap-3 text-sm">
+              <button type="submit" className="text-blue-500 font-semibold">Save</button>
+              <button type="button" onClick={() => setEditingCaption(false)} className="text-gray-500">
+                Cancel
+              </button>
+            </div>
+          </form>
+        ) : caption && (
           <div className="mb-2">
             <span className="font-semibold mr-2">{post.username}</span>
-            <span className="line-clamp-2">{post.caption}</span>
+            <RichText text={caption} mentions={mentions} className="line-clamp-2" />
           </div>
         )}
 
@@ -173,38 +278,46 @@ const Post: React.FC<PostProps> = ({ post, onDelete }) => {
         {/* Comments Section */}
         {showComments && (
           <div className="mt-4 border-t pt-4">
-            {loadingComments ? (
+            {commentsCursor && !loadingComments && (
+              <button
+                onClick={() => fetchComments(commentsCursor)}
+                className="text-gray-500 text-sm mb-2 hover:text-gray-700"
+              >
+                View earlier comments
+              </button>
+            )}
+            {loadingComments && comments.length === 0 ? (
               <p className="text-gray-500 text-sm">Loading comments...</p>
             ) : comments.length === 0 ? (
               <p className="text-gray-500 text-sm mb-3">No comments yet</p>
             ) : (
               <div className="space-y-3 mb-4 max-h-48 overflow-y-auto">
                 {comments.map((comment) => (
-                  <div key={comment.id} className="flex gap-3">
-                    <img 
-                      src={comment.avatar || '/default-avatar.png'} 
-                      alt={comment.username}
-                      className="w-8 h-8 rounded-full object-cover flex-shrink-0"
-                    />
-                    <div className="flex-1 min-w-0">
-                      <div>
-                        <span className="font-semibold text-sm mr-2">{comment.username}</span>
-                        <span className="text-sm break-words">{comment.content}</span>
-                      </div>
-                      <span className="text-xs text-gray-400">
-                        {new Date(comment.created_at).toLocaleDateString()}
-                      </span>
-                    </div>
-                  </div>
+                  <CommentItem
+                    key={comment.id}
+                    postId={post.id}
+                    comment={comment}
+                    canDelete={isOwner || comment.user_id === currentUserId}
+                    onUpdated={handleCommentUpdated}
+                    onDeleted={handleCommentDeleted}
+                    onReply={handleReply}
+                    isPostOwner={isOwner}
+                  />
                 ))}
               </div>
             )}
 
             {/* Add Comment Form */}
+            {replyTo && (
+              <div className="flex justify-between text-xs text-gray-500 mb-1">
+                <span>Replying to {replyTo.username}</span>
+                <button onClick={handleCancelReply} className="hover:text-gray-700">Cancel</button>
+              </div>
+            )}
             <form onSubmit={handleAddComment} className="flex gap-2">
               <input
                 type="text"
-                placeholder="Add a comment..."
+                placeholder={replyTo ? 'Add a reply...' : 'Add a comment...'}
                 value={newComment}
                 onChange={(e) => setNewComment(e.target.value)}
                 className="flex-1 p-2 border border-gray-300 rounded-lg focus:outline-none focus:border-blue-500"
@@ -222,6 +335,7 @@ const Post: React.FC<PostProps> = ({ post, onDelete }) => {
         {/* Date */}
         <div className="text-gray-400 text-sm mt-2">
           {new Date(post.created_at).toLocaleDateString()}
+          {editedAt && ' · Edited'}
         </div>
       </div>
     </div>
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import axios from 'axios';
+import { X } from 'lucide-react';
+import { getErrorMessage } from '../utils/errors';
+
+export type ReportTargetType = 'post' | 'comment' | 'user';
+
+const REASONS = [
+  { value: 'spam', label: "It's spam" },
+  { value: 'harassment', label: 'Bullying or harassment' },
+  { value: 'hate', label: 'Hate speech or symbols' },
+  { value: 'nudity', label: 'Nudity or sexual activity' },
+  { value: 'violence', label: 'Violence or dangerous organizations' },
+  { value: 'self_harm', label: 'Suicide or self-injury' },
+  { value: 'other', label: 'Something else' }
+];
+
+const MAX_DETAILS_LENGTH = 500;
+
+interface ReportModalProps {
+  targetType: ReportTargetType;
+  targetId: number;
+  onClose: () => void;
+}
+
+// Sends a post, comment or account to the moderators
+const ReportModal: React.FC<ReportModalProps> = ({ targetType, targetId, onClose }) => {
+  const [reason, setReason] = useState('');
+  const [details, setDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason) return;
+
+    setSubmitting(true);
+    setError('');
+    try {
+      const token = localStorage.getItem('token');
+      await axios.post('/api/reports', {
+        target_type: targetType,
+        target_id: targetId,
+        reason,
+        details: details.trim() || null
+      }, {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      setSent(true);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to send report'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-96 max-w-full">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold">Report {targetType === 'user' ? 'account' : targetType}</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        {sent ? (
+          <div>
+            <p className="font-semibold mb-1">Thanks for letting us know</p>
+            <p className="text-gray-500 text-sm mb-4">Our moderators will review your report.</p>
+            <button
+              onClick={onClose}
+              className="w-full bg-blue-500 text-white py-2 rounded font-semibold hover:bg-blue-600"
+            >
+              Close
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <p className="text-sm font-semibold mb-2">Why are you reporting this?</p>
+            <div className="space-y-2 mb-4">
+              {REASONS.map(({ value, label }) => (
+                <label key={value} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="radio"
+                    name="reason"
+                    value={value}
+                    checked={reason === value}
+                    onChange={() => setReason(value)}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+            <textarea
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              placeholder="Add details (optional)"
+              maxLength={MAX_DETAILS_LENGTH}
+              rows={3}
+              className="w-full p-2 text-sm border border-gray-300 rounded resize-none mb-2"
+            />
+            {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+            <button
+              type="submit"
+              disabled={!reason || submitting}
+              className="w-full bg-red-500 text-white py-2 rounded font-semibold hover:bg-red-600 disabled:opacity-50"
+            >
+              {submitting ? 'Sending...' : 'Report'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReportModal;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+
+export interface Mention {
+  user_id: number;
+  username: string;
+}
+
+interface RichTextProps {
+  text: string;
+  // Mentions the server resolved to real accounts; other @names stay plain text
+  mentions?: Mention[];
+  className?: string;
+}
+
+// Mentions match the server's: a trailing period ends the sentence, not the name
+const TOKEN_PATTERN = /(#[\p{L}\p{N}_]+|@[A-Za-z0-9_.]*[A-Za-z0-9_])/gu;
+
+const RichText: React.FC<RichTextProps> = ({ text, mentions = [], className }) => {
+  const parts = text.split(TOKEN_PATTERN);
+
+  return (
+    <span className={className}>
+      {parts.map((part, i) => {
+        if (part.startsWith('#') && part.length > 1) {
+          return (
+            <Link key={i} to={`/tags/${encodeURIComponent(part.slice(1).toLowerCase())}`} className="text-blue-900">
+              {part}
+            </Link>
+          );
+        }
+        if (part.startsWith('@')) {
+          const mention = mentions.find(m => m.username.toLowerCase() === part.slice(1).toLowerCase());
+          if (mention) {
+            return (
+              <Link key={i} to={`/profile/${mention.user_id}`} className="text-blue-900">
+                {part}
+              </Link>
+            );
+          }
+        }
+        return <React.Fragment key={i}>{part}</React.Fragment>;
+      })}
+    </span>
+  );
+};
+
+export default RichText;
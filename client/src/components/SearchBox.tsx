@@ -0,0 +1,171 @@
+import React, { useState, useEffect, useRef } from 'react';
+import axios from 'axios';
+import { Link } from 'react-router-dom';
+import { Search, Hash } from 'lucide-react';
+import { ImageVariant, findVariant } from '../utils/images';
+
+interface SearchResults {
+  users: { id: number; username: string; avatar: string; bio: string }[];
+  tags: { name: string; posts_count: number }[];
+  posts: {
+    id: number;
+    user_id: number;
+    username: string;
+    image_url: string;
+    variants?: ImageVariant[];
+    snippet: string;
+  }[];
+}
+
+const EMPTY_RESULTS: SearchResults = { users: [], tags: [], posts: [] };
+
+const SearchBox: React.FC = () => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResults>(EMPTY_RESULTS);
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Debounce typing so each pause sends one request
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults(EMPTY_RESULTS);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const token = localStorage.getItem('token');
+        const response = await axios.get('/api/search', {
+          headers: { Authorization: `Bearer ${token}` },
+          params: { q: query }
+        });
+        if (!cancelled) {
+          setResults(response.data);
+        }
+      } catch (err) {
+        console.error('Search failed', err);
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  // Close the dropdown when clicking anywhere else
+  useEffect(() => {
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, []);
+
+  const handleSelect = () => {
+    setOpen(false);
+    setQuery('');
+  };
+
+  const hasResults = results.users.length > 0 || results.tags.length > 0 || results.posts.length > 0;
+
+  return (
+    <div ref={containerRef} className="relative hidden sm:block w-64">
+      <div className="flex items-center gap-2 bg-gray-100 rounded-lg px-3 py-1.5">
+        <Search size={16} className="text-gray-400" />
+        <input
+          type="text"
+          placeholder="Search"
+          value={query}
+          onChange={(e) => { setQuery(e.target.value); setOpen(true); }}
+          onFocus={() => setOpen(true)}
+          onKeyDown={(e) => e.key === 'Escape' && setOpen(false)}
+          className="flex-1 bg-transparent text-sm focus:outline-none"
+        />
+      </div>
+
+      {open && query.trim() && (
+        <div className="absolute top-full mt-2 w-80 bg-white rounded-lg shadow-lg border border-gray-200 max-h-96 overflow-y-auto">
+          {!hasResults && <p className="p-4 text-sm text-gray-500">No results found</p>}
+
+          {results.users.length > 0 && (
+            <div className="py-2">
+              <h3 className="px-4 py-1 text-xs font-semibold text-gray-500 uppercase">Accounts</h3>
+              {results.users.map((user) => (
+                <Link
+                  key={user.id}
+                  to={`/profile/${user.id}`}
+                  onClick={handleSelect}
+                  className="flex items-center gap-3 px-4 py-2 hover:bg-gray-50"
+                >
+                  <img
+                    src={user.avatar || '/default-avatar.png'}
+                    alt={user.username}
+                    className="w-8 h-8 rounded-full object-cover flex-shrink-0"
+                  />
+                  <div className="min-w-0">
+                    <div className="font-semibold text-sm truncate">{user.username}</div>
+                    {user.bio && <div className="text-xs text-gray-500 truncate">{user.bio}</div>}
+                  </div>
+                </Link>
+              ))}
+            </div>
+          )}
+
+          {results.tags.length > 0 && (
+            <div className="py-2 border-t border-gray-100">
+              <h3 className="px-4 py-1 text-xs font-semibold text-gray-500 uppercase">Tags</h3>
+              {results.tags.map((tag) => (
+                <Link
+                  key={tag.name}
+                  to={`/tags/${encodeURIComponent(tag.name)}`}
+                  onClick={handleSelect}
+                  className="flex items-center gap-3 px-4 py-2 hover:bg-gray-50"
+                >
+                  <div className="w-8 h-8 rounded-full border border-gray-300 flex items-center justify-center flex-shrink-0">
+                    <Hash size={16} />
+                  </div>
+                  <div>
+                    <div className="font-semibold text-sm">#{tag.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {tag.posts_count} {tag.posts_count === 1 ? 'post' : 'posts'}
+                    </div>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          )}
+
+          {results.posts.length > 0 && (
+            <div className="py-2 border-t border-gray-100">
+              <h3 className="px-4 py-1 text-xs font-semibold text-gray-500 uppercase">Posts</h3>
+              {results.posts.map((post) => (
+                <Link
+                  key={post.id}
+                  to={`/profile/${post.user_id}`}
+                  onClick={handleSelect}
+                  className="flex items-center gap-3 px-4 py-2 hover:bg-gray-50"
+                >
+                  <img
+                    src={findVariant(post.variants, 'thumb')?.url || post.image_url}
+                    alt={post.snippet}
+                    className="w-10 h-10 rounded object-cover flex-shrink-0"
+                  />
+                  <div className="min-w-0">
+                    <div className="font-semibold text-sm truncate">{post.username}</div>
+                    <div className="text-xs text-gray-500 truncate">{post.snippet}</div>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchBox;
@@ -0,0 +1,89 @@
+import React, { useState, useEffect } from 'react';
+import axios from 'axios';
+import { X } from 'lucide-react';
+import { ConversationType } from './ConversationView';
+
+interface SharePostModalProps {
+  postId: number;
+  onClose: () => void;
+}
+
+// Sends a post into one of the caller's existing conversations
+const SharePostModal: React.FC<SharePostModalProps> = ({ postId, onClose }) => {
+  const [conversations, setConversations] = useState<ConversationType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [sentTo, setSentTo] = useState<number[]>([]);
+
+  const token = localStorage.getItem('token');
+
+  useEffect(() => {
+    const fetchConversations = async () => {
+      try {
+        const response = await axios.get('/api/conversations', {
+          headers: { Authorization: `Bearer ${token}` }
+        });
+        setConversations(response.data);
+      } catch (err) {
+        console.error('Failed to fetch conversations', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchConversations();
+  }, []);
+
+  const handleSend = async (conversationId: number) => {
+    try {
+      await axios.post(
+        `/api/conversations/${conversationId}/messages`,
+        { post_id: postId },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      setSentTo([...sentTo, conversationId]);
+    } catch (err) {
+      console.error('Failed to share post', err);
+      alert('Failed to share post. Please try again.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-96 max-w-full">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold">Share</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        {loading ? (
+          <p className="text-gray-500 text-sm">Loading...</p>
+        ) : conversations.length === 0 ? (
+          <p className="text-gray-500 text-sm">Start a conversation from someone's profile to share posts with them.</p>
+        ) : (
+          <div className="space-y-3 max-h-80 overflow-y-auto">
+            {conversations.map((conversation) => (
+              <div key={conversation.id} className="flex items-center gap-3">
+                <img
+                  src={conversation.user.avatar || '/default-avatar.png'}
+                  alt={conversation.user.username}
+                  className="w-10 h-10 rounded-full object-cover flex-shrink-0"
+                />
+                <span className="font-semibold truncate flex-1">{conversation.user.username}</span>
+                <button
+                  onClick={() => handleSend(conversation.id)}
+                  disabled={sentTo.includes(conversation.id)}
+                  className="px-4 py-1 bg-blue-500 text-white rounded font-semibold hover:bg-blue-600 disabled:bg-gray-300"
+                >
+                  {sentTo.includes(conversation.id) ? 'Sent' : 'Send'}
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SharePostModal;
@@ -0,0 +1,130 @@
+import React, { useState, useEffect, useRef } from 'react';
+import axios from 'axios';
+import { Plus } from 'lucide-react';
+import StoryViewer, { StoryGroup } from './StoryViewer';
+import { getErrorMessage } from '../utils/errors';
+
+const StoryTray: React.FC = () => {
+  const [groups, setGroups] = useState<StoryGroup[]>([]);
+  const [viewingIndex, setViewingIndex] = useState<number | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const currentUserId = parseInt(localStorage.getItem('userId') || '0');
+  const user = JSON.parse(localStorage.getItem('user') || '{}');
+  const hasOwnStory = groups[0]?.user.id === currentUserId;
+
+  const fetchStories = async () => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await axios.get('/api/stories', {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      setGroups(response.data);
+    } catch (err) {
+      console.error('Failed to fetch stories', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchStories();
+  }, []);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const formData = new FormData();
+    formData.append('image', file);
+
+    setUploading(true);
+    try {
+      const token = localStorage.getItem('token');
+      await axios.post('/api/stories', formData, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'multipart/form-data'
+        }
+      });
+      fetchStories();
+    } catch (err) {
+      alert(getErrorMessage(err, 'Failed to post story. Please try again.'));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  // Refresh seen/unseen rings once the viewer closes
+  const handleViewerClose = () => {
+    setViewingIndex(null);
+    fetchStories();
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 mb-8 flex gap-4 overflow-x-auto">
+      {!hasOwnStory && (
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploading}
+          className="flex flex-col items-center gap-1 flex-shrink-0 w-16"
+        >
+          <div className="relative">
+            <img
+              src={user.avatar || '/default-avatar.png'}
+              alt="Your story"
+              className="w-16 h-16 rounded-full object-cover border-2 border-gray-200"
+            />
+            <span className="absolute bottom-0 right-0 bg-blue-500 text-white rounded-full border-2 border-white">
+              <Plus size={14} />
+            </span>
+          </div>
+          <span className="text-xs truncate w-full text-center">
+            {uploading ? 'Posting...' : 'Your story'}
+          </span>
+        </button>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/jpeg,image/png,image/webp,image/gif"
+        onChange={handleFileChange}
+        className="hidden"
+      />
+
+      {groups.map((group, index) => (
+        <button
+          key={group.user.id}
+          onClick={() => setViewingIndex(index)}
+          className="flex flex-col items-center gap-1 flex-shrink-0 w-16"
+        >
+          <div
+            className={`p-0.5 rounded-full ${
+              group.has_unseen ? 'bg-gradient-to-tr from-yellow-400 via-pink-500 to-purple-500' : 'bg-gray-300'
+            }`}
+          >
+            <img
+              src={group.user.avatar || '/default-avatar.png'}
+              alt={group.user.username}
+              className="w-[60px] h-[60px] rounded-full object-cover border-2 border-white"
+            />
+          </div>
+          <span className="text-xs truncate w-full text-center">
+            {group.user.id === currentUserId ? 'Your story' : group.user.username}
+          </span>
+        </button>
+      ))}
+
+      {viewingIndex !== null && (
+        <StoryViewer
+          groups={groups}
+          initialGroupIndex={viewingIndex}
+          onClose={handleViewerClose}
+          onAddStory={() => fileInputRef.current?.click()}
+        />
+      )}
+    </div>
+  );
+};
+
+export default StoryTray;
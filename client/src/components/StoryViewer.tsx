@@ -0,0 +1,244 @@
+import React, { useState, useEffect } from 'react';
+import axios from 'axios';
+import { X, Eye, Trash2, Plus } from 'lucide-react';
+import { ImageVariant, buildSrcSet } from '../utils/images';
+
+export interface StoryType {
+  id: number;
+  user_id: number;
+  image_url: string;
+  variants: ImageVariant[];
+  created_at: string;
+  expires_at: string;
+  viewed: boolean;
+}
+
+export interface StoryGroup {
+  user: { id: number; username: string; avatar: string };
+  stories: StoryType[];
+  has_unseen: boolean;
+}
+
+interface StoryViewerUser {
+  id: number;
+  username: string;
+  avatar: string;
+  viewed_at: string;
+}
+
+interface StoryViewerProps {
+  groups: StoryGroup[];
+  initialGroupIndex: number;
+  onClose: () => void;
+  onAddStory: () => void;
+}
+
+// How long each story stays on screen
+const STORY_DURATION = 5000;
+const TICK = 50;
+
+const StoryViewer: React.FC<StoryViewerProps> = ({ groups, initialGroupIndex, onClose, onAddStory }) => {
+  const [groupIndex, setGroupIndex] = useState(initialGroupIndex);
+  // Start each author at their first unseen story
+  const [storyIndex, setStoryIndex] = useState(
+    Math.max(0, groups[initialGroupIndex].stories.findIndex(story => !story.viewed))
+  );
+  const [elapsed, setElapsed] = useState(0);
+  const [viewers, setViewers] = useState<StoryViewerUser[] | null>(null);
+
+  const currentUserId = parseInt(localStorage.getItem('userId') || '0');
+  const group = groups[groupIndex];
+  const story = group.stories[storyIndex];
+  const isOwn = group.user.id === currentUserId;
+  const paused = viewers !== null;
+
+  const goTo = (nextGroup: number, nextStory: number) => {
+    setViewers(null);
+    setElapsed(0);
+    setGroupIndex(nextGroup);
+    setStoryIndex(nextStory);
+  };
+
+  const handleNext = () => {
+    if (storyIndex < group.stories.length - 1) {
+      goTo(groupIndex, storyIndex + 1);
+    } else if (groupIndex < groups.length - 1) {
+      const nextStories = groups[groupIndex + 1].stories;
+      goTo(groupIndex + 1, Math.max(0, nextStories.findIndex(s => !s.viewed)));
+    } else {
+      onClose();
+    }
+  };
+
+  const handlePrevious = () => {
+    if (storyIndex > 0) {
+      goTo(groupIndex, storyIndex - 1);
+    } else if (groupIndex > 0) {
+      goTo(groupIndex - 1, 0);
+    } else {
+      setElapsed(0);
+    }
+  };
+
+  // Record the view once per story
+  useEffect(() => {
+    if (isOwn || story.viewed) return;
+    const token = localStorage.getItem('token');
+    axios.post(`/api/stories/${story.id}/view`, {}, {
+      headers: { Authorization: `Bearer ${token}` }
+    }).catch(err => console.error('Failed to record story view', err));
+  }, [story.id]);
+
+  useEffect(() => {
+    if (paused) return;
+    const timer = setInterval(() => setElapsed(prev => prev + TICK), TICK);
+    return () => clearInterval(timer);
+  }, [paused, story.id]);
+
+  useEffect(() => {
+    if (elapsed >= STORY_DURATION) {
+      handleNext();
+    }
+  }, [elapsed]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowRight') handleNext();
+      if (e.key === 'ArrowLeft') handlePrevious();
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  // Tapping the left third goes back, anywhere else goes forward
+  const handleTap = (e: React.MouseEvent<HTMLDivElement>) => {
+    const { left, width } = e.currentTarget.getBoundingClientRect();
+    if (e.clientX - left < width / 3) {
+      handlePrevious();
+    } else {
+      handleNext();
+    }
+  };
+
+  const handleShowViewers = async () => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await axios.get(`/api/stories/${story.id}/viewers`, {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      setViewers(response.data);
+    } catch (err) {
+      console.error('Failed to fetch story viewers', err);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm('Delete this story?')) {
+      return;
+    }
+
+    try {
+      const token = localStorage.getItem('token');
+      await axios.delete(`/api/stories/${story.id}`, {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      onClose();
+    } catch (err) {
+      console.error('Failed to delete story', err);
+      alert('Failed to delete story. Please try again.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black z-50 flex items-center justify-center">
+      <div className="relative w-full max-w-md h-full max-h-[56rem] bg-black">
+        {/* Progress bars */}
+        <div className="absolute top-2 inset-x-2 flex gap-1 z-10">
+          {group.stories.map((s, index) => (
+            <div key={s.id} className="flex-1 h-0.5 bg-white bg-opacity-40 rounded">
+              <div
+                className="h-full bg-white rounded"
+                style={{
+                  width: index < storyIndex ? '100%'
+                    : index === storyIndex ? `${Math.min(100, (elapsed / STORY_DURATION) * 100)}%`
+                    : '0%'
+                }}
+              />
+            </div>
+          ))}
+        </div>
+
+        {/* Header */}
+        <div className="absolute top-5 inset-x-2 flex items-center gap-2 z-10 text-white">
+          <img
+            src={group.user.avatar || '/default-avatar.png'}
+            alt={group.user.username}
+            className="w-8 h-8 rounded-full object-cover"
+          />
+          <span className="font-semibold text-sm">{group.user.username}</span>
+          <span className="text-xs text-gray-300">
+            {new Date(story.created_at.replace(' ', 'T') + 'Z').toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </span>
+          <button onClick={onClose} className="ml-auto">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div onClick={handleTap} className="w-full h-full flex items-center justify-center cursor-pointer select-none">
+          <img
+            src={story.image_url}
+            srcSet={buildSrcSet(story.variants)}
+            sizes="448px"
+            alt={`Story by ${group.user.username}`}
+            className="max-w-full max-h-full object-contain"
+          />
+        </div>
+
+        {/* Author controls */}
+        {isOwn && (
+          <div className="absolute bottom-4 inset-x-4 flex items-center gap-4 text-white z-10">
+            <button onClick={handleShowViewers} className="flex items-center gap-1 text-sm">
+              <Eye size={20} /> Viewers
+            </button>
+            <button onClick={() => { onClose(); onAddStory(); }} className="flex items-center gap-1 text-sm">
+              <Plus size={20} /> Add
+            </button>
+            <button onClick={handleDelete} className="ml-auto hover:text-red-400">
+              <Trash2 size={20} />
+            </button>
+          </div>
+        )}
+
+        {viewers && (
+          <div className="absolute bottom-0 inset-x-0 bg-white rounded-t-lg p-4 z-20">
+            <div className="flex justify-between items-center mb-3">
+              <h3 className="font-semibold">Seen by {viewers.length}</h3>
+              <button onClick={() => setViewers(null)} className="text-gray-500 hover:text-gray-700">
+                <X size={20} />
+              </button>
+            </div>
+            {viewers.length === 0 ? (
+              <p className="text-sm text-gray-500">No views yet</p>
+            ) : (
+              <div className="space-y-3 max-h-64 overflow-y-auto">
+                {viewers.map((viewer) => (
+                  <div key={viewer.id} className="flex items-center gap-3">
+                    <img
+                      src={viewer.avatar || '/default-avatar.png'}
+                      alt={viewer.username}
+                      className="w-8 h-8 rounded-full object-cover"
+                    />
+                    <span className="font-semibold text-sm">{viewer.username}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StoryViewer;
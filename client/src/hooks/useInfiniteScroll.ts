@@ -0,0 +1,27 @@
+import { useEffect, useRef, useState } from 'react';
+
+// Calls onLoadMore whenever the sentinel element scrolls into view. Attach the
+// returned callback ref to that element; pass enabled=false while a page is
+// loading or when there are no more pages.
+export const useInfiniteScroll = (onLoadMore: () => void, enabled: boolean) => {
+  const [sentinel, setSentinel] = useState<HTMLElement | null>(null);
+  const callbackRef = useRef(onLoadMore);
+  callbackRef.current = onLoadMore;
+
+  useEffect(() => {
+    if (!sentinel || !enabled) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) {
+          callbackRef.current();
+        }
+      },
+      { rootMargin: '400px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [sentinel, enabled]);
+
+  return setSentinel;
+};
@@ -0,0 +1,76 @@
+import { useEffect, useRef } from 'react';
+import { refreshAccessToken } from '../utils/auth';
+
+type Listener = (data: unknown) => void;
+
+// One EventSource is shared by every component on the page. It is opened by
+// the first listener and closed when the last one unmounts, e.g. on logout.
+let source: EventSource | null = null;
+const listeners = new Map<string, Set<Listener>>();
+
+const connect = () => {
+  const token = localStorage.getItem('token');
+  const current = new EventSource(`/api/events?token=${encodeURIComponent(token || '')}`);
+  source = current;
+  for (const type of listeners.keys()) {
+    current.addEventListener(type, dispatch);
+  }
+
+  // EventSource retries dropped connections by itself, but gives up once the
+  // server rejects it, which happens when the access token has expired
+  current.onerror = () => {
+    if (current.readyState !== EventSource.CLOSED || source !== current) return;
+    refreshAccessToken()
+      .then(() => {
+        if (source === current) {
+          connect();
+        }
+      })
+      .catch(() => {
+        source = null;
+      });
+  };
+};
+
+const dispatch = (event: Event) => {
+  const { type, data } = event as MessageEvent;
+  listeners.get(type)?.forEach(listener => listener(JSON.parse(data)));
+};
+
+const addListener = (type: string, listener: Listener) => {
+  if (!listeners.has(type)) {
+    listeners.set(type, new Set());
+    source?.addEventListener(type, dispatch);
+  }
+  listeners.get(type)!.add(listener);
+  if (!source) {
+    connect();
+  }
+};
+
+const removeListener = (type: string, listener: Listener) => {
+  const set = listeners.get(type);
+  set?.delete(listener);
+  if (set && set.size === 0) {
+    listeners.delete(type);
+    source?.removeEventListener(type, dispatch);
+  }
+  if (listeners.size === 0 && source) {
+    source.close();
+    source = null;
+  }
+};
+
+// Calls onEvent with the payload of every server-sent event of `type`,
+// which the caller describes as T. The latest onEvent is always used, so it
+// may close over fresh state.
+export const useLiveEvent = <T>(type: string, onEvent: (data: T) => void) => {
+  const callbackRef = useRef(onEvent);
+  callbackRef.current = onEvent;
+
+  useEffect(() => {
+    const listener = (data: unknown) => callbackRef.current(data as T);
+    addListener(type, listener);
+    return () => removeListener(type, listener);
+  }, [type]);
+};
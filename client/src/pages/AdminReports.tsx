@@ -0,0 +1,240 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import axios from 'axios';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
+import { getErrorMessage } from '../utils/errors';
+import { ImageVariant, findVariant } from '../utils/images';
+
+type ReportStatus = 'open' | 'resolved' | 'dismissed';
+type Resolution = 'hide' | 'remove' | 'warn' | 'suspend' | 'dismiss';
+
+interface Report {
+  id: number;
+  reason: string;
+  details: string | null;
+  status: ReportStatus;
+  created_at: string;
+  resolved_at: string | null;
+  reporter: { id: number; username: string; avatar: string };
+  target: {
+    type: 'post' | 'comment' | 'user';
+    id: number;
+    exists: boolean;
+    hidden: boolean;
+    author: { id: number; username: string; avatar: string; suspended: boolean } | null;
+    post: { caption: string; image_url: string; variants: ImageVariant[] } | null;
+    comment: { content: string; post_id: number } | null;
+  };
+}
+
+const STATUSES: { value: ReportStatus; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'dismissed', label: 'Dismissed' }
+];
+
+const REASON_LABELS: Record<string, string> = {
+  spam: 'Spam',
+  harassment: 'Bullying or harassment',
+  hate: 'Hate speech',
+  nudity: 'Nudity',
+  violence: 'Violence',
+  self_harm: 'Suicide or self-injury',
+  other: 'Something else'
+};
+
+// What each button does, and which targets it applies to
+const RESOLUTIONS: { action: Resolution; label: string; contentOnly?: boolean; danger?: boolean }[] = [
+  { action: 'hide', label: 'Hide', contentOnly: true },
+  { action: 'remove', label: 'Remove', contentOnly: true, danger: true },
+  { action: 'warn', label: 'Warn author' },
+  { action: 'suspend', label: 'Suspend author', danger: true },
+  { action: 'dismiss', label: 'Dismiss' }
+];
+
+// Moderation queue. Only admins can load it; the server enforces that.
+const AdminReports: React.FC = () => {
+  const [status, setStatus] = useState<ReportStatus>('open');
+  const [reports, setReports] = useState<Report[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [notes, setNotes] = useState<Record<number, string>>({});
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const fetchReports = async (before?: string) => {
+    setLoading(true);
+    try {
+      const token = localStorage.getItem('token');
+      const response = await axios.get('/api/admin/reports', {
+        headers: { Authorization: `Bearer ${token}` },
+        params: { status, before }
+      });
+      setReports(prev => before ? [...prev, ...response.data.reports] : response.data.reports);
+      setNextCursor(response.data.nextCursor);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load reports'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setReports([]);
+    setNextCursor(null);
+    setError('');
+    fetchReports();
+  }, [status]);
+
+  const sentinelRef = useInfiniteScroll(
+    () => {
+      if (nextCursor) fetchReports(nextCursor);
+    },
+    !!nextCursor && !loading
+  );
+
+  // Resolving closes every open report about the same target, so they all
+  // leave the queue
+  const handleResolve = async (report: Report, action: Resolution) => {
+    if ((action === 'remove' || action === 'suspend') && !window.confirm(
+      action === 'remove'
+        ? `Permanently remove this ${report.target.type}?`
+        : `Suspend ${report.target.author?.username}? They will be signed out everywhere.`
+    )) {
+      return;
+    }
+
+    setBusyId(report.id);
+    setError('');
+    try {
+      const token = localStorage.getItem('token');
+      await axios.post(`/api/admin/reports/${report.id}/resolve`, {
+        action,
+        note: notes[report.id]?.trim() || null
+      }, {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      setReports(prev => prev.filter(r =>
+        !(r.target.type === report.target.type && r.target.id === report.target.id)
+      ));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to resolve report'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const renderTarget = ({ target }: Report) => {
+    if (!target.exists) {
+      return <p className="text-sm text-gray-500 italic">This {target.type} no longer exists</p>;
+    }
+    return (
+      <div className="flex gap-3 p-3 bg-gray-50 rounded">
+        {target.post && (
+          <img
+            src={findVariant(target.post.variants, 'thumb')?.url || target.post.image_url}
+            alt=""
+            className="w-16 h-16 rounded object-cover flex-shrink-0"
+          />
+        )}
+        <div className="min-w-0 text-sm">
+          <Link to={`/profile/${target.author!.id}`} className="font-semibold">
+            {target.author!.username}
+          </Link>
+          {target.author!.suspended && <span className="ml-2 text-xs text-red-600 font-semibold">Suspended</span>}
+          {target.hidden && <span className="ml-2 text-xs text-gray-500 font-semibold">Hidden</span>}
+          {target.post && <p className="break-words line-clamp-3">{target.post.caption}</p>}
+          {target.comment && <p className="break-words line-clamp-3">{target.comment.content}</p>}
+          {target.type === 'user' && <p className="text-gray-500">Reported account</p>}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto pt-20 pb-8 px-4">
+      <h1 className="text-2xl font-bold mb-4">Reports</h1>
+
+      <div className="flex border-b border-gray-200 mb-4">
+        {STATUSES.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => setStatus(value)}
+            className={`flex-1 pb-2 font-semibold ${
+              status === value ? 'border-b-2 border-black' : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {loading && reports.length === 0 ? (
+        <p className="text-gray-500 text-sm">Loading...</p>
+      ) : reports.length === 0 ? (
+        <p className="text-gray-500 text-sm">No {status} reports</p>
+      ) : (
+        <div className="space-y-4">
+          {reports.map((report) => (
+            <div key={report.id} className="bg-white rounded-lg shadow-md p-4">
+              <div className="flex justify-between items-start mb-2 text-sm">
+                <div>
+                  <span className="font-semibold">{REASON_LABELS[report.reason] || report.reason}</span>
+                  <span className="text-gray-500"> · {report.target.type} reported by </span>
+                  <Link to={`/profile/${report.reporter.id}`} className="font-semibold">
+                    {report.reporter.username}
+                  </Link>
+                </div>
+                <span className="text-xs text-gray-400">{new Date(report.created_at).toLocaleString()}</span>
+              </div>
+              {report.details && <p className="text-sm text-gray-700 mb-2 whitespace-pre-line">{report.details}</p>}
+
+              {renderTarget(report)}
+
+              {report.status === 'open' && (
+                <div className="mt-3">
+                  <input
+                    value={notes[report.id] || ''}
+                    onChange={(e) => setNotes({ ...notes, [report.id]: e.target.value })}
+                    placeholder="Note for the audit log and the author (optional)"
+                    className="w-full p-2 text-sm border border-gray-300 rounded mb-2"
+                  />
+                  <div className="flex flex-wrap gap-2">
+                    {RESOLUTIONS
+                      .filter(({ action, contentOnly }) =>
+                        (!contentOnly || report.target.type !== 'user') &&
+                        (report.target.exists || action === 'dismiss'))
+                      .map(({ action, label, danger }) => (
+                        <button
+                          key={action}
+                          onClick={() => handleResolve(report, action)}
+                          disabled={busyId === report.id}
+                          className={`px-3 py-1 text-sm rounded font-semibold border disabled:opacity-50 ${
+                            danger
+                              ? 'border-red-300 text-red-600 hover:bg-red-50'
+                              : 'border-gray-300 hover:bg-gray-100'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                  </div>
+                </div>
+              )}
+              {report.resolved_at && (
+                <p className="text-xs text-gray-400 mt-2">
+                  {report.status === 'dismissed' ? 'Dismissed' : 'Resolved'} {new Date(report.resolved_at).toLocaleString()}
+                </p>
+              )}
+            </div>
+          ))}
+          <div ref={sentinelRef} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminReports;
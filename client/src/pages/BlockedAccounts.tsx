@@ -0,0 +1,138 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import axios from 'axios';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
+import { getErrorMessage } from '../utils/errors';
+
+interface ListedUser {
+  id: number;
+  username: string;
+  display_name: string | null;
+  avatar: string;
+}
+
+type Tab = 'blocks' | 'mutes';
+
+const TABS: { value: Tab; label: string; empty: string }[] = [
+  { value: 'blocks', label: 'Blocked', empty: "You haven't blocked anyone" },
+  { value: 'mutes', label: 'Muted', empty: "You haven't muted anyone" }
+];
+
+// Settings page listing blocked and muted accounts, with a way to undo each
+const BlockedAccounts: React.FC = () => {
+  const [tab, setTab] = useState<Tab>('blocks');
+  const [users, setUsers] = useState<ListedUser[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchUsers = async (before?: string) => {
+    setLoading(true);
+    try {
+      const token = localStorage.getItem('token');
+      const response = await axios.get(`/api/users/me/${tab}`, {
+        headers: { Authorization: `Bearer ${token}` },
+        params: { before }
+      });
+      setUsers(prev => before ? [...prev, ...response.data.users] : response.data.users);
+      setNextCursor(response.data.nextCursor);
+    } catch (err) {
+      console.error(`Failed to fetch ${tab}`, err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setUsers([]);
+    setNextCursor(null);
+    setError('');
+    fetchUsers();
+  }, [tab]);
+
+  const sentinelRef = useInfiniteScroll(
+    () => {
+      if (nextCursor) fetchUsers(nextCursor);
+    },
+    !!nextCursor && !loading
+  );
+
+  const handleUndo = async (user: ListedUser) => {
+    setError('');
+    try {
+      const token = localStorage.getItem('token');
+      await axios.delete(`/api/users/${user.id}/${tab === 'blocks' ? 'block' : 'mute'}`, {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      setUsers(prev => prev.filter(u => u.id !== user.id));
+    } catch (err) {
+      setError(getErrorMessage(err, tab === 'blocks' ? 'Failed to unblock' : 'Failed to unmute'));
+    }
+  };
+
+  const current = TABS.find(t => t.value === tab)!;
+
+  return (
+    <div className="max-w-xl mx-auto pt-20 pb-8 px-4">
+      <div className="bg-white rounded-lg shadow-md p-8">
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-2xl font-bold">Blocked and muted</h1>
+          <Link to="/accounts/edit" className="text-blue-500 font-semibold text-sm">
+            Back to settings
+          </Link>
+        </div>
+
+        <div className="flex border-b border-gray-200 mb-4">
+          {TABS.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => setTab(value)}
+              className={`flex-1 pb-2 font-semibold ${
+                tab === value ? 'border-b-2 border-black' : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+        {loading && users.length === 0 ? (
+          <p className="text-gray-500 text-sm">Loading...</p>
+        ) : users.length === 0 ? (
+          <p className="text-gray-500 text-sm">{current.empty}</p>
+        ) : (
+          <div className="space-y-3">
+            {users.map((user) => (
+              <div key={user.id} className="flex items-center gap-3">
+                <Link to={`/profile/${user.id}`} className="flex items-center gap-3 flex-1 min-w-0">
+                  <img
+                    src={user.avatar || '/default-avatar.png'}
+                    alt={user.username}
+                    className="w-10 h-10 rounded-full object-cover flex-shrink-0"
+                  />
+                  <div className="min-w-0">
+                    <p className="font-semibold truncate">{user.username}</p>
+                    {user.display_name && (
+                      <p className="text-sm text-gray-500 truncate">{user.display_name}</p>
+                    )}
+                  </div>
+                </Link>
+                <button
+                  onClick={() => handleUndo(user)}
+                  className="px-3 py-1 border border-gray-300 text-sm rounded font-semibold hover:bg-gray-100"
+                >
+                  {tab === 'blocks' ? 'Unblock' : 'Unmute'}
+                </button>
+              </div>
+            ))}
+            <div ref={sentinelRef} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BlockedAccounts;
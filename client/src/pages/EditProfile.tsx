@@ -0,0 +1,317 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import axios from 'axios';
+import { getErrorMessage, getFieldErrors } from '../utils/errors';
+import { updateStoredUser } from '../utils/auth';
+
+const MAX_BIO_LENGTH = 150;
+
+interface Account {
+  id: number;
+  username: string;
+  display_name: string | null;
+  email: string;
+  avatar: string;
+  bio: string | null;
+  is_private: boolean;
+}
+
+const FieldError: React.FC<{ message?: string }> = ({ message }) =>
+  message ? <p className="text-sm text-red-600 mt-1">{message}</p> : null;
+
+const EditProfile: React.FC = () => {
+  const [account, setAccount] = useState<Account | null>(null);
+  const [username, setUsername] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [bio, setBio] = useState('');
+  const [isPrivate, setIsPrivate] = useState(false);
+  const [profileErrors, setProfileErrors] = useState<Record<string, string>>({});
+  const [profileStatus, setProfileStatus] = useState('');
+  const [savingProfile, setSavingProfile] = useState(false);
+  const [avatarError, setAvatarError] = useState('');
+  const [uploadingAvatar, setUploadingAvatar] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [passwordErrors, setPasswordErrors] = useState<Record<string, string>>({});
+  const [passwordStatus, setPasswordStatus] = useState('');
+  const [savingPassword, setSavingPassword] = useState(false);
+
+  const authHeaders = () => ({ Authorization: `Bearer ${localStorage.getItem('token')}` });
+
+  // Keep the form, the page and the navbar's cached user in step
+  const applyAccount = (next: Account) => {
+    setAccount(next);
+    setUsername(next.username);
+    setDisplayName(next.display_name || '');
+    setBio(next.bio || '');
+    setIsPrivate(next.is_private);
+    updateStoredUser({
+      username: next.username,
+      display_name: next.display_name,
+      avatar: next.avatar,
+      bio: next.bio
+    });
+  };
+
+  useEffect(() => {
+    axios.get('/api/users/me', { headers: authHeaders() })
+      .then(response => applyAccount(response.data))
+      .catch(err => console.error('Failed to fetch account', err));
+  }, []);
+
+  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const formData = new FormData();
+    formData.append('avatar', file);
+    setUploadingAvatar(true);
+    setAvatarError('');
+    try {
+      const response = await axios.put('/api/users/me/avatar', formData, {
+        headers: { ...authHeaders(), 'Content-Type': 'multipart/form-data' }
+      });
+      applyAccount(response.data);
+    } catch (err) {
+      setAvatarError(getErrorMessage(err, 'Failed to upload photo'));
+    } finally {
+      setUploadingAvatar(false);
+    }
+  };
+
+  const handleAvatarRemove = async () => {
+    setAvatarError('');
+    try {
+      const response = await axios.delete('/api/users/me/avatar', { headers: authHeaders() });
+      applyAccount(response.data);
+    } catch (err) {
+      setAvatarError(getErrorMessage(err, 'Failed to remove photo'));
+    }
+  };
+
+  const handleProfileSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSavingProfile(true);
+    setProfileErrors({});
+    setProfileStatus('');
+    try {
+      const response = await axios.patch('/api/users/me', {
+        username,
+        display_name: displayName,
+        bio,
+        is_private: isPrivate
+      }, { headers: authHeaders() });
+      applyAccount(response.data);
+      setProfileStatus('Profile saved');
+    } catch (err) {
+      const fields = getFieldErrors(err);
+      setProfileErrors(fields);
+      if (Object.keys(fields).length === 0) {
+        setProfileStatus(getErrorMessage(err, 'Failed to save profile'));
+      }
+    } finally {
+      setSavingProfile(false);
+    }
+  };
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPasswordErrors({});
+    setPasswordStatus('');
+    if (newPassword !== confirmPassword) {
+      setPasswordErrors({ confirm_password: "Passwords don't match" });
+      return;
+    }
+
+    setSavingPassword(true);
+    try {
+      await axios.put('/api/users/me/password', {
+        current_password: currentPassword,
+        new_password: newPassword
+      }, { headers: authHeaders() });
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      setPasswordStatus('Password changed. Your other devices have been logged out.');
+    } catch (err) {
+      const fields = getFieldErrors(err);
+      setPasswordErrors(fields);
+      if (Object.keys(fields).length === 0) {
+        setPasswordStatus(getErrorMessage(err, 'Failed to change password'));
+      }
+    } finally {
+      setSavingPassword(false);
+    }
+  };
+
+  if (!account) return <div className="text-center mt-20">Loading...</div>;
+
+  const hasCustomAvatar = account.avatar.startsWith('/uploads/');
+
+  return (
+    <div className="max-w-xl mx-auto pt-20 pb-8 px-4">
+      <div className="bg-white rounded-lg shadow-md p-8 mb-8">
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-2xl font-bold">Edit profile</h1>
+          <div className="flex gap-4">
+            <Link to="/accounts/blocked" className="text-blue-500 font-semibold text-sm">
+              Blocked and muted
+            </Link>
+            <Link to={`/profile/${account.id}`} className="text-blue-500 font-semibold text-sm">
+              View profile
+            </Link>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-6 mb-6">
+          <img
+            src={account.avatar || '/default-avatar.png'}
+            alt={account.username}
+            className={`w-20 h-20 rounded-full object-cover ${uploadingAvatar ? 'opacity-50' : ''}`}
+          />
+          <div>
+            <p className="font-semibold mb-1">{account.username}</p>
+            <div className="flex gap-4 text-sm">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={uploadingAvatar}
+                className="text-blue-500 font-semibold disabled:opacity-50"
+              >
+                {uploadingAvatar ? 'Uploading...' : 'Change photo'}
+              </button>
+              {hasCustomAvatar && (
+                <button onClick={handleAvatarRemove} className="text-red-500 font-semibold">
+                  Remove photo
+                </button>
+              )}
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/jpeg,image/png,image/webp,image/gif"
+              className="hidden"
+              onChange={handleAvatarChange}
+            />
+            <FieldError message={avatarError} />
+          </div>
+        </div>
+
+        <form onSubmit={handleProfileSubmit}>
+          <label className="block text-sm font-semibold mb-1" htmlFor="display_name">Name</label>
+          <input
+            id="display_name"
+            type="text"
+            className="w-full p-3 border border-gray-300 rounded"
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            maxLength={50}
+          />
+          <FieldError message={profileErrors.display_name} />
+
+          <label className="block text-sm font-semibold mt-4 mb-1" htmlFor="username">Username</label>
+          <input
+            id="username"
+            type="text"
+            className="w-full p-3 border border-gray-300 rounded"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            required
+          />
+          <FieldError message={profileErrors.username} />
+
+          <label className="block text-sm font-semibold mt-4 mb-1" htmlFor="bio">Bio</label>
+          <textarea
+            id="bio"
+            className="w-full p-3 border border-gray-300 rounded resize-none"
+            rows={3}
+            value={bio}
+            onChange={(e) => setBio(e.target.value)}
+            maxLength={MAX_BIO_LENGTH}
+          />
+          <div className="flex justify-between">
+            <FieldError message={profileErrors.bio} />
+            <span className="text-xs text-gray-400 ml-auto">{bio.length}/{MAX_BIO_LENGTH}</span>
+          </div>
+
+          <label className="flex items-start gap-3 mt-4">
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={isPrivate}
+              onChange={(e) => setIsPrivate(e.target.checked)}
+            />
+            <span>
+              <span className="block text-sm font-semibold">Private account</span>
+              <span className="block text-xs text-gray-500">
+                Only followers you approve can see your posts and who you follow.
+                Switching back to public approves any pending requests.
+              </span>
+            </span>
+          </label>
+
+          <div className="flex items-center gap-4 mt-4">
+            <button
+              type="submit"
+              disabled={savingProfile}
+              className="bg-blue-500 text-white px-6 py-2 rounded font-semibold hover:bg-blue-600 disabled:opacity-50"
+            >
+              Save
+            </button>
+            {profileStatus && <span className="text-sm text-gray-600">{profileStatus}</span>}
+          </div>
+        </form>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-8">
+        <h2 className="text-xl font-bold mb-4">Change password</h2>
+        <form onSubmit={handlePasswordSubmit}>
+          <input
+            type="password"
+            placeholder="Current password"
+            className="w-full p-3 border border-gray-300 rounded"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+            required
+          />
+          <FieldError message={passwordErrors.current_password} />
+          <input
+            type="password"
+            placeholder="New password"
+            className="w-full p-3 border border-gray-300 rounded mt-3"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            minLength={6}
+            required
+          />
+          <FieldError message={passwordErrors.new_password} />
+          <input
+            type="password"
+            placeholder="Confirm new password"
+            className="w-full p-3 border border-gray-300 rounded mt-3"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            required
+          />
+          <FieldError message={passwordErrors.confirm_password} />
+
+          <div className="flex items-center gap-4 mt-4">
+            <button
+              type="submit"
+              disabled={savingPassword}
+              className="bg-blue-500 text-white px-6 py-2 rounded font-semibold hover:bg-blue-600 disabled:opacity-50"
+            >
+              Change Password
+            </button>
+            {passwordStatus && <span className="text-sm text-gray-600">{passwordStatus}</span>}
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default EditProfile;
@@ -2,6 +2,11 @@ import React, { useState, useEffect } from 'react';
 import axios from 'axios';
 import Post from '../components/Post';
 import CreatePost from '../components/CreatePost';
+import StoryTray from '../components/StoryTray';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
+import { useLiveEvent } from '../hooks/useLiveEvent';
+import { ImageVariant } from '../utils/images';
+import { MediaItem } from '../components/MediaCarousel';
 
 interface PostType {
   id: number;
@@ -9,6 +14,8 @@ interface PostType {
   username: string;
   avatar: string;
   image_url: string;
+  variants?: ImageVariant[];
+  media?: MediaItem[];
   caption: string;
   likes_count: number;
   created_at: string;
@@ -16,19 +23,50 @@ interface PostType {
 
 const Feed: React.FC = () => {
   const [posts, setPosts] = useState<PostType[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
   const [showCreatePost, setShowCreatePost] = useState(false);
+  const [newPostsCount, setNewPostsCount] = useState(0);
 
-  const fetchPosts = async () => {
+  const fetchPosts = async (before?: string) => {
+    setLoading(true);
     try {
-      const response = await axios.get('/api/posts');
-      setPosts(response.data);
+      const token = localStorage.getItem('token');
+      const response = await axios.get('/api/posts/feed', {
+        headers: { Authorization: `Bearer ${token}` },
+        params: { before }
+      });
+      setPosts(prev => before ? [...prev, ...response.data.posts] : response.data.posts);
+      setNextCursor(response.data.nextCursor);
+      if (!before) {
+        setNewPostsCount(0);
+      }
     } catch (err) {
       console.error('Failed to fetch posts', err);
+    } finally {
+      setLoading(false);
     }
   };
 
+  const sentinelRef = useInfiniteScroll(
+    () => {
+      if (nextCursor) fetchPosts(nextCursor);
+    },
+    !!nextCursor && !loading
+  );
+
   const handlePostDeleted = (postId: number) => {
-    setPosts(posts.filter(post => post.id !== postId));
+    setPosts(prev => prev.filter(post => post.id !== postId));
+  };
+
+  // New posts from followed accounts are announced rather than inserted, so
+  // the feed doesn't jump while someone is reading it
+  useLiveEvent('post:created', () => setNewPostsCount(count => count + 1));
+  useLiveEvent<{ post_id: number }>('post:deleted', (data) => handlePostDeleted(data.post_id));
+
+  const handleShowNewPosts = () => {
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+    fetchPosts();
   };
 
   useEffect(() => {
@@ -49,15 +87,35 @@ const Feed: React.FC = () => {
       {showCreatePost && (
         <CreatePost 
           onClose={() => setShowCreatePost(false)} 
-          onPostCreated={fetchPosts}
+          onPostCreated={() => fetchPosts()}
         />
       )}
 
+      <StoryTray />
+
+      {newPostsCount > 0 && (
+        <button
+          onClick={handleShowNewPosts}
+          className="fixed top-20 left-1/2 -translate-x-1/2 bg-blue-500 text-white text-sm font-semibold px-4 py-2 rounded-full shadow-lg hover:bg-blue-600 z-40"
+        >
+          {newPostsCount} new {newPostsCount === 1 ? 'post' : 'posts'}
+        </button>
+      )}
+
+      {posts.length === 0 && !loading && (
+        <p className="text-center text-gray-500 mt-8">
+          Your feed is empty. Follow people to see their posts here.
+        </p>
+      )}
+
       <div className="space-y-8">
         {posts.map(post => (
           <Post key={post.id} post={post} onDelete={handlePostDeleted} />
         ))}
       </div>
+
+      <div ref={sentinelRef} />
+      {loading && <p className="text-center text-gray-500 mt-8">Loading...</p>}
     </div>
   );
 };
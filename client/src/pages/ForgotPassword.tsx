@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import axios from 'axios';
+import { Lock } from 'lucide-react';
+import { getErrorMessage } from '../utils/errors';
+
+const ForgotPassword: React.FC = () => {
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState('');
+  const [sent, setSent] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError('');
+    try {
+      await axios.post('/api/auth/forgot', { email });
+      setSent(true);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Something went wrong. Please try again.'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <div className="bg-white p-8 rounded-lg shadow-md w-96">
+        <div className="flex justify-center mb-6">
+          <Lock size={48} className="text-pink-600" />
+        </div>
+        <h1 className="text-2xl font-bold text-center mb-2">Trouble logging in?</h1>
+
+        {sent ? (
+          <p className="text-gray-600 text-center mb-4">
+            If an account exists for <span className="font-semibold">{email}</span>, we've sent a link to reset
+            your password. It expires in an hour.
+          </p>
+        ) : (
+          <>
+            <p className="text-gray-600 text-center mb-6">
+              Enter your email and we'll send you a link to get back into your account.
+            </p>
+
+            {error && <div className="bg-red-100 text-red-700 p-3 rounded mb-4">{error}</div>}
+
+            <form onSubmit={handleSubmit}>
+              <input
+                type="email"
+                placeholder="Email"
+                className="w-full p-3 border border-gray-300 rounded mb-4"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+              <button
+                type="submit"
+                disabled={submitting}
+                className="w-full bg-blue-500 text-white p-3 rounded font-semibold hover:bg-blue-600 disabled:opacity-50"
+              >
+                Send Reset Link
+              </button>
+            </form>
+          </>
+        )}
+
+        <div className="text-center mt-4">
+          <Link to="/login" className="text-blue-500 font-semibold">Back to log in</Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPassword;
@@ -0,0 +1,96 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import axios from 'axios';
+import ConversationView, { ConversationType } from '../components/ConversationView';
+import { useLiveEvent } from '../hooks/useLiveEvent';
+
+const Inbox: React.FC = () => {
+  const { conversationId } = useParams();
+  const [conversations, setConversations] = useState<ConversationType[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const currentUserId = parseInt(localStorage.getItem('userId') || '0');
+
+  const fetchConversations = async () => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await axios.get('/api/conversations', {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      setConversations(response.data);
+    } catch (err) {
+      console.error('Failed to fetch conversations', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchConversations();
+  }, []);
+
+  useLiveEvent('message:created', fetchConversations);
+
+  const describeLastMessage = (conversation: ConversationType) => {
+    const message = conversation.last_message;
+    if (!message) return '';
+    const text = message.content || 'Shared a post';
+    return message.sender_id === currentUserId ? `You: ${text}` : text;
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto pt-20 pb-8 px-4">
+      <div className="bg-white rounded-lg shadow-md flex h-[calc(100vh-8rem)] overflow-hidden">
+        <div className="w-72 border-r border-gray-200 flex-shrink-0 overflow-y-auto">
+          <h2 className="p-4 text-xl font-bold border-b border-gray-200">Messages</h2>
+          {loading ? (
+            <p className="p-4 text-gray-500 text-sm">Loading...</p>
+          ) : conversations.length === 0 ? (
+            <p className="p-4 text-gray-500 text-sm">
+              No messages yet. Use the Message button on a profile to start a conversation.
+            </p>
+          ) : (
+            conversations.map((conversation) => (
+              <Link
+                key={conversation.id}
+                to={`/inbox/${conversation.id}`}
+                className={`flex items-center gap-3 px-4 py-3 hover:bg-gray-50 ${
+                  Number(conversationId) === conversation.id ? 'bg-gray-100' : ''
+                }`}
+              >
+                <img
+                  src={conversation.user.avatar || '/default-avatar.png'}
+                  alt={conversation.user.username}
+                  className="w-12 h-12 rounded-full object-cover flex-shrink-0"
+                />
+                <div className="min-w-0 flex-1">
+                  <div className="font-semibold truncate">{conversation.user.username}</div>
+                  <div
+                    className={`text-sm truncate ${
+                      conversation.unread_count > 0 ? 'font-semibold text-gray-900' : 'text-gray-500'
+                    }`}
+                  >
+                    {describeLastMessage(conversation)}
+                  </div>
+                </div>
+                {conversation.unread_count > 0 && (
+                  <span className="w-2 h-2 bg-blue-500 rounded-full flex-shrink-0" />
+                )}
+              </Link>
+            ))
+          )}
+        </div>
+
+        {conversationId ? (
+          <ConversationView conversationId={Number(conversationId)} onActivity={fetchConversations} />
+        ) : (
+          <div className="flex-1 flex items-center justify-center text-gray-500">
+            Select a conversation
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Inbox;
@@ -2,6 +2,8 @@ import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
 import axios from 'axios';
 import { Camera } from 'lucide-react';
+import { saveSession } from '../utils/auth';
+import { getErrorMessage, getFieldErrors } from '../utils/errors';
 
 interface LoginProps {
   setIsAuthenticated: (value: boolean) => void;
@@ -11,17 +13,22 @@ const Login: React.FC<LoginProps> = ({ setIsAuthenticated }) => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    setError('');
+    setFieldErrors({});
     try {
       const response = await axios.post('/api/auth/login', { email, password });
-      localStorage.setItem('token', response.data.token);
-      localStorage.setItem('user', JSON.stringify(response.data.user));
-      localStorage.setItem('userId', response.data.user.id.toString());
+      saveSession(response.data);
       setIsAuthenticated(true);
     } catch (err) {
-      setError('Invalid credentials');
+      const fields = getFieldErrors(err);
+      setFieldErrors(fields);
+      if (Object.keys(fields).length === 0) {
+        setError(getErrorMessage(err, 'Failed to log in. Please try again.'));
+      }
     }
   };
 
@@ -44,14 +51,19 @@ const Login: React.FC<LoginProps> = ({ setIsAuthenticated }) => {
             onChange={(e) => setEmail(e.target.value)}
             required
           />
+          {fieldErrors.email && <p className="text-sm text-red-600 -mt-2 mb-3">{fieldErrors.email}</p>}
           <input
             type="password"
             placeholder="Password"
-            className="w-full p-3 border border-gray-300 rounded mb-4"
+            className="w-full p-3 border border-gray-300 rounded mb-2"
             value={password}
             onChange={(e) => setPassword(e.target.value)}
             required
           />
+          {fieldErrors.password && <p className="text-sm text-red-600 mb-2">{fieldErrors.password}</p>}
+          <div className="text-right mb-4">
+            <Link to="/forgot-password" className="text-sm text-blue-500">Forgot password?</Link>
+          </div>
           <button 
             type="submit"
             className="w-full bg-blue-500 text-white p-3 rounded font-semibold hover:bg-blue-600"
@@ -1,57 +1,297 @@
 import React, { useState, useEffect } from 'react';
-import { useParams } from 'react-router-dom';
+import { useParams, useNavigate, Link } from 'react-router-dom';
 import axios from 'axios';
+import { Layers, Lock } from 'lucide-react';
+import FollowList from '../components/FollowList';
+import ReportModal from '../components/ReportModal';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
+import { buildSrcSet, findVariant } from '../utils/images';
 
 const Profile: React.FC = () => {
   const { userId } = useParams();
+  const navigate = useNavigate();
   const [user, setUser] = useState<any>(null);
+  const [posts, setPosts] = useState<any[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingPosts, setLoadingPosts] = useState(false);
+  const [followList, setFollowList] = useState<'followers' | 'following' | null>(null);
+  const [showReport, setShowReport] = useState(false);
+
+  const currentUserId = parseInt(localStorage.getItem('userId') || '0');
+  const isOwnProfile = currentUserId === Number(userId);
 
   useEffect(() => {
     const fetchUser = async () => {
       try {
-        const response = await axios.get(`/api/users/${userId}`);
+        const token = localStorage.getItem('token');
+        const response = await axios.get(`/api/users/${userId}`, {
+          headers: { Authorization: `Bearer ${token}` }
+        });
         setUser(response.data);
+        // Private accounts only show their posts to approved followers
+        if (response.data.can_view) {
+          fetchPosts();
+        }
       } catch (err) {
         console.error('Failed to fetch user', err);
       }
     };
+    setPosts([]);
+    setNextCursor(null);
     fetchUser();
+    setFollowList(null);
   }, [userId]);
 
+  const fetchPosts = async (before?: string) => {
+    setLoadingPosts(true);
+    try {
+      const token = localStorage.getItem('token');
+      const response = await axios.get(`/api/users/${userId}/posts`, {
+        params: { before },
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      setPosts(prev => before ? [...prev, ...response.data.posts] : response.data.posts);
+      setNextCursor(response.data.nextCursor);
+    } catch (err) {
+      console.error('Failed to fetch posts', err);
+    } finally {
+      setLoadingPosts(false);
+    }
+  };
+
+  const sentinelRef = useInfiniteScroll(
+    () => {
+      if (nextCursor) fetchPosts(nextCursor);
+    },
+    !!nextCursor && !loadingPosts
+  );
+
+  const handleFollowToggle = async () => {
+    try {
+      const token = localStorage.getItem('token');
+      const config = { headers: { Authorization: `Bearer ${token}` } };
+      // Unfollowing and withdrawing a pending request are the same call
+      if (user.is_following || user.follow_requested) {
+        await axios.delete(`/api/users/${userId}/follow`, config);
+        setUser({
+          ...user,
+          is_following: false,
+          follow_requested: false,
+          can_view: !user.is_private,
+          followers_count: user.followers_count - (user.is_following ? 1 : 0)
+        });
+        if (user.is_private) {
+          setPosts([]);
+          setNextCursor(null);
+        }
+      } else {
+        const response = await axios.post(`/api/users/${userId}/follow`, {}, config);
+        setUser({
+          ...user,
+          is_following: response.data.following,
+          follow_requested: response.data.requested,
+          followers_count: user.followers_count + (response.data.following ? 1 : 0)
+        });
+      }
+    } catch (err) {
+      console.error('Failed to update follow', err);
+    }
+  };
+
+  const handleMuteToggle = async () => {
+    try {
+      const token = localStorage.getItem('token');
+      const config = { headers: { Authorization: `Bearer ${token}` } };
+      if (user.is_muted) {
+        await axios.delete(`/api/users/${userId}/mute`, config);
+      } else {
+        await axios.post(`/api/users/${userId}/mute`, {}, config);
+      }
+      setUser({ ...user, is_muted: !user.is_muted });
+    } catch (err) {
+      console.error('Failed to update mute', err);
+    }
+  };
+
+  // Blocking also ends any follow between the two accounts, so the profile
+  // is reloaded afterwards
+  const handleBlockToggle = async () => {
+    if (!user.is_blocked && !window.confirm(`Block ${user.username}? They won't be able to find your profile, posts or comments.`)) {
+      return;
+    }
+    try {
+      const token = localStorage.getItem('token');
+      const config = { headers: { Authorization: `Bearer ${token}` } };
+      if (user.is_blocked) {
+        await axios.delete(`/api/users/${userId}/block`, config);
+      } else {
+        await axios.post(`/api/users/${userId}/block`, {}, config);
+      }
+      const response = await axios.get(`/api/users/${userId}`, config);
+      setUser(response.data);
+      setPosts([]);
+      setNextCursor(null);
+      if (response.data.can_view) {
+        fetchPosts();
+      }
+    } catch (err) {
+      console.error('Failed to update block', err);
+    }
+  };
+
+  const handleMessage = async () => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await axios.post('/api/conversations', { user_id: user.id }, {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      navigate(`/inbox/${response.data.id}`);
+    } catch (err) {
+      console.error('Failed to start conversation', err);
+    }
+  };
+
   if (!user) return <div className="text-center mt-20">Loading...</div>;
 
   return (
     <div className="max-w-4xl mx-auto pt-20 pb-8 px-4">
       <div className="bg-white rounded-lg shadow-md p-8 mb-8">
         <div className="flex items-center gap-8">
-          <img 
-            src={user.avatar || '/default-avatar.png'} 
+          <img
+            src={user.avatar || '/default-avatar.png'}
             alt={user.username}
             className="w-32 h-32 rounded-full object-cover"
           />
           <div>
-            <h1 className="text-3xl font-bold mb-2">{user.username}</h1>
-            <p className="text-gray-600 mb-4">{user.bio || 'No bio yet'}</p>
+            <div className="flex items-center gap-4 mb-2">
+              <h1 className="text-3xl font-bold">{user.username}</h1>
+              {isOwnProfile && (
+                <Link
+                  to="/accounts/edit"
+                  className="px-4 py-1 border border-gray-300 rounded font-semibold hover:bg-gray-100"
+                >
+                  Edit profile
+                </Link>
+              )}
+              {!isOwnProfile && !user.is_blocked && (
+                <button
+                  onClick={handleFollowToggle}
+                  className={user.is_following || user.follow_requested
+                    ? 'px-4 py-1 border border-gray-300 rounded font-semibold hover:bg-gray-100'
+                    : 'px-4 py-1 bg-blue-500 text-white rounded font-semibold hover:bg-blue-600'}
+                >
+                  {user.is_following
+                    ? 'Following'
+                    : user.follow_requested
+                      ? 'Requested'
+                      : user.is_private ? 'Request to follow' : 'Follow'}
+                </button>
+              )}
+              {!isOwnProfile && !user.is_blocked && (
+                <button
+                  onClick={handleMessage}
+                  className="px-4 py-1 border border-gray-300 rounded font-semibold hover:bg-gray-100"
+                >
+                  Message
+                </button>
+              )}
+              {!isOwnProfile && !user.is_blocked && (
+                <button
+                  onClick={handleMuteToggle}
+                  className="px-4 py-1 border border-gray-300 rounded font-semibold hover:bg-gray-100"
+                >
+                  {user.is_muted ? 'Unmute' : 'Mute'}
+                </button>
+              )}
+              {!isOwnProfile && (
+                <button
+                  onClick={handleBlockToggle}
+                  className={user.is_blocked
+                    ? 'px-4 py-1 bg-blue-500 text-white rounded font-semibold hover:bg-blue-600'
+                    : 'px-4 py-1 border border-gray-300 rounded font-semibold text-red-500 hover:bg-gray-100'}
+                >
+                  {user.is_blocked ? 'Unblock' : 'Block'}
+                </button>
+              )}
+              {!isOwnProfile && (
+                <button
+                  onClick={() => setShowReport(true)}
+                  className="px-4 py-1 border border-gray-300 rounded font-semibold hover:bg-gray-100"
+                >
+                  Report
+                </button>
+              )}
+            </div>
+            {user.display_name && <p className="font-semibold">{user.display_name}</p>}
+            <p className="text-gray-600 mb-4 whitespace-pre-line">{user.bio || 'No bio yet'}</p>
             <div className="flex gap-8">
-              <div><span className="font-bold">{user.posts?.length || 0}</span> posts</div>
+              <div><span className="font-bold">{user.posts_count || 0}</span> posts</div>
+              <button
+                onClick={() => setFollowList('followers')}
+                disabled={!user.can_view}
+                className="hover:text-gray-600 disabled:hover:text-current"
+              >
+                <span className="font-bold">{user.followers_count || 0}</span> followers
+              </button>
+              <button
+                onClick={() => setFollowList('following')}
+                disabled={!user.can_view}
+                className="hover:text-gray-600 disabled:hover:text-current"
+              >
+                <span className="font-bold">{user.following_count || 0}</span> following
+              </button>
             </div>
           </div>
         </div>
       </div>
 
+      {showReport && (
+        <ReportModal targetType="user" targetId={user.id} onClose={() => setShowReport(false)} />
+      )}
+
+      {followList && (
+        <FollowList
+          userId={user.id}
+          type={followList}
+          onClose={() => setFollowList(null)}
+        />
+      )}
+
+      {user.is_blocked ? (
+        <div className="bg-white rounded-lg shadow-md p-8 text-center">
+          <p className="font-semibold">You blocked this account</p>
+          <p className="text-gray-500 text-sm">Unblock them to see their posts.</p>
+        </div>
+      ) : !user.can_view && (
+        <div className="bg-white rounded-lg shadow-md p-8 text-center">
+          <Lock size={32} className="mx-auto mb-2 text-gray-500" />
+          <p className="font-semibold">This account is private</p>
+          <p className="text-gray-500 text-sm">Follow this account to see their photos.</p>
+        </div>
+      )}
+
       <div className="grid grid-cols-3 gap-4">
-        {user.posts?.map((post: any) => (
-          <div key={post.id} className="aspect-square">
-            <img 
-              src={post.image_url} 
+        {posts.map((post: any) => (
+          <div key={post.id} className="aspect-square relative">
+            <img
+              src={findVariant(post.variants, 'thumb')?.url || post.image_url}
+              srcSet={buildSrcSet(post.variants, true)}
+              sizes="(max-width: 896px) 33vw, 290px"
               alt={post.caption}
+              loading="lazy"
               className="w-full h-full object-cover rounded-lg"
             />
+            {post.media?.length > 1 && (
+              <Layers size={20} className="absolute top-2 right-2 text-white drop-shadow" />
+            )}
           </div>
         ))}
       </div>
+
+      <div ref={sentinelRef} />
+      {loadingPosts && <p className="text-center text-gray-500 mt-8">Loading...</p>}
     </div>
   );
 };
 
-export default Profile;
\ No newline at end of file
+export default Profile;
@@ -2,6 +2,8 @@ import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
 import axios from 'axios';
 import { Camera } from 'lucide-react';
+import { saveSession } from '../utils/auth';
+import { getErrorMessage, getFieldErrors } from '../utils/errors';
 
 interface RegisterProps {
   setIsAuthenticated: (value: boolean) => void;
@@ -12,17 +14,22 @@ const Register: React.FC<RegisterProps> = ({ setIsAuthenticated }) => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    setError('');
+    setFieldErrors({});
     try {
       const response = await axios.post('/api/auth/register', { username, email, password });
-      localStorage.setItem('token', response.data.token);
-      localStorage.setItem('user', JSON.stringify(response.data.user));
-      localStorage.setItem('userId', response.data.user.id.toString());
+      saveSession(response.data);
       setIsAuthenticated(true);
     } catch (err) {
-      setError('Registration failed. Username or email may already exist.');
+      const fields = getFieldErrors(err);
+      setFieldErrors(fields);
+      if (Object.keys(fields).length === 0) {
+        setError(getErrorMessage(err, 'Registration failed. Please try again.'));
+      }
     }
   };
 
@@ -45,6 +52,7 @@ const Register: React.FC<RegisterProps> = ({ setIsAuthenticated }) => {
             onChange={(e) => setUsername(e.target.value)}
             required
           />
+          {fieldErrors.username && <p className="text-sm text-red-600 -mt-2 mb-3">{fieldErrors.username}</p>}
           <input
             type="email"
             placeholder="Email"
@@ -53,6 +61,7 @@ const Register: React.FC<RegisterProps> = ({ setIsAuthenticated }) => {
             onChange={(e) => setEmail(e.target.value)}
             required
           />
+          {fieldErrors.email && <p className="text-sm text-red-600 -mt-2 mb-3">{fieldErrors.email}</p>}
           <input
             type="password"
             placeholder="Password"
@@ -61,6 +70,7 @@ const Register: React.FC<RegisterProps> = ({ setIsAuthenticated }) => {
             onChange={(e) => setPassword(e.target.value)}
             required
           />
+          {fieldErrors.password && <p className="text-sm text-red-600 -mt-3 mb-4">{fieldErrors.password}</p>}
           <button 
             type="submit"
             className="w-full bg-blue-500 text-white p-3 rounded font-semibold hover:bg-blue-600"
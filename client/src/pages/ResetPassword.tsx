@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import axios from 'axios';
+import { Lock } from 'lucide-react';
+import { getErrorMessage } from '../utils/errors';
+
+const ResetPassword: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [done, setDone] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      setError("Passwords don't match");
+      return;
+    }
+
+    setSubmitting(true);
+    setError('');
+    try {
+      await axios.post('/api/auth/reset', { token, password });
+      setDone(true);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to reset password'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <div className="bg-white p-8 rounded-lg shadow-md w-96">
+        <div className="flex justify-center mb-6">
+          <Lock size={48} className="text-pink-600" />
+        </div>
+        <h1 className="text-2xl font-bold text-center mb-6">Choose a new password</h1>
+
+        {!token ? (
+          <p className="text-gray-600 text-center">
+            This reset link is incomplete. <Link to="/forgot-password" className="text-blue-500 font-semibold">Request a new one</Link>.
+          </p>
+        ) : done ? (
+          <p className="text-gray-600 text-center">
+            Your password has been changed and you've been logged out everywhere.{' '}
+            <Link to="/login" className="text-blue-500 font-semibold">Log in</Link> with your new password.
+          </p>
+        ) : (
+          <>
+            {error && <div className="bg-red-100 text-red-700 p-3 rounded mb-4">{error}</div>}
+
+            <form onSubmit={handleSubmit}>
+              <input
+                type="password"
+                placeholder="New password"
+                className="w-full p-3 border border-gray-300 rounded mb-3"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                minLength={6}
+                required
+              />
+              <input
+                type="password"
+                placeholder="Confirm new password"
+                className="w-full p-3 border border-gray-300 rounded mb-4"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+              />
+              <button
+                type="submit"
+                disabled={submitting}
+                className="w-full bg-blue-500 text-white p-3 rounded font-semibold hover:bg-blue-600 disabled:opacity-50"
+              >
+                Reset Password
+              </button>
+            </form>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -0,0 +1,80 @@
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import axios from 'axios';
+import { Layers } from 'lucide-react';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
+import { buildSrcSet, findVariant } from '../utils/images';
+
+const Tag: React.FC = () => {
+  const { tag } = useParams();
+  const [postsCount, setPostsCount] = useState(0);
+  const [posts, setPosts] = useState<any[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const fetchPosts = async (before?: string) => {
+    setLoading(true);
+    try {
+      const token = localStorage.getItem('token');
+      const response = await axios.get(`/api/tags/${encodeURIComponent(tag || '')}`, {
+        headers: { Authorization: `Bearer ${token}` },
+        params: { before }
+      });
+      setPostsCount(response.data.posts_count);
+      setPosts(prev => before ? [...prev, ...response.data.posts] : response.data.posts);
+      setNextCursor(response.data.nextCursor);
+    } catch (err) {
+      console.error('Failed to fetch tag', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setPosts([]);
+    fetchPosts();
+  }, [tag]);
+
+  const sentinelRef = useInfiniteScroll(
+    () => {
+      if (nextCursor) fetchPosts(nextCursor);
+    },
+    !!nextCursor && !loading
+  );
+
+  return (
+    <div className="max-w-4xl mx-auto pt-20 pb-8 px-4">
+      <div className="bg-white rounded-lg shadow-md p-8 mb-8">
+        <h1 className="text-3xl font-bold mb-2">#{tag}</h1>
+        <div><span className="font-bold">{postsCount}</span> posts</div>
+      </div>
+
+      {!loading && posts.length === 0 && (
+        <p className="text-center text-gray-500">No posts with this hashtag yet</p>
+      )}
+
+      <div className="grid grid-cols-3 gap-4">
+        {posts.map((post: any) => (
+          <div key={post.id} className="aspect-square relative">
+            <img
+              src={findVariant(post.variants, 'thumb')?.url || post.image_url}
+              srcSet={buildSrcSet(post.variants, true)}
+              sizes="(max-width: 896px) 33vw, 290px"
+              alt={post.caption}
+              loading="lazy"
+              className="w-full h-full object-cover rounded-lg"
+            />
+            {post.media?.length > 1 && (
+              <Layers size={20} className="absolute top-2 right-2 text-white drop-shadow" />
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div ref={sentinelRef} />
+      {loading && <p className="text-center text-gray-500 mt-8">Loading...</p>}
+    </div>
+  );
+};
+
+export default Tag;
@@ -0,0 +1,72 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import axios from 'axios';
+import { MailCheck } from 'lucide-react';
+import { getErrorMessage } from '../utils/errors';
+import { updateStoredUser } from '../utils/auth';
+
+interface VerifyEmailProps {
+  isAuthenticated: boolean;
+}
+
+const VerifyEmail: React.FC<VerifyEmailProps> = ({ isAuthenticated }) => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying');
+  const [error, setError] = useState('');
+  const requested = useRef(false);
+
+  useEffect(() => {
+    // Tokens are single use, so don't send it twice in StrictMode
+    if (requested.current) return;
+    requested.current = true;
+
+    if (!token) {
+      setStatus('failed');
+      setError('This verification link is incomplete.');
+      return;
+    }
+
+    axios.post('/api/auth/verify', { token })
+      .then(() => {
+        setStatus('verified');
+        if (localStorage.getItem('user')) {
+          updateStoredUser({ email_verified: true });
+        }
+      })
+      .catch((err) => {
+        setStatus('failed');
+        setError(getErrorMessage(err, 'Failed to verify email'));
+      });
+  }, [token]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <div className="bg-white p-8 rounded-lg shadow-md w-96 text-center">
+        <div className="flex justify-center mb-6">
+          <MailCheck size={48} className="text-pink-600" />
+        </div>
+        {status === 'verifying' && <p className="text-gray-600">Verifying your email...</p>}
+        {status === 'verified' && (
+          <>
+            <h1 className="text-2xl font-bold mb-2">Email verified</h1>
+            <p className="text-gray-600">Thanks for confirming your email address.</p>
+          </>
+        )}
+        {status === 'failed' && (
+          <>
+            <h1 className="text-2xl font-bold mb-2">Couldn't verify email</h1>
+            <p className="text-gray-600">{error}</p>
+          </>
+        )}
+        {status !== 'verifying' && (
+          <Link to={isAuthenticated ? '/' : '/login'} className="inline-block mt-4 text-blue-500 font-semibold">
+            {isAuthenticated ? 'Go to feed' : 'Log in'}
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmail;
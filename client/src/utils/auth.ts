@@ -0,0 +1,98 @@
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+
+interface SessionResponse {
+  token: string;
+  refreshToken: string;
+  user?: { id: number };
+}
+
+// Fired when the session can no longer be refreshed; App listens for it
+export const LOGOUT_EVENT = 'auth:logout';
+
+export const saveSession = ({ token, refreshToken, user }: SessionResponse) => {
+  localStorage.setItem('token', token);
+  localStorage.setItem('refreshToken', refreshToken);
+  if (user) {
+    localStorage.setItem('user', JSON.stringify(user));
+    localStorage.setItem('userId', user.id.toString());
+  }
+};
+
+// Fired when the cached user changes, e.g. after editing the profile
+export const USER_UPDATED_EVENT = 'auth:user-updated';
+
+export const getStoredUser = () => JSON.parse(localStorage.getItem('user') || '{}');
+
+// Merge fresh account details into the cached user and tell listeners
+export const updateStoredUser = (changes: Record<string, unknown>) => {
+  localStorage.setItem('user', JSON.stringify({ ...getStoredUser(), ...changes }));
+  window.dispatchEvent(new Event(USER_UPDATED_EVENT));
+};
+
+export const clearSession = () => {
+  localStorage.removeItem('token');
+  localStorage.removeItem('refreshToken');
+  localStorage.removeItem('user');
+  localStorage.removeItem('userId');
+};
+
+// Concurrent 401s share one refresh request, since each refresh token can
+// only be used once
+let refreshing: Promise<string> | null = null;
+
+export const refreshAccessToken = (): Promise<string> => {
+  if (!refreshing) {
+    const refreshToken = localStorage.getItem('refreshToken');
+    refreshing = axios
+      .post('/api/auth/refresh', { refreshToken }, { skipAuthRefresh: true })
+      .then((response) => {
+        saveSession(response.data);
+        return response.data.token as string;
+      })
+      .catch((err) => {
+        clearSession();
+        window.dispatchEvent(new Event(LOGOUT_EVENT));
+        throw err;
+      })
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+  return refreshing;
+};
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Set on requests that must not trigger a token refresh on 401
+    skipAuthRefresh?: boolean;
+  }
+}
+
+interface RetriableConfig extends InternalAxiosRequestConfig {
+  retriedAfterRefresh?: boolean;
+}
+
+// When an access token expires, refresh it and replay the request once.
+// Installed on the default axios instance so every call benefits.
+export const setupAuthInterceptor = () => {
+  axios.interceptors.response.use(
+    (response) => response,
+    async (error: AxiosError) => {
+      const config = error.config as RetriableConfig | undefined;
+      if (
+        error.response?.status !== 401 ||
+        !config ||
+        config.skipAuthRefresh ||
+        config.retriedAfterRefresh ||
+        !localStorage.getItem('refreshToken')
+      ) {
+        throw error;
+      }
+
+      const token = await refreshAccessToken();
+      config.retriedAfterRefresh = true;
+      config.headers.Authorization = `Bearer ${token}`;
+      return axios(config);
+    }
+  );
+};
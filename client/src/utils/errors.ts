@@ -0,0 +1,20 @@
+import axios from 'axios';
+
+// The API reports every failure as { error: { code, message, fields? } }
+export interface ApiErrorBody {
+  error: {
+    code: string;
+    message: string;
+    fields?: Record<string, string>;
+  };
+}
+
+const getApiError = (err: unknown) =>
+  axios.isAxiosError<ApiErrorBody>(err) ? err.response?.data?.error : undefined;
+
+export const getErrorMessage = (err: unknown, fallback: string): string =>
+  getApiError(err)?.message || fallback;
+
+// Messages keyed by field name, for showing next to form inputs
+export const getFieldErrors = (err: unknown): Record<string, string> =>
+  getApiError(err)?.fields || {};
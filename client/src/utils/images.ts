@@ -0,0 +1,18 @@
+export interface ImageVariant {
+  name: string;
+  url: string;
+  width: number;
+  height: number;
+}
+
+// Builds a srcset from the processed variants of a post. The square grid
+// thumbnail is excluded unless asked for, since its crop differs from the
+// other sizes.
+export const buildSrcSet = (variants: ImageVariant[] | undefined, includeThumb = false) =>
+  (variants || [])
+    .filter(v => includeThumb || v.name !== 'thumb')
+    .map(v => `${v.url} ${v.width}w`)
+    .join(', ') || undefined;
+
+export const findVariant = (variants: ImageVariant[] | undefined, name: string) =>
+  variants?.find(v => v.name === name);
@@ -0,0 +1,12 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  // Each test file gets its own in-memory database
+  setupFiles: ['<rootDir>/tests/setup.ts'],
+  transform: {
+    // Tests live outside src/, which tsconfig.json compiles to dist/
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { rootDir: '.' } }]
+  }
+};
@@ -0,0 +1,348 @@
+-- The schema as it stood when migrations were introduced. Tables are created
+-- IF NOT EXISTS so databases from before then can adopt this migration.
+
+-- migrate:up
+
+-- Users table
+CREATE TABLE IF NOT EXISTS users (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  username TEXT UNIQUE NOT NULL,
+  email TEXT UNIQUE NOT NULL,
+  password TEXT NOT NULL,
+  avatar TEXT DEFAULT '/default-avatar.png',
+  bio TEXT DEFAULT '',
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  email_verified_at DATETIME,
+  display_name TEXT,
+  is_private INTEGER NOT NULL DEFAULT 0,
+  role TEXT NOT NULL DEFAULT 'user',
+  suspended_at DATETIME
+);
+
+-- Posts table
+CREATE TABLE IF NOT EXISTS posts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  image_url TEXT NOT NULL,
+  caption TEXT DEFAULT '',
+  image_variants TEXT DEFAULT '[]',
+  likes_count INTEGER DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  edited_at DATETIME,
+  hidden_at DATETIME,
+  FOREIGN KEY (user_id) REFERENCES users(id)
+);
+
+-- Likes table
+CREATE TABLE IF NOT EXISTS likes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  post_id INTEGER NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(user_id, post_id),
+  FOREIGN KEY (user_id) REFERENCES users(id),
+  FOREIGN KEY (post_id) REFERENCES posts(id)
+);
+
+-- Comments table - parent_id is set on replies
+CREATE TABLE IF NOT EXISTS comments (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  post_id INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  edited_at DATETIME,
+  parent_id INTEGER REFERENCES comments(id),
+  hidden_at DATETIME,
+  FOREIGN KEY (user_id) REFERENCES users(id),
+  FOREIGN KEY (post_id) REFERENCES posts(id)
+);
+
+-- Follows table
+CREATE TABLE IF NOT EXISTS follows (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  follower_id INTEGER NOT NULL,
+  following_id INTEGER NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(follower_id, following_id),
+  FOREIGN KEY (follower_id) REFERENCES users(id),
+  FOREIGN KEY (following_id) REFERENCES users(id)
+);
+
+-- Post media table - ordered images of a carousel post
+CREATE TABLE IF NOT EXISTS post_media (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  post_id INTEGER NOT NULL,
+  position INTEGER NOT NULL,
+  image_url TEXT NOT NULL,
+  image_variants TEXT DEFAULT '[]',
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(post_id, position),
+  FOREIGN KEY (post_id) REFERENCES posts(id)
+);
+
+-- Comment likes table
+CREATE TABLE IF NOT EXISTS comment_likes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  comment_id INTEGER NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(user_id, comment_id),
+  FOREIGN KEY (user_id) REFERENCES users(id),
+  FOREIGN KEY (comment_id) REFERENCES comments(id)
+);
+
+-- Hashtags table
+CREATE TABLE IF NOT EXISTS hashtags (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT UNIQUE NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Post hashtags table - comment_id is NULL for tags in the caption
+CREATE TABLE IF NOT EXISTS post_hashtags (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  post_id INTEGER NOT NULL,
+  comment_id INTEGER,
+  hashtag_id INTEGER NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (post_id) REFERENCES posts(id),
+  FOREIGN KEY (comment_id) REFERENCES comments(id),
+  FOREIGN KEY (hashtag_id) REFERENCES hashtags(id)
+);
+
+-- Mentions table - comment_id is NULL for mentions in the caption
+CREATE TABLE IF NOT EXISTS mentions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  post_id INTEGER NOT NULL,
+  comment_id INTEGER,
+  user_id INTEGER NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (post_id) REFERENCES posts(id),
+  FOREIGN KEY (comment_id) REFERENCES comments(id),
+  FOREIGN KEY (user_id) REFERENCES users(id)
+);
+
+-- Notifications table - group_key collects notifications that are shown
+-- together, e.g. every like on one post
+CREATE TABLE IF NOT EXISTS notifications (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  actor_id INTEGER NOT NULL,
+  type TEXT NOT NULL,
+  post_id INTEGER,
+  comment_id INTEGER,
+  group_key TEXT NOT NULL,
+  read_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id),
+  FOREIGN KEY (actor_id) REFERENCES users(id),
+  FOREIGN KEY (post_id) REFERENCES posts(id),
+  FOREIGN KEY (comment_id) REFERENCES comments(id)
+);
+
+-- Conversations table - updated_at moves with the latest message
+CREATE TABLE IF NOT EXISTS conversations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Conversation members table - last_read_message_id drives read receipts
+CREATE TABLE IF NOT EXISTS conversation_members (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  conversation_id INTEGER NOT NULL,
+  user_id INTEGER NOT NULL,
+  last_read_message_id INTEGER DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(conversation_id, user_id),
+  FOREIGN KEY (conversation_id) REFERENCES conversations(id),
+  FOREIGN KEY (user_id) REFERENCES users(id)
+);
+
+-- Messages table - a message carries text, a shared post, or both
+CREATE TABLE IF NOT EXISTS messages (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  conversation_id INTEGER NOT NULL,
+  sender_id INTEGER NOT NULL,
+  content TEXT DEFAULT '',
+  post_id INTEGER,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (conversation_id) REFERENCES conversations(id),
+  FOREIGN KEY (sender_id) REFERENCES users(id),
+  FOREIGN KEY (post_id) REFERENCES posts(id)
+);
+
+-- Stories table - stories disappear from listings after expires_at
+CREATE TABLE IF NOT EXISTS stories (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  image_url TEXT NOT NULL,
+  image_variants TEXT DEFAULT '[]',
+  expires_at DATETIME NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id)
+);
+
+-- Story views table
+CREATE TABLE IF NOT EXISTS story_views (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  story_id INTEGER NOT NULL,
+  viewer_id INTEGER NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(story_id, viewer_id),
+  FOREIGN KEY (story_id) REFERENCES stories(id),
+  FOREIGN KEY (viewer_id) REFERENCES users(id)
+);
+
+-- Sessions table - one row per signed-in device. Only hashes of refresh
+-- tokens are stored; previous_token_hash catches reuse of a rotated token.
+CREATE TABLE IF NOT EXISTS sessions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  token_hash TEXT UNIQUE NOT NULL,
+  previous_token_hash TEXT,
+  user_agent TEXT DEFAULT '',
+  expires_at DATETIME NOT NULL,
+  revoked_at DATETIME,
+  last_used_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id)
+);
+
+-- User tokens table - single-use email verification and password reset
+-- tokens. Only their hashes are stored.
+CREATE TABLE IF NOT EXISTS user_tokens (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  purpose TEXT NOT NULL,
+  token_hash TEXT UNIQUE NOT NULL,
+  expires_at DATETIME NOT NULL,
+  used_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id)
+);
+
+-- Follow requests table - pending requests to follow private accounts
+CREATE TABLE IF NOT EXISTS follow_requests (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  requester_id INTEGER NOT NULL,
+  target_id INTEGER NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (requester_id) REFERENCES users(id),
+  FOREIGN KEY (target_id) REFERENCES users(id),
+  UNIQUE(requester_id, target_id)
+);
+
+-- Blocks table - blocked users can't see or interact with each other
+CREATE TABLE IF NOT EXISTS blocks (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  blocker_id INTEGER NOT NULL,
+  blocked_id INTEGER NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (blocker_id) REFERENCES users(id),
+  FOREIGN KEY (blocked_id) REFERENCES users(id),
+  UNIQUE(blocker_id, blocked_id)
+);
+
+-- Mutes table - muted users' posts are left out of the muter's feed
+CREATE TABLE IF NOT EXISTS mutes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  muter_id INTEGER NOT NULL,
+  muted_id INTEGER NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (muter_id) REFERENCES users(id),
+  FOREIGN KEY (muted_id) REFERENCES users(id),
+  UNIQUE(muter_id, muted_id)
+);
+
+-- Reports table - posts, comments or accounts flagged for moderators.
+-- target_id points into posts, comments or users depending on target_type.
+CREATE TABLE IF NOT EXISTS reports (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  reporter_id INTEGER NOT NULL,
+  target_type TEXT NOT NULL CHECK (target_type IN ('post', 'comment', 'user')),
+  target_id INTEGER NOT NULL,
+  reason TEXT NOT NULL,
+  details TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed')),
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  resolved_at DATETIME,
+  resolved_by INTEGER,
+  FOREIGN KEY (reporter_id) REFERENCES users(id),
+  FOREIGN KEY (resolved_by) REFERENCES users(id)
+);
+
+-- Moderation log table - audit trail of every action a moderator takes
+CREATE TABLE IF NOT EXISTS moderation_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  moderator_id INTEGER NOT NULL,
+  action TEXT NOT NULL,
+  target_type TEXT NOT NULL,
+  target_id INTEGER NOT NULL,
+  report_id INTEGER,
+  note TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (moderator_id) REFERENCES users(id),
+  FOREIGN KEY (report_id) REFERENCES reports(id)
+);
+
+-- Full-text search indexes over users and captions, kept in sync by triggers
+CREATE VIRTUAL TABLE IF NOT EXISTS users_fts USING fts5(
+  username, bio, content='users', content_rowid='id', tokenize='unicode61', prefix='2 3'
+);
+CREATE TRIGGER IF NOT EXISTS users_fts_insert AFTER INSERT ON users BEGIN
+  INSERT INTO users_fts(rowid, username, bio) VALUES (new.id, new.username, new.bio);
+END;
+CREATE TRIGGER IF NOT EXISTS users_fts_delete AFTER DELETE ON users BEGIN
+  INSERT INTO users_fts(users_fts, rowid, username, bio) VALUES ('delete', old.id, old.username, old.bio);
+END;
+CREATE TRIGGER IF NOT EXISTS users_fts_update AFTER UPDATE ON users BEGIN
+  INSERT INTO users_fts(users_fts, rowid, username, bio) VALUES ('delete', old.id, old.username, old.bio);
+  INSERT INTO users_fts(rowid, username, bio) VALUES (new.id, new.username, new.bio);
+END;
+INSERT INTO users_fts(users_fts) VALUES ('rebuild');
+
+CREATE VIRTUAL TABLE IF NOT EXISTS posts_fts USING fts5(
+  caption, content='posts', content_rowid='id', tokenize='unicode61', prefix='2 3'
+);
+CREATE TRIGGER IF NOT EXISTS posts_fts_insert AFTER INSERT ON posts BEGIN
+  INSERT INTO posts_fts(rowid, caption) VALUES (new.id, new.caption);
+END;
+CREATE TRIGGER IF NOT EXISTS posts_fts_delete AFTER DELETE ON posts BEGIN
+  INSERT INTO posts_fts(posts_fts, rowid, caption) VALUES ('delete', old.id, old.caption);
+END;
+CREATE TRIGGER IF NOT EXISTS posts_fts_update AFTER UPDATE ON posts BEGIN
+  INSERT INTO posts_fts(posts_fts, rowid, caption) VALUES ('delete', old.id, old.caption);
+  INSERT INTO posts_fts(rowid, caption) VALUES (new.id, new.caption);
+END;
+INSERT INTO posts_fts(posts_fts) VALUES ('rebuild');
+
+-- migrate:down
+
+-- Children before parents, so foreign keys hold at every step
+DROP TABLE IF EXISTS posts_fts;
+DROP TABLE IF EXISTS users_fts;
+DROP TABLE IF EXISTS moderation_log;
+DROP TABLE IF EXISTS reports;
+DROP TABLE IF EXISTS mutes;
+DROP TABLE IF EXISTS blocks;
+DROP TABLE IF EXISTS follow_requests;
+DROP TABLE IF EXISTS user_tokens;
+DROP TABLE IF EXISTS sessions;
+DROP TABLE IF EXISTS story_views;
+DROP TABLE IF EXISTS stories;
+DROP TABLE IF EXISTS messages;
+DROP TABLE IF EXISTS conversation_members;
+DROP TABLE IF EXISTS conversations;
+DROP TABLE IF EXISTS notifications;
+DROP TABLE IF EXISTS mentions;
+DROP TABLE IF EXISTS post_hashtags;
+DROP TABLE IF EXISTS hashtags;
+DROP TABLE IF EXISTS comment_likes;
+DROP TABLE IF EXISTS post_media;
+DROP TABLE IF EXISTS follows;
+DROP TABLE IF EXISTS comments;
+DROP TABLE IF EXISTS likes;
+DROP TABLE IF EXISTS posts;
+DROP TABLE IF EXISTS users;
@@ -0,0 +1,14 @@
+-- Indexes for profile grids, like lookups and comment threads, which until
+-- now scanned their whole table.
+
+-- migrate:up
+
+CREATE INDEX IF NOT EXISTS idx_posts_user_created ON posts(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_likes_post ON likes(post_id);
+CREATE INDEX IF NOT EXISTS idx_comments_post_created ON comments(post_id, created_at);
+
+-- migrate:down
+
+DROP INDEX IF EXISTS idx_comments_post_created;
+DROP INDEX IF EXISTS idx_likes_post;
+DROP INDEX IF EXISTS idx_posts_user_created;
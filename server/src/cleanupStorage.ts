@@ -0,0 +1,89 @@
+import 'dotenv/config';
+import { Database } from './database';
+import { cleanUploads, getCleanupOptions } from './services/uploadCleanup';
+
+// Reconcile stored uploads with the database and report storage per account:
+//   npm run storage:cleanup                      quarantine orphans past the grace period
+//   npm run storage:cleanup -- --dry-run         only report
+//   npm run storage:cleanup -- --delete          delete orphans instead
+//   npm run storage:cleanup -- --grace-hours 2   override UPLOAD_ORPHAN_GRACE_HOURS
+const USAGE = 'Usage: npm run storage:cleanup -- [--dry-run] [--delete] [--grace-hours <hours>]';
+
+const formatBytes = (bytes: number) => {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit ? value.toFixed(1) : value} ${units[unit]}`;
+};
+
+const parseArgs = (args: string[]) => {
+  const options = getCleanupOptions();
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--delete':
+        options.action = 'delete';
+        break;
+      case '--grace-hours': {
+        const hours = Number(args[++i]);
+        if (args[i] === undefined || !Number.isFinite(hours) || hours < 0) {
+          throw new Error(USAGE);
+        }
+        options.graceMs = hours * 60 * 60 * 1000;
+        break;
+      }
+      default:
+        throw new Error(USAGE);
+    }
+  }
+  return options;
+};
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+
+  // The scan reads tables a database older than this code may lack, so
+  // bring it up to date first, as the server does on startup
+  const applied = await Database.getInstance().migrate();
+  applied.forEach(({ version, name }) => console.log(`📦 Applied migration ${version} (${name})`));
+
+  const report = await cleanUploads(options);
+
+  console.log(`${report.files} stored file(s), ${formatBytes(report.bytes)}`);
+
+  console.log(`\n${report.orphans.length} orphaned file(s), ${report.expired} past the grace period`);
+  report.orphans.forEach(({ key, size, modifiedAt }) => {
+    console.log(`  ${key}  ${formatBytes(size)}  ${modifiedAt.toISOString()}`);
+  });
+  if (options.dryRun) {
+    console.log(`Dry run: nothing was ${options.action === 'delete' ? 'deleted' : 'quarantined'}`);
+  } else if (report.expired) {
+    console.log(`${options.action === 'delete' ? 'Deleted' : 'Quarantined'} ${report.removed}, ${report.failed} failed`);
+  }
+
+  if (report.missing.length) {
+    console.log(`\n${report.missing.length} referenced file(s) missing from storage`);
+    report.missing.forEach(key => console.log(`  ${key}`));
+  }
+
+  console.log('\nStorage by account');
+  report.usage.forEach(({ userId, username, files, bytes }) => {
+    console.log(`  ${username} (#${userId})  ${files} file(s)  ${formatBytes(bytes)}`);
+  });
+
+  Database.getInstance().getDb().close();
+  if (report.failed) {
+    process.exitCode = 1;
+  }
+};
+
+main().catch((error) => {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+});
@@ -1,14 +1,17 @@
 import sqlite3 from 'sqlite3';
 import path from 'path';
+import { migrate, Migration } from './migrations';
 
 export class Database {
   private static instance: Database;
   private db: sqlite3.Database;
 
   private constructor() {
-    const dbPath = path.join(__dirname, '../instagram-lite.db');
+    // DATABASE_PATH may be ':memory:', e.g. for tests
+    const dbPath = process.env.DATABASE_PATH || path.join(__dirname, '../instagram-lite.db');
     this.db = new sqlite3.Database(dbPath);
-    this.initializeTables();
+    // SQLite leaves foreign keys unenforced unless each connection asks
+    this.db.run('PRAGMA foreign_keys = ON');
   }
 
   public static getInstance(): Database {
@@ -18,63 +21,13 @@ export class Database {
     return Database.instance;
   }
 
-  private initializeTables(): void {
-    this.db.serialize(() => {
-      // Users table
-      this.db.run(`
-        CREATE TABLE IF NOT EXISTS users (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          username TEXT UNIQUE NOT NULL,
-          email TEXT UNIQUE NOT NULL,
-          password TEXT NOT NULL,
-          avatar TEXT DEFAULT '/default-avatar.png',
-          bio TEXT DEFAULT '',
-          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-        )
-      `);
-
-      // Posts table
-      this.db.run(`
-        CREATE TABLE IF NOT EXISTS posts (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          user_id INTEGER NOT NULL,
-          image_url TEXT NOT NULL,
-          caption TEXT DEFAULT '',
-          likes_count INTEGER DEFAULT 0,
-          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-          FOREIGN KEY (user_id) REFERENCES users(id)
-        )
-      `);
-
-      // Likes table
-      this.db.run(`
-        CREATE TABLE IF NOT EXISTS likes (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          user_id INTEGER NOT NULL,
-          post_id INTEGER NOT NULL,
-          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-          UNIQUE(user_id, post_id),
-          FOREIGN KEY (user_id) REFERENCES users(id),
-          FOREIGN KEY (post_id) REFERENCES posts(id)
-        )
-      `);
-
-      // Comments table
-      this.db.run(`
-        CREATE TABLE IF NOT EXISTS comments (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          user_id INTEGER NOT NULL,
-          post_id INTEGER NOT NULL,
-          content TEXT NOT NULL,
-          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-          FOREIGN KEY (user_id) REFERENCES users(id),
-          FOREIGN KEY (post_id) REFERENCES posts(id)
-        )
-      `);
-    });
+  // Bring the schema up to date. The schema lives in migrations/; see
+  // src/migrations.ts for how they are applied.
+  public migrate(): Promise<Migration[]> {
+    return migrate(this.db);
   }
 
   public getDb(): sqlite3.Database {
     return this.db;
   }
-}
\ No newline at end of file
+}
@@ -1,33 +1,100 @@
+import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
-import dotenv from 'dotenv';
 import { Database } from './database';
+import { assertAuthConfig } from './services/sessions';
+import { startUploadCleanup } from './services/uploadCleanup';
+import { notFoundHandler, errorHandler } from './middleware/errors';
+import { rateLimit, WRITE_METHODS } from './middleware/rateLimit';
 import authRoutes from './routes/auth';
 import postRoutes from './routes/posts';
 import userRoutes from './routes/users';
+import tagRoutes from './routes/tags';
+import searchRoutes from './routes/search';
+import notificationRoutes from './routes/notifications';
+import eventRoutes from './routes/events';
+import conversationRoutes from './routes/conversations';
+import storyRoutes from './routes/stories';
+import reportRoutes from './routes/reports';
+import adminRoutes from './routes/admin';
+import uploadRoutes from './routes/uploads';
 
-dotenv.config();
+// Refuse to start with a guessable token secret in production
+try {
+  assertAuthConfig();
+} catch (error) {
+  console.error(`❌ ${(error as Error).message}`);
+  process.exit(1);
+}
 
 const app = express();
 const PORT = process.env.PORT || 5000;
 
-// Initialize database
-Database.getInstance();
+// Behind a reverse proxy, set TRUST_PROXY (e.g. 1 or "loopback") so req.ip
+// is the client's address rather than the proxy's
+const trustProxy = process.env.TRUST_PROXY;
+if (trustProxy) {
+  app.set('trust proxy', trustProxy === 'true' ? true : /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
+}
+
+// Rate limits, per route group. Every bucket refills steadily; capacity is
+// the burst a client may spend at once.
+const rateLimits = {
+  // Everything under /api, per address
+  api: rateLimit({ name: 'api', by: 'ip', capacity: 300, perMinute: 300 }),
+  // Password guessing, sign-up spam and mail bombing
+  credentials: rateLimit({ name: 'credentials', by: 'ip', capacity: 10, perMinute: 5, methods: ['POST'] }),
+  // Posts, comments, likes, follows, messages and stories, per account
+  writes: rateLimit({ name: 'writes', by: 'user', capacity: 60, perMinute: 30, methods: WRITE_METHODS }),
+  // New posts, stories and avatars, which carry image processing
+  uploads: rateLimit({ name: 'uploads', by: 'user', capacity: 10, perMinute: 5 })
+};
 
 // Middleware
 app.use(cors());
 app.use(express.json());
-app.use('/uploads', express.static('uploads'));
+app.use('/uploads', uploadRoutes);
+
+app.use('/api', rateLimits.api);
+app.use(
+  ['/api/auth/login', '/api/auth/register', '/api/auth/forgot', '/api/auth/reset', '/api/auth/verify'],
+  rateLimits.credentials
+);
+app.use(['/api/posts', '/api/users', '/api/conversations', '/api/stories', '/api/reports'], rateLimits.writes);
+app.post(['/api/posts', '/api/stories'], rateLimits.uploads);
+app.put('/api/users/me/avatar', rateLimits.uploads);
 
 // Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/posts', postRoutes);
 app.use('/api/users', userRoutes);
+app.use('/api/tags', tagRoutes);
+app.use('/api/search', searchRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/events', eventRoutes);
+app.use('/api/conversations', conversationRoutes);
+app.use('/api/stories', storyRoutes);
+app.use('/api/reports', reportRoutes);
+app.use('/api/admin', adminRoutes);
 
 app.get('/api/health', (req, res) => {
   res.json({ status: 'ok', message: 'Instagram Lite API is running' });
 });
 
-app.listen(PORT, () => {
-  console.log(`🚀 Server running on http://localhost:${PORT}`);
-});
\ No newline at end of file
+app.use('/api', notFoundHandler);
+app.use(errorHandler);
+
+// Apply pending migrations before taking requests
+Database.getInstance()
+  .migrate()
+  .then((applied) => {
+    applied.forEach(({ version, name }) => console.log(`📦 Applied migration ${version} (${name})`));
+    app.listen(PORT, () => {
+      console.log(`🚀 Server running on http://localhost:${PORT}`);
+      startUploadCleanup();
+    });
+  })
+  .catch((error) => {
+    console.error(`❌ Database migration failed: ${error.message}`);
+    process.exit(1);
+  });
\ No newline at end of file
@@ -1,22 +1,53 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
+import { sendError } from '../utils/errors';
+import { verifyAccessToken } from '../services/sessions';
+import { UserRole } from '../repositories/types';
 
 export interface AuthRequest extends Request {
   userId?: number;
+  sessionId?: number;
+  userRole?: UserRole;
 }
 
 export const authenticate = (req: AuthRequest, res: Response, next: NextFunction) => {
-  try {
-    const token = req.headers.authorization?.split(' ')[1];
-    
-    if (!token) {
-      return res.status(401).json({ error: 'Authentication required' });
-    }
+  const token = req.headers.authorization?.split(' ')[1];
+
+  if (!token) {
+    return sendError(res, 401, 'Authentication required');
+  }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'secret') as { userId: number };
-    req.userId = decoded.userId;
+  verifyAccessToken(token).then((session) => {
+    if (!session) {
+      return sendError(res, 401, 'Invalid or expired token', 'INVALID_TOKEN');
+    }
+    if (session.suspended) {
+      return sendError(res, 403, 'Your account has been suspended', 'ACCOUNT_SUSPENDED');
+    }
+    req.userId = session.userId;
+    req.sessionId = session.sessionId;
+    req.userRole = session.role;
     next();
-  } catch (error) {
-    res.status(401).json({ error: 'Invalid token' });
+  });
+};
+
+// Use after authenticate on routes only admins may call
+export const requireAdmin = (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (req.userRole !== 'admin') {
+    return sendError(res, 403, 'Admins only');
   }
-};
\ No newline at end of file
+  next();
+};
+
+// Like authenticate, but lets requests without a token through as anonymous.
+// A token that is present but expired still gets a 401, so clients know to
+// refresh it.
+export const optionalAuthenticate = (req: AuthRequest, res: Response, next: NextFunction) => {
+  const token = req.headers.authorization?.split(' ')[1];
+
+  // Signed-out clients send "Bearer null"
+  if (!token || token === 'null') {
+    return next();
+  }
+
+  authenticate(req, res, next);
+};
@@ -0,0 +1,25 @@
+import { Request, Response, NextFunction } from 'express';
+import { sendError } from '../utils/errors';
+
+// Unknown API routes get the JSON envelope rather than Express's HTML page
+export const notFoundHandler = (req: Request, res: Response) => {
+  sendError(res, 404, `No route for ${req.method} ${req.originalUrl.split('?')[0]}`);
+};
+
+// Last-resort handler for errors passed to next() or thrown synchronously,
+// e.g. a malformed JSON body rejected by express.json()
+export const errorHandler = (err: unknown, req: Request, res: Response, next: NextFunction) => {
+  if (res.headersSent) {
+    return next(err);
+  }
+  // body-parser tags its errors with a type
+  const type = (err as { type?: string } | null)?.type;
+  if (type === 'entity.parse.failed') {
+    return sendError(res, 400, 'Request body is not valid JSON');
+  }
+  if (type === 'entity.too.large') {
+    return sendError(res, 413, 'Request body is too large');
+  }
+  console.error(err);
+  sendError(res, 500, 'Server error');
+};
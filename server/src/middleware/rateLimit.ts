@@ -0,0 +1,98 @@
+import { Request, Response, NextFunction } from 'express';
+import { sendError, ErrorCode } from '../utils/errors';
+import { decodeAccessToken } from '../services/sessions';
+import { getRateLimitStore } from '../services/rateLimitStore';
+
+export interface RateLimitOptions {
+  // Namespaces the counters, so groups sharing a key don't share a bucket
+  name: string;
+  // 'user' counts per signed-in account and falls back to the IP for
+  // anonymous requests
+  by: 'ip' | 'user';
+  // Requests allowed in a burst
+  capacity: number;
+  // Requests added back to the bucket each minute
+  perMinute: number;
+  // Only these methods are counted; all of them when omitted
+  methods?: string[];
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+// The limiter runs before the route's own authenticate, so it reads the
+// user from the token itself. An invalid token just counts against the IP;
+// authenticate rejects it afterwards.
+const userFromToken = (req: Request): number | null => {
+  const token = req.headers.authorization?.split(' ')[1];
+  if (!token || token === 'null') {
+    return null;
+  }
+  try {
+    return decodeAccessToken(token).userId;
+  } catch {
+    return null;
+  }
+};
+
+const clientKey = (req: Request, by: RateLimitOptions['by']) => {
+  const userId = by === 'user' ? userFromToken(req) : null;
+  return userId ? `user:${userId}` : `ip:${req.ip}`;
+};
+
+// Answer 429 with Retry-After, in whole seconds
+export const sendTooManyRequests = (
+  res: Response,
+  retryAfterMs: number,
+  message: string,
+  code: ErrorCode = 'RATE_LIMITED'
+) => {
+  res.set('Retry-After', String(Math.max(1, Math.ceil(retryAfterMs / 1000))));
+  return sendError(res, 429, message, code);
+};
+
+// Token bucket limiter: each request takes a token, tokens refill steadily
+// at perMinute, and a request that finds the bucket empty gets a 429.
+export const rateLimit = (options: RateLimitOptions) => {
+  const { name, by, capacity, perMinute, methods } = options;
+  const refillPerMs = perMinute / 60000;
+  const fullAfterMs = capacity / refillPerMs;
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (methods && !methods.includes(req.method)) {
+      return next();
+    }
+
+    const store = getRateLimitStore();
+    const key = `ratelimit:${name}:${clientKey(req, by)}`;
+    const now = Date.now();
+
+    let bucket: Bucket | undefined;
+    try {
+      bucket = await store.get<Bucket>(key);
+    } catch (err) {
+      // A broken store shouldn't take the API down with it
+      console.error('Rate limit store failed', err);
+      return next();
+    }
+
+    const tokens = bucket
+      ? Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs)
+      : capacity;
+
+    res.set('RateLimit-Limit', String(capacity));
+    if (tokens < 1) {
+      res.set('RateLimit-Remaining', '0');
+      return sendTooManyRequests(res, (1 - tokens) / refillPerMs, 'Too many requests. Please slow down.');
+    }
+
+    res.set('RateLimit-Remaining', String(Math.floor(tokens - 1)));
+    store.set<Bucket>(key, { tokens: tokens - 1, updatedAt: now }, fullAfterMs)
+      .catch(err => console.error('Rate limit store failed', err));
+    next();
+  };
+};
@@ -0,0 +1,31 @@
+import { Request, Response, NextFunction } from 'express';
+import { sendError } from '../utils/errors';
+import multer from 'multer';
+import { getUploadLimits } from '../services/images';
+
+// Accepts images in `field`, held in memory for the image pipeline. With
+// maxCount > 1 the files land in req.files, otherwise in req.file.
+// Multer errors are turned into JSON responses instead of Express's HTML page.
+export const imageUpload = (field: string, maxCount = 1) => (req: Request, res: Response, next: NextFunction) => {
+  const multerInstance = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: getUploadLimits().maxBytes, files: maxCount }
+  });
+  const upload = maxCount > 1 ? multerInstance.array(field, maxCount) : multerInstance.single(field);
+
+  upload(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      if (err.code === 'LIMIT_FILE_SIZE') {
+        return sendError(res, 413, `Image exceeds the ${getUploadLimits().maxBytes} byte limit`);
+      }
+      if (err.code === 'LIMIT_FILE_COUNT' || err.code === 'LIMIT_UNEXPECTED_FILE') {
+        return sendError(res, 400, `Upload at most ${maxCount} image(s) in the "${field}" field`);
+      }
+      return sendError(res, 400, err.message);
+    }
+    if (err) {
+      return next(err);
+    }
+    next();
+  });
+};
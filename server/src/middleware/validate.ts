@@ -0,0 +1,78 @@
+import { Request, Response, NextFunction } from 'express';
+import { z, ZodTypeAny } from 'zod';
+import { sendError, FieldErrors } from '../utils/errors';
+
+export interface RequestSchemas {
+  params?: ZodTypeAny;
+  query?: ZodTypeAny;
+  body?: ZodTypeAny;
+}
+
+const PARTS = ['params', 'query', 'body'] as const;
+
+// Checks the request against the given schemas and replaces each part with
+// its parsed value, so handlers see trimmed strings and coerced numbers.
+// Failures answer 400 VALIDATION_FAILED with a message per field.
+export const validate = (schemas: RequestSchemas) => (req: Request, res: Response, next: NextFunction) => {
+  const fields: FieldErrors = {};
+
+  for (const part of PARTS) {
+    const schema = schemas[part];
+    if (!schema) continue;
+
+    const result = schema.safeParse(req[part] ?? {});
+    if (result.success) {
+      req[part] = result.data;
+      continue;
+    }
+    for (const issue of result.error.issues) {
+      const key = issue.path.length > 0 ? issue.path.join('.') : part;
+      fields[key] ??= issue.message;
+    }
+  }
+
+  const messages = Object.values(fields);
+  if (messages.length > 0) {
+    return sendError(res, 400, messages[0], 'VALIDATION_FAILED', fields);
+  }
+  next();
+};
+
+// Shared building blocks for route schemas
+
+export const id = (label = 'id') =>
+  z.coerce.number({ invalid_type_error: `${label} must be a number` })
+    .int(`${label} must be a whole number`)
+    .positive(`${label} must be a positive number`);
+
+export const idParams = z.object({ id: id() });
+
+// ?before=<created_at,id>&limit= as read by parsePageParams
+export const pageQuery = z.object({
+  before: z.string().regex(/^.+,\d+$/, 'before must be a cursor returned by a previous page').or(z.literal('')).optional(),
+  limit: z.coerce.number().int('limit must be a whole number').min(1, 'limit must be at least 1').optional()
+}).passthrough();
+
+// Usernames must be @-mentionable, so they use the mention alphabet
+export const usernameField = () =>
+  z.string({ required_error: 'Username is required', invalid_type_error: 'Username must be text' })
+    .trim()
+    .min(3, 'Username must be at least 3 characters')
+    .max(30, 'Username can be at most 30 characters')
+    .regex(/^[A-Za-z0-9_.]+$/, 'Username can only use letters, numbers, periods and underscores');
+
+const MIN_PASSWORD_LENGTH = 6;
+const MAX_PASSWORD_LENGTH = 72; // bcrypt ignores anything longer
+
+// A password being chosen, as opposed to one being checked
+export const newPasswordField = (label = 'Password') =>
+  z.string({ required_error: `${label} is required`, invalid_type_error: `${label} must be text` })
+    .min(MIN_PASSWORD_LENGTH, `${label} must be at least ${MIN_PASSWORD_LENGTH} characters`)
+    .max(MAX_PASSWORD_LENGTH, `${label} can be at most ${MAX_PASSWORD_LENGTH} characters`);
+
+// Trimmed text that must not be empty once trimmed
+export const requiredText = (label: string, max: number) =>
+  z.string({ required_error: `${label} is required`, invalid_type_error: `${label} must be text` })
+    .trim()
+    .min(1, `${label} is required`)
+    .max(max, `${label} can be at most ${max} characters`);
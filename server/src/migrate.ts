@@ -0,0 +1,60 @@
+import 'dotenv/config';
+import { Database } from './database';
+import { getMigrationStatus, migrate, rollback } from './migrations';
+
+// Command line access to the migrations:
+//   npm run migrate -- status     list migrations and whether they are applied
+//   npm run migrate -- up         apply pending migrations
+//   npm run migrate -- down [n]   roll back the latest n migrations (default 1)
+const USAGE = 'Usage: npm run migrate -- <status | up | down [steps]>';
+
+const main = async () => {
+  const [command = 'status', arg] = process.argv.slice(2);
+  const db = Database.getInstance().getDb();
+
+  switch (command) {
+    case 'status': {
+      const statuses = await getMigrationStatus(db);
+      statuses.forEach(({ version, name, appliedAt, changed, missing }) => {
+        const state = missing
+          ? 'applied, file missing'
+          : appliedAt
+            ? `applied ${appliedAt}${changed ? ', file edited since' : ''}`
+            : 'pending';
+        console.log(`${version} ${name}: ${state}`);
+      });
+      break;
+    }
+    case 'up': {
+      const applied = await migrate(db);
+      applied.forEach(({ version, name }) => console.log(`Applied ${version} (${name})`));
+      console.log(applied.length ? 'Database is up to date' : 'No pending migrations');
+      break;
+    }
+    case 'down': {
+      // Rolling back drops data, so it is for development databases only
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('Refusing to roll back migrations when NODE_ENV=production');
+      }
+      const steps = arg === undefined ? 1 : Number(arg);
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new Error(USAGE);
+      }
+      const rolledBack = await rollback(db, steps);
+      rolledBack.forEach(({ version, name }) => console.log(`Rolled back ${version} (${name})`));
+      if (!rolledBack.length) {
+        console.log('No migrations to roll back');
+      }
+      break;
+    }
+    default:
+      throw new Error(USAGE);
+  }
+
+  db.close();
+};
+
+main().catch((error) => {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,51 @@
+import 'dotenv/config';
+import { createStorage, contentTypeFor, STORAGE_BACKENDS } from './services/storage';
+
+// Copy every uploaded file from one storage backend to another:
+//   npm run storage:migrate -- <from> <to> [--delete-source]
+// Uploads are addressed by key, so stored URLs need no changes. Files that
+// already exist in the target are overwritten, so an interrupted run can
+// simply be repeated.
+const USAGE = `Usage: npm run storage:migrate -- <${STORAGE_BACKENDS.join(' | ')}> <${STORAGE_BACKENDS.join(' | ')}> [--delete-source]`;
+
+const main = async () => {
+  const args = process.argv.slice(2);
+  const deleteSource = args.includes('--delete-source');
+  const [from, to] = args.filter(arg => arg !== '--delete-source');
+  if (!from || !to || from === to) {
+    throw new Error(USAGE);
+  }
+
+  const source = createStorage(from);
+  const target = createStorage(to);
+  const objects = await source.list();
+  console.log(`Copying ${objects.length} file(s) from ${from} to ${to}`);
+
+  let copied = 0;
+  for (const { key } of objects) {
+    const file = await source.get(key);
+    if (!file) {
+      // Deleted since it was listed
+      continue;
+    }
+    const contentType = file.contentType === 'application/octet-stream' ? contentTypeFor(key) : file.contentType;
+    await target.put(key, file.body, contentType);
+    if (deleteSource) {
+      await source.delete(key);
+    }
+    copied++;
+    if (copied % 100 === 0) {
+      console.log(`  ${copied}/${objects.length}`);
+    }
+  }
+
+  console.log(`Copied ${copied} file(s)${deleteSource ? ` and deleted them from ${from}` : ''}`);
+  if (process.env.STORAGE_BACKEND !== to) {
+    console.log(`Set STORAGE_BACKEND=${to} to serve uploads from there`);
+  }
+};
+
+main().catch((error) => {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,257 @@
+import sqlite3 from 'sqlite3';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+// Migration files live next to src/ and dist/ so both the dev server and
+// the build find them. Each is named <version>_<name>.sql and holds a
+// "-- migrate:up" section and an optional "-- migrate:down" section.
+export const MIGRATIONS_DIR = path.join(__dirname, '../migrations');
+
+const FILE_PATTERN = /^(\d+)_([\w-]+)\.sql$/;
+const UP_MARKER = /^--\s*migrate:up\s*$/m;
+const DOWN_MARKER = /^--\s*migrate:down\s*$/m;
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string | null;
+  checksum: string;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: string | null;
+  // The file was edited after it was applied
+  changed: boolean;
+  // Applied, but the file is gone - the database is ahead of this code
+  missing: boolean;
+}
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: string;
+  // 1 when this migration took over the tables of a database created before
+  // migrations existed
+  adopted: number;
+}
+
+const run = (db: sqlite3.Database, sql: string, params: unknown[] = []) =>
+  new Promise<void>((resolve, reject) => db.run(sql, params, (err) => (err ? reject(err) : resolve())));
+
+const all = <T>(db: sqlite3.Database, sql: string, params: unknown[] = []) =>
+  new Promise<T[]>((resolve, reject) => db.all(sql, params, (err, rows) => (err ? reject(err) : resolve(rows as T[]))));
+
+const exec = (db: sqlite3.Database, sql: string) =>
+  new Promise<void>((resolve, reject) => db.exec(sql, (err) => (err ? reject(err) : resolve())));
+
+// Checksums ignore line endings, so a checkout with CRLFs doesn't look edited
+const checksum = (contents: string) =>
+  crypto.createHash('sha256').update(contents.replace(/\r\n/g, '\n')).digest('hex');
+
+const parseMigration = (file: string, contents: string): Migration => {
+  const [, version, name] = file.match(FILE_PATTERN)!;
+  const upStart = contents.search(UP_MARKER);
+  if (upStart === -1) {
+    throw new MigrationError(`${file} has no "-- migrate:up" section`);
+  }
+  const downStart = contents.search(DOWN_MARKER);
+  const up = contents.slice(upStart, downStart > upStart ? downStart : undefined).replace(UP_MARKER, '').trim();
+  const down = downStart > upStart ? contents.slice(downStart).replace(DOWN_MARKER, '').trim() : '';
+
+  return { version: Number(version), name, up, down: down || null, checksum: checksum(contents) };
+};
+
+// Read every migration file, oldest first
+export const loadMigrations = (dir = MIGRATIONS_DIR): Migration[] => {
+  const migrations = fs.readdirSync(dir)
+    .filter(file => FILE_PATTERN.test(file))
+    .map(file => parseMigration(file, fs.readFileSync(path.join(dir, file), 'utf8')))
+    .sort((a, b) => a.version - b.version);
+
+  migrations.forEach((migration, i) => {
+    if (i > 0 && migration.version === migrations[i - 1].version) {
+      throw new MigrationError(`Two migrations share version ${migration.version}`);
+    }
+  });
+  return migrations;
+};
+
+const ensureMigrationsTable = async (db: sqlite3.Database) => {
+  await run(db, `
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      adopted INTEGER NOT NULL DEFAULT 0
+    )
+  `);
+
+  // Databases migrated before adoption was recorded can't tell whether their
+  // first migration adopted legacy tables, so it is assumed that it did
+  const columns = await all<{ name: string }>(db, 'PRAGMA table_info(schema_migrations)');
+  if (!columns.some(c => c.name === 'adopted')) {
+    await inTransaction(db, async () => {
+      await run(db, 'ALTER TABLE schema_migrations ADD COLUMN adopted INTEGER NOT NULL DEFAULT 0');
+      await run(db, 'UPDATE schema_migrations SET adopted = 1 WHERE version = (SELECT MIN(version) FROM schema_migrations)');
+    });
+  }
+};
+
+const appliedMigrations = (db: sqlite3.Database) =>
+  all<AppliedMigration>(db, 'SELECT * FROM schema_migrations ORDER BY version');
+
+const tableExists = async (db: sqlite3.Database, table: string) =>
+  (await all(db, `SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`, [table])).length > 0;
+
+// Columns that older versions added to existing tables at startup. A
+// database created before migrations existed may have any subset of them;
+// the initial migration only creates tables that are missing.
+const LEGACY_COLUMNS: [table: string, column: string, definition: string][] = [
+  ['posts', 'image_variants', "TEXT DEFAULT '[]'"],
+  ['posts', 'edited_at', 'DATETIME'],
+  ['comments', 'edited_at', 'DATETIME'],
+  ['comments', 'parent_id', 'INTEGER REFERENCES comments(id)'],
+  ['users', 'email_verified_at', 'DATETIME'],
+  ['users', 'display_name', 'TEXT'],
+  ['users', 'is_private', 'INTEGER NOT NULL DEFAULT 0'],
+  ['users', 'role', "TEXT NOT NULL DEFAULT 'user'"],
+  ['users', 'suspended_at', 'DATETIME'],
+  ['posts', 'hidden_at', 'DATETIME'],
+  ['comments', 'hidden_at', 'DATETIME']
+];
+
+// Bring a pre-migrations database's existing tables up to the initial schema
+const adoptLegacyTables = async (db: sqlite3.Database) => {
+  for (const [table, column, definition] of LEGACY_COLUMNS) {
+    const columns = await all<{ name: string }>(db, `PRAGMA table_info(${table})`);
+    if (columns.length > 0 && !columns.some(c => c.name === column)) {
+      await run(db, `ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+};
+
+// Each migration runs in its own transaction with its bookkeeping row, so a
+// failure leaves the database as it was before that migration
+const inTransaction = async (db: sqlite3.Database, work: () => Promise<void>) => {
+  await run(db, 'BEGIN');
+  try {
+    await work();
+    await run(db, 'COMMIT');
+  } catch (err) {
+    await run(db, 'ROLLBACK').catch(() => undefined);
+    throw err;
+  }
+};
+
+// Applied migrations must match their files exactly; editing one after the
+// fact would leave databases with different schemas under the same version
+const verifyApplied = (migrations: Migration[], applied: AppliedMigration[]) => {
+  for (const row of applied) {
+    const migration = migrations.find(m => m.version === row.version);
+    if (!migration) {
+      throw new MigrationError(
+        `Migration ${row.version} (${row.name}) is applied but its file is missing; is this code older than the database?`
+      );
+    }
+    if (migration.checksum !== row.checksum) {
+      throw new MigrationError(
+        `Migration ${row.version} (${row.name}) was edited after it was applied. Add a new migration instead.`
+      );
+    }
+  }
+};
+
+// Compare the migration files with what the database has applied
+export const getMigrationStatus = async (db: sqlite3.Database, dir = MIGRATIONS_DIR): Promise<MigrationStatus[]> => {
+  const migrations = loadMigrations(dir);
+  const applied = (await tableExists(db, 'schema_migrations')) ? await appliedMigrations(db) : [];
+
+  const statuses: MigrationStatus[] = migrations.map(migration => {
+    const row = applied.find(a => a.version === migration.version);
+    return {
+      version: migration.version,
+      name: migration.name,
+      appliedAt: row?.applied_at ?? null,
+      changed: !!row && row.checksum !== migration.checksum,
+      missing: false
+    };
+  });
+  applied
+    .filter(row => !migrations.some(m => m.version === row.version))
+    .forEach(row => statuses.push({
+      version: row.version, name: row.name, appliedAt: row.applied_at, changed: false, missing: true
+    }));
+
+  return statuses.sort((a, b) => a.version - b.version);
+};
+
+// Apply every pending migration in order. Returns the ones applied.
+export const migrate = async (db: sqlite3.Database, dir = MIGRATIONS_DIR): Promise<Migration[]> => {
+  const migrations = loadMigrations(dir);
+  const legacy = !(await tableExists(db, 'schema_migrations')) && (await tableExists(db, 'users'));
+
+  await ensureMigrationsTable(db);
+  const applied = await appliedMigrations(db);
+  verifyApplied(migrations, applied);
+
+  if (legacy) {
+    await inTransaction(db, () => adoptLegacyTables(db));
+  }
+
+  // On a legacy database the first migration takes over the existing tables
+  const pending = migrations.filter(m => !applied.some(a => a.version === m.version));
+  for (const [i, migration] of pending.entries()) {
+    await inTransaction(db, async () => {
+      await exec(db, migration.up);
+      await run(
+        db,
+        'INSERT INTO schema_migrations (version, name, checksum, adopted) VALUES (?, ?, ?, ?)',
+        [migration.version, migration.name, migration.checksum, Number(legacy && i === 0)]
+      );
+    });
+  }
+  return pending;
+};
+
+// Undo the latest `steps` applied migrations, newest first. Returns the ones
+// rolled back. A migration that adopted a legacy database's tables is never
+// rolled back, since its down section would drop them with all their data.
+export const rollback = async (db: sqlite3.Database, steps = 1, dir = MIGRATIONS_DIR): Promise<Migration[]> => {
+  const migrations = loadMigrations(dir);
+  await ensureMigrationsTable(db);
+  const applied = await appliedMigrations(db);
+  verifyApplied(migrations, applied);
+
+  const rows = applied.slice(-steps).reverse();
+  const adopted = rows.find(row => row.adopted);
+  if (adopted) {
+    throw new MigrationError(
+      `Migration ${adopted.version} (${adopted.name}) adopted tables that existed before migrations and cannot be rolled back`
+    );
+  }
+  const targets = rows.map(row => migrations.find(m => m.version === row.version)!);
+
+  for (const migration of targets) {
+    if (!migration.down) {
+      throw new MigrationError(`Migration ${migration.version} (${migration.name}) has no "-- migrate:down" section`);
+    }
+    await inTransaction(db, async () => {
+      await exec(db, migration.down!);
+      await run(db, 'DELETE FROM schema_migrations WHERE version = ?', [migration.version]);
+    });
+  }
+  return targets;
+};
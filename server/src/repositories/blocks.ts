@@ -0,0 +1,74 @@
+import { db, withTransaction, Queryable } from './db';
+import { UserRow } from './types';
+import { PageParams, cursorCondition } from '../utils/pagination';
+
+// A blocked or muted account, with when that happened
+export interface RelationshipListRow extends Pick<UserRow, 'username' | 'display_name' | 'avatar'> {
+  id: number;
+  created_at: string;
+  user_id: number;
+}
+
+// Block a user. Any follows and follow requests between the two end, and
+// their notifications about each other are cleared.
+export const insertBlock = (blockerId: number, blockedId: number) =>
+  withTransaction(async (tx) => {
+    const pair = [blockerId, blockedId, blockedId, blockerId];
+    await tx.run('INSERT OR IGNORE INTO blocks (blocker_id, blocked_id) VALUES (?, ?)', [blockerId, blockedId]);
+    await tx.run(
+      `DELETE FROM follows
+       WHERE (follower_id = ? AND following_id = ?) OR (follower_id = ? AND following_id = ?)`,
+      pair
+    );
+    await tx.run(
+      `DELETE FROM follow_requests
+       WHERE (requester_id = ? AND target_id = ?) OR (requester_id = ? AND target_id = ?)`,
+      pair
+    );
+    await tx.run(
+      `DELETE FROM notifications
+       WHERE (user_id = ? AND actor_id = ?) OR (user_id = ? AND actor_id = ?)`,
+      pair
+    );
+  });
+
+export const deleteBlock = async (blockerId: number, blockedId: number | string, q: Queryable = db) => {
+  await q.run('DELETE FROM blocks WHERE blocker_id = ? AND blocked_id = ?', [blockerId, blockedId]);
+};
+
+export const insertMute = async (muterId: number, mutedId: number, q: Queryable = db) => {
+  await q.run('INSERT OR IGNORE INTO mutes (muter_id, muted_id) VALUES (?, ?)', [muterId, mutedId]);
+};
+
+export const deleteMute = async (muterId: number, mutedId: number | string, q: Queryable = db) => {
+  await q.run('DELETE FROM mutes WHERE muter_id = ? AND muted_id = ?', [muterId, mutedId]);
+};
+
+const listRelationships = (
+  table: 'blocks' | 'mutes',
+  ownerColumn: 'blocker_id' | 'muter_id',
+  userColumn: 'blocked_id' | 'muted_id',
+  userId: number,
+  page: PageParams,
+  q: Queryable
+) => {
+  const cursor = cursorCondition(table, page);
+  return q.all<RelationshipListRow>(
+    `SELECT ${table}.id, ${table}.created_at,
+            users.id as user_id, users.username, users.display_name, users.avatar
+     FROM ${table}
+     JOIN users ON users.id = ${table}.${userColumn}
+     WHERE ${table}.${ownerColumn} = ? AND ${cursor.sql}
+     ORDER BY ${table}.created_at DESC, ${table}.id DESC
+     LIMIT ?`,
+    [userId, ...cursor.params, page.limit + 1]
+  );
+};
+
+// A page of the accounts a user blocked, most recent first
+export const listBlocks = (userId: number, page: PageParams, q: Queryable = db) =>
+  listRelationships('blocks', 'blocker_id', 'blocked_id', userId, page, q);
+
+// A page of the accounts a user muted, most recent first
+export const listMutes = (userId: number, page: PageParams, q: Queryable = db) =>
+  listRelationships('mutes', 'muter_id', 'muted_id', userId, page, q);
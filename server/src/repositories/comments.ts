@@ -0,0 +1,155 @@
+import { db, withTransaction, Queryable } from './db';
+import { CommentRow } from './types';
+import { commentVisibleTo, notBlocked } from './visibility';
+import { mentionsSelect } from './textEntities';
+import { PageParams, cursorCondition } from '../utils/pagination';
+
+// A comment as listed under a post. `liked` says whether the viewer liked
+// it; mentions are a JSON array.
+export interface CommentListRow extends CommentRow {
+  username: string;
+  avatar: string;
+  reply_count: number;
+  likes_count: number;
+  liked: number;
+  mentions: string;
+}
+
+// A comment's text after an edit, with its mentions as a JSON array
+export type CommentTextRow = Pick<CommentRow, 'id' | 'content' | 'edited_at'> & { mentions: string };
+
+// A page of a post's top-level comments (parentId = null) or of the replies
+// to one comment, newest first
+export const listComments = (
+  postId: number | string,
+  parentId: number | string | null,
+  viewerId: number | undefined,
+  page: PageParams,
+  q: Queryable = db
+) => {
+  const cursor = cursorCondition('comments', page);
+  const visible = commentVisibleTo(viewerId);
+  return q.all<CommentListRow>(
+    `SELECT comments.*, users.username, users.avatar,
+            (SELECT COUNT(*) FROM comments AS replies WHERE replies.parent_id = comments.id) as reply_count,
+            (SELECT COUNT(*) FROM comment_likes WHERE comment_likes.comment_id = comments.id) as likes_count,
+            EXISTS(SELECT 1 FROM comment_likes
+                   WHERE comment_likes.comment_id = comments.id AND comment_likes.user_id = ?) as liked,
+            ${mentionsSelect('comments.post_id', 'comments.id')}
+     FROM comments
+     JOIN users ON comments.user_id = users.id
+     WHERE comments.post_id = ? AND comments.parent_id IS ? AND ${visible.sql} AND ${cursor.sql}
+     ORDER BY comments.created_at DESC, comments.id DESC
+     LIMIT ?`,
+    [viewerId || 0, postId, parentId, ...visible.params, ...cursor.params, page.limit + 1]
+  );
+};
+
+// A comment of the post that the viewer may see
+export const findVisibleComment = (
+  postId: number | string,
+  commentId: number | string,
+  viewerId: number | undefined,
+  q: Queryable = db
+) => {
+  const visible = commentVisibleTo(viewerId);
+  return q.get<Pick<CommentRow, 'id'>>(
+    `SELECT id FROM comments WHERE id = ? AND post_id = ? AND ${visible.sql}`,
+    [commentId, postId, ...visible.params]
+  );
+};
+
+// The top-level comment of the thread a comment belongs to. Undefined when
+// the viewer can't see the comment, or the thread's author blocked them or
+// was blocked by them.
+export const findThreadRoot = (
+  postId: number | string,
+  commentId: number | string,
+  viewerId: number | undefined,
+  q: Queryable = db
+) => {
+  const visible = commentVisibleTo(viewerId);
+  const rootUnblocked = notBlocked('root.user_id', viewerId);
+  return q.get<Pick<CommentRow, 'id' | 'user_id'>>(
+    `SELECT root.id, root.user_id FROM comments
+     JOIN comments AS root ON root.id = COALESCE(comments.parent_id, comments.id)
+     WHERE comments.id = ? AND comments.post_id = ? AND ${visible.sql} AND ${rootUnblocked.sql}`,
+    [commentId, postId, ...visible.params, ...rootUnblocked.params]
+  );
+};
+
+// Returns the new comment's id
+export const insertComment = async (
+  comment: Pick<CommentRow, 'user_id' | 'post_id' | 'content' | 'parent_id'>,
+  q: Queryable = db
+) => {
+  const { lastID } = await q.run(
+    'INSERT INTO comments (user_id, post_id, content, parent_id) VALUES (?, ?, ?, ?)',
+    [comment.user_id, comment.post_id, comment.content, comment.parent_id]
+  );
+  return lastID;
+};
+
+// Only the author may edit a comment. Returns false when the comment
+// doesn't exist or isn't the user's.
+export const updateCommentContent = async (
+  postId: number | string,
+  commentId: number | string,
+  userId: number,
+  content: string,
+  q: Queryable = db
+) => {
+  const { changes } = await q.run(
+    `UPDATE comments SET content = ?, edited_at = CURRENT_TIMESTAMP
+     WHERE id = ? AND post_id = ? AND user_id = ?`,
+    [content, commentId, postId, userId]
+  );
+  return changes > 0;
+};
+
+export const findCommentText = (id: number | string, q: Queryable = db) =>
+  q.get<CommentTextRow>(
+    `SELECT id, content, edited_at, ${mentionsSelect('comments.post_id', 'comments.id')}
+     FROM comments WHERE id = ?`,
+    [id]
+  );
+
+// Hide a comment from everyone but its author, or show it again
+export const setCommentHidden = async (id: number, hidden: boolean, q: Queryable = db) => {
+  await q.run(`UPDATE comments SET hidden_at = ${hidden ? 'CURRENT_TIMESTAMP' : 'NULL'} WHERE id = ?`, [id]);
+};
+
+// A comment may be deleted by its author and by the owner of its post
+export const findCommentDeletableBy = (
+  postId: number | string,
+  commentId: number | string,
+  userId: number,
+  q: Queryable = db
+) =>
+  q.get<CommentRow>(
+    `SELECT comments.* FROM comments
+     JOIN posts ON comments.post_id = posts.id
+     WHERE comments.id = ? AND comments.post_id = ?
+       AND (comments.user_id = ? OR posts.user_id = ?)`,
+    [commentId, postId, userId, userId]
+  );
+
+// Delete a comment with its replies, likes, hashtags, mentions and
+// notifications in one transaction. Returns whether the comment existed.
+// Runs in `tx` when given, otherwise in a transaction of its own.
+export const deleteCommentThread = (id: number | string, tx?: Queryable) => {
+  const remove = async (tx: Queryable) => {
+    const thread = 'SELECT id FROM comments WHERE id = ? OR parent_id = ?';
+    await tx.run(`DELETE FROM post_hashtags WHERE comment_id IN (${thread})`, [id, id]);
+    await tx.run(`DELETE FROM mentions WHERE comment_id IN (${thread})`, [id, id]);
+    await tx.run(
+      `DELETE FROM notifications WHERE comment_id IN (${thread}) OR group_key = ?`,
+      [id, id, `reply:${id}`]
+    );
+    await tx.run(`DELETE FROM comment_likes WHERE comment_id IN (${thread})`, [id, id]);
+    await tx.run('DELETE FROM comments WHERE parent_id = ?', [id]);
+    const { changes } = await tx.run('DELETE FROM comments WHERE id = ?', [id]);
+    return changes > 0;
+  };
+  return tx ? remove(tx) : withTransaction(remove);
+};
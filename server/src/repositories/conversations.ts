@@ -0,0 +1,203 @@
+import { db, withTransaction, Queryable } from './db';
+import { PostRow, UserRow } from './types';
+import { notBlocked, postVisibleTo } from './visibility';
+import { PageParams, cursorCondition } from '../utils/pagination';
+
+export interface MessageRow {
+  id: number;
+  conversation_id: number;
+  sender_id: number;
+  content: string;
+  post_id: number | null;
+  created_at: string;
+}
+
+// Summary of a conversation for one of its members: the other member, the
+// latest message and how many messages the member hasn't read yet
+export interface ConversationSummaryRow {
+  id: number;
+  updated_at: string;
+  user_id: number;
+  username: string;
+  avatar: string;
+  other_last_read_message_id: number;
+  unread_count: number;
+  last_message_id: number | null;
+  last_sender_id: number | null;
+  last_content: string | null;
+  last_post_id: number | null;
+  last_created_at: string | null;
+}
+
+// A message with a preview of the post it shares. The post_ columns are
+// null when there is no post, or the viewer may not see it.
+export interface MessageWithPostRow extends MessageRow {
+  post_user_id: PostRow['user_id'] | null;
+  post_caption: PostRow['caption'] | null;
+  post_image_url: PostRow['image_url'] | null;
+  post_image_variants: PostRow['image_variants'] | null;
+  post_username: UserRow['username'] | null;
+}
+
+// The first parameter is the member's id
+const SUMMARY_SELECT = `
+  SELECT conversations.id, conversations.updated_at,
+         other.id as user_id, other.username, other.avatar,
+         other_member.last_read_message_id as other_last_read_message_id,
+         last.id as last_message_id, last.sender_id as last_sender_id, last.content as last_content,
+         last.post_id as last_post_id, last.created_at as last_created_at,
+         (SELECT COUNT(*) FROM messages
+          WHERE messages.conversation_id = conversations.id
+            AND messages.id > me.last_read_message_id
+            AND messages.sender_id != me.user_id) as unread_count
+  FROM conversation_members AS me
+  JOIN conversations ON conversations.id = me.conversation_id
+  JOIN conversation_members AS other_member
+    ON other_member.conversation_id = conversations.id AND other_member.user_id != me.user_id
+  JOIN users AS other ON other.id = other_member.user_id
+  LEFT JOIN messages AS last
+    ON last.id = (SELECT MAX(id) FROM messages WHERE messages.conversation_id = conversations.id)
+  WHERE me.user_id = ?
+`;
+
+// Messages with the shared post, if the viewer may see it
+const messageSelect = (viewerId: number | undefined) => {
+  const visibility = postVisibleTo(viewerId);
+  return {
+    sql: `
+  SELECT messages.*,
+         posts.user_id as post_user_id, posts.caption as post_caption,
+         posts.image_url as post_image_url, posts.image_variants as post_image_variants,
+         post_author.username as post_username
+  FROM messages
+  LEFT JOIN posts ON messages.post_id = posts.id AND ${visibility.sql}
+  LEFT JOIN users AS post_author ON posts.user_id = post_author.id
+`,
+    params: visibility.params
+  };
+};
+
+// A user's conversations that have messages, most recently active first
+export const listConversations = (userId: number, q: Queryable = db) =>
+  q.all<ConversationSummaryRow>(`${SUMMARY_SELECT} AND last.id IS NOT NULL ORDER BY last.id DESC`, [userId]);
+
+export const findConversation = (userId: number, conversationId: number | string, q: Queryable = db) =>
+  q.get<ConversationSummaryRow>(`${SUMMARY_SELECT} AND conversations.id = ?`, [userId, conversationId]);
+
+// How many of a user's conversations have messages they haven't read
+export const countUnreadConversations = async (userId: number, q: Queryable = db) => {
+  const row = await q.get<{ count: number }>(
+    `SELECT COUNT(*) as count FROM conversation_members AS me
+     WHERE me.user_id = ? AND EXISTS (
+       SELECT 1 FROM messages
+       WHERE messages.conversation_id = me.conversation_id
+         AND messages.id > me.last_read_message_id
+         AND messages.sender_id != me.user_id
+     )`,
+    [userId]
+  );
+  return row?.count ?? 0;
+};
+
+export const isConversationMember = async (conversationId: number | string, userId: number, q: Queryable = db) =>
+  !!(await q.get<{ id: number }>(
+    'SELECT id FROM conversation_members WHERE conversation_id = ? AND user_id = ?',
+    [conversationId, userId]
+  ));
+
+// Whether the other member and `userId` have blocked each other, either way
+export const isConversationBlocked = async (conversationId: number | string, userId: number, q: Queryable = db) => {
+  const unblocked = notBlocked('conversation_members.user_id', userId);
+  return !!(await q.get<{ user_id: number }>(
+    `SELECT user_id FROM conversation_members
+     WHERE conversation_id = ? AND user_id != ? AND NOT ${unblocked.sql}`,
+    [conversationId, userId, ...unblocked.params]
+  ));
+};
+
+export const findMemberIds = async (conversationId: number, q: Queryable = db) => {
+  const rows = await q.all<{ user_id: number }>(
+    'SELECT user_id FROM conversation_members WHERE conversation_id = ?',
+    [conversationId]
+  );
+  return rows.map(row => row.user_id);
+};
+
+// The conversation between exactly these two users, if there is one
+export const findConversationBetween = async (userId: number, otherUserId: number, q: Queryable = db) => {
+  const row = await q.get<{ conversation_id: number }>(
+    `SELECT conversation_id FROM conversation_members
+     WHERE user_id IN (?, ?)
+     GROUP BY conversation_id
+     HAVING COUNT(*) = 2`,
+    [userId, otherUserId]
+  );
+  return row?.conversation_id;
+};
+
+// Start a conversation between two users and return its id
+export const createConversation = (userId: number, otherUserId: number) =>
+  withTransaction(async (tx) => {
+    const { lastID: conversationId } = await tx.run('INSERT INTO conversations DEFAULT VALUES');
+    await tx.run('INSERT INTO conversation_members (conversation_id, user_id) VALUES (?, ?)', [conversationId, userId]);
+    await tx.run('INSERT INTO conversation_members (conversation_id, user_id) VALUES (?, ?)', [conversationId, otherUserId]);
+    return conversationId;
+  });
+
+// A page of a conversation's messages, newest first
+export const listMessages = (
+  conversationId: number | string,
+  viewerId: number,
+  page: PageParams,
+  q: Queryable = db
+) => {
+  const cursor = cursorCondition('messages', page);
+  const select = messageSelect(viewerId);
+  return q.all<MessageWithPostRow>(
+    `${select.sql}
+     WHERE messages.conversation_id = ? AND ${cursor.sql}
+     ORDER BY messages.created_at DESC, messages.id DESC
+     LIMIT ?`,
+    [...select.params, conversationId, ...cursor.params, page.limit + 1]
+  );
+};
+
+export const findMessage = (id: number, viewerId: number, q: Queryable = db) => {
+  const select = messageSelect(viewerId);
+  return q.get<MessageWithPostRow>(`${select.sql} WHERE messages.id = ?`, [...select.params, id]);
+};
+
+// Store a message and return its id. Sending also means the sender has
+// read everything before it.
+export const insertMessage = (
+  message: Pick<MessageRow, 'conversation_id' | 'sender_id' | 'content' | 'post_id'>
+) =>
+  withTransaction(async (tx) => {
+    const { lastID: messageId } = await tx.run(
+      'INSERT INTO messages (conversation_id, sender_id, content, post_id) VALUES (?, ?, ?, ?)',
+      [message.conversation_id, message.sender_id, message.content, message.post_id]
+    );
+    await tx.run('UPDATE conversations SET updated_at = CURRENT_TIMESTAMP WHERE id = ?', [message.conversation_id]);
+    await tx.run(
+      'UPDATE conversation_members SET last_read_message_id = ? WHERE conversation_id = ? AND user_id = ?',
+      [messageId, message.conversation_id, message.sender_id]
+    );
+    return messageId;
+  });
+
+// Mark every message in a conversation as read by a member. Returns the
+// latest message id, and whether the member hadn't read up to it yet.
+export const markConversationRead = (conversationId: number, userId: number) =>
+  withTransaction(async (tx) => {
+    const row = await tx.get<{ last_id: number }>(
+      'SELECT COALESCE(MAX(id), 0) as last_id FROM messages WHERE conversation_id = ?',
+      [conversationId]
+    );
+    const lastId = row?.last_id ?? 0;
+    const { changes } = await tx.run(
+      `UPDATE conversation_members SET last_read_message_id = ?
+       WHERE conversation_id = ? AND user_id = ? AND last_read_message_id < ?`,
+      [lastId, conversationId, userId, lastId]
+    );
+    return { lastReadMessageId: lastId, changed: changes > 0 };
+  });
@@ -0,0 +1,99 @@
+import { Database } from '../database';
+
+const connection = Database.getInstance().getDb();
+
+export interface RunResult {
+  lastID: number;
+  changes: number;
+}
+
+// The promise-based query interface repositories are written against. Both
+// the shared connection and an open transaction provide it.
+export interface Queryable {
+  run(sql: string, params?: unknown[]): Promise<RunResult>;
+  get<T>(sql: string, params?: unknown[]): Promise<T | undefined>;
+  all<T>(sql: string, params?: unknown[]): Promise<T[]>;
+}
+
+// A fragment of a WHERE clause and the parameters for its placeholders
+export interface SqlCondition {
+  sql: string;
+  params: unknown[];
+}
+
+const createQueryable = (ready: () => Promise<void>): Queryable => ({
+  async run(sql, params = []) {
+    await ready();
+    return new Promise((resolve, reject) => {
+      connection.run(sql, params, function(err) {
+        if (err) {
+          return reject(err);
+        }
+        resolve({ lastID: this.lastID, changes: this.changes });
+      });
+    });
+  },
+
+  async get<T>(sql: string, params: unknown[] = []) {
+    await ready();
+    return new Promise<T | undefined>((resolve, reject) => {
+      connection.get(sql, params, (err, row) => (err ? reject(err) : resolve(row as T | undefined)));
+    });
+  },
+
+  async all<T>(sql: string, params: unknown[] = []) {
+    await ready();
+    return new Promise<T[]>((resolve, reject) => {
+      connection.all(sql, params, (err, rows) => (err ? reject(err) : resolve(rows as T[])));
+    });
+  }
+});
+
+// A SQLite connection has one transaction at a time, so transactions take
+// turns. Settles once every transaction started so far has finished.
+let idle: Promise<void> = Promise.resolve();
+
+// Queries outside a transaction that were issued but haven't settled. A
+// transaction starts only after these, so none of them can run between its
+// BEGIN and COMMIT and be rolled back with it.
+const inFlight = new Set<Promise<unknown>>();
+
+const track = <T>(query: Promise<T>): Promise<T> => {
+  inFlight.add(query);
+  const settle = () => inFlight.delete(query);
+  query.then(settle, settle);
+  return query;
+};
+
+const outside = createQueryable(() => idle);
+
+// Queries outside a transaction wait for the ones started before them to
+// finish rather than becoming part of them. Every query in the app goes
+// through here or through a transaction's `tx`.
+export const db: Queryable = {
+  run: (sql, params) => track(outside.run(sql, params)),
+  get: <T>(sql: string, params?: unknown[]) => track(outside.get<T>(sql, params)),
+  all: <T>(sql: string, params?: unknown[]) => track(outside.all<T>(sql, params))
+};
+
+// Run `work` in a transaction: committed if it resolves, rolled back if it
+// throws. Queries must go through the `tx` it is given; a nested
+// withTransaction, or a query on `db` awaited inside `work`, would wait for
+// this one forever.
+export const withTransaction = <T>(work: (tx: Queryable) => Promise<T>): Promise<T> => {
+  const tx = createQueryable(async () => undefined);
+  const earlier = [idle, ...[...inFlight].map(query => query.catch(() => undefined))];
+  const result = Promise.all(earlier).then(async () => {
+    await tx.run('BEGIN IMMEDIATE');
+    try {
+      const value = await work(tx);
+      await tx.run('COMMIT');
+      return value;
+    } catch (err) {
+      await tx.run('ROLLBACK').catch(() => undefined);
+      throw err;
+    }
+  });
+  idle = result.then(() => undefined, () => undefined);
+  return result;
+};
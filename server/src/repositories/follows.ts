@@ -0,0 +1,107 @@
+import { db, withTransaction, Queryable } from './db';
+import { UserRow } from './types';
+import { notBlocked } from './visibility';
+import { PageParams, cursorCondition } from '../utils/pagination';
+
+// A pending follow request with the account that sent it
+export interface FollowRequestListRow extends Pick<UserRow, 'username' | 'display_name' | 'avatar'> {
+  id: number;
+  created_at: string;
+  user_id: number;
+}
+
+export type FollowListRow = Pick<UserRow, 'id' | 'username' | 'avatar'>;
+
+export const findFollowerIds = async (userId: number, q: Queryable = db) => {
+  const rows = await q.all<{ follower_id: number }>('SELECT follower_id FROM follows WHERE following_id = ?', [userId]);
+  return rows.map(row => row.follower_id);
+};
+
+export const insertFollow = async (followerId: number, followingId: number, q: Queryable = db) => {
+  await q.run('INSERT OR IGNORE INTO follows (follower_id, following_id) VALUES (?, ?)', [followerId, followingId]);
+};
+
+export const insertFollowRequest = async (requesterId: number, targetId: number, q: Queryable = db) => {
+  await q.run('INSERT OR IGNORE INTO follow_requests (requester_id, target_id) VALUES (?, ?)', [requesterId, targetId]);
+};
+
+// Stop following an account, or withdraw a pending request to
+export const deleteFollow = (followerId: number, followingId: number | string) =>
+  withTransaction(async (tx) => {
+    await tx.run('DELETE FROM follow_requests WHERE requester_id = ? AND target_id = ?', [followerId, followingId]);
+    await tx.run('DELETE FROM follows WHERE follower_id = ? AND following_id = ?', [followerId, followingId]);
+  });
+
+// A page of the requests waiting for a user's approval, newest first
+export const listFollowRequests = (targetId: number, page: PageParams, q: Queryable = db) => {
+  const cursor = cursorCondition('follow_requests', page);
+  return q.all<FollowRequestListRow>(
+    `SELECT follow_requests.id, follow_requests.created_at,
+            users.id as user_id, users.username, users.display_name, users.avatar
+     FROM follow_requests
+     JOIN users ON users.id = follow_requests.requester_id
+     WHERE follow_requests.target_id = ? AND ${cursor.sql}
+     ORDER BY follow_requests.created_at DESC, follow_requests.id DESC
+     LIMIT ?`,
+    [targetId, ...cursor.params, page.limit + 1]
+  );
+};
+
+// Delete a request sent to `targetId`. Returns the requester, or undefined
+// when there was no such request.
+export const deleteFollowRequest = async (id: number | string, targetId: number, q: Queryable = db) => {
+  const row = await q.get<{ requester_id: number }>(
+    'DELETE FROM follow_requests WHERE id = ? AND target_id = ? RETURNING requester_id',
+    [id, targetId]
+  );
+  return row?.requester_id;
+};
+
+// Turn a request into a follow. Returns the requester, or undefined when
+// there was no such request.
+export const approveFollowRequest = (id: number | string, targetId: number) =>
+  withTransaction(async (tx) => {
+    const requesterId = await deleteFollowRequest(id, targetId, tx);
+    if (requesterId !== undefined) {
+      await insertFollow(requesterId, targetId, tx);
+    }
+    return requesterId;
+  });
+
+// Turn all of a user's pending requests into follows, e.g. when the
+// account goes public
+export const approveAllFollowRequests = async (userId: number, q: Queryable = db) => {
+  await q.run(
+    `INSERT OR IGNORE INTO follows (follower_id, following_id)
+     SELECT requester_id, target_id FROM follow_requests WHERE target_id = ?`,
+    [userId]
+  );
+  await q.run("DELETE FROM notifications WHERE user_id = ? AND type = 'follow_request'", [userId]);
+  await q.run('DELETE FROM follow_requests WHERE target_id = ?', [userId]);
+};
+
+const listFollows = (
+  userColumn: 'follower_id' | 'following_id',
+  ownerColumn: 'follower_id' | 'following_id',
+  userId: number | string,
+  viewerId: number | undefined,
+  q: Queryable
+) => {
+  const unblocked = notBlocked('users.id', viewerId);
+  return q.all<FollowListRow>(
+    `SELECT users.id, users.username, users.avatar
+     FROM follows
+     JOIN users ON follows.${userColumn} = users.id
+     WHERE follows.${ownerColumn} = ? AND ${unblocked.sql}
+     ORDER BY follows.created_at DESC`,
+    [userId, ...unblocked.params]
+  );
+};
+
+// A user's followers, leaving out accounts blocked either way by the viewer
+export const listFollowers = (userId: number | string, viewerId: number | undefined, q: Queryable = db) =>
+  listFollows('follower_id', 'following_id', userId, viewerId, q);
+
+// The accounts a user follows, like listFollowers
+export const listFollowing = (userId: number | string, viewerId: number | undefined, q: Queryable = db) =>
+  listFollows('following_id', 'follower_id', userId, viewerId, q);
@@ -0,0 +1,42 @@
+import { db, Queryable } from './db';
+import { postVisibleTo } from './visibility';
+import { PostListRow, POST_LIST_FIELDS } from './posts';
+import { PageParams, cursorCondition } from '../utils/pagination';
+
+// A hashtag with the number of captions using it that the viewer may see
+export const findHashtag = (name: string, viewerId: number | undefined, q: Queryable = db) => {
+  const visibility = postVisibleTo(viewerId);
+  return q.get<{ name: string; posts_count: number }>(
+    `SELECT hashtags.name,
+            (SELECT COUNT(DISTINCT post_id) FROM post_hashtags
+             JOIN posts ON posts.id = post_hashtags.post_id
+             WHERE post_hashtags.hashtag_id = hashtags.id AND post_hashtags.comment_id IS NULL
+               AND ${visibility.sql}) as posts_count
+     FROM hashtags WHERE name = ?`,
+    [...visibility.params, name]
+  );
+};
+
+// A page of the posts whose caption uses a hashtag, newest first
+export const listHashtagPosts = (
+  name: string,
+  viewerId: number | undefined,
+  page: PageParams,
+  q: Queryable = db
+) => {
+  const cursor = cursorCondition('posts', page);
+  const visibility = postVisibleTo(viewerId);
+  return q.all<PostListRow>(
+    `SELECT ${POST_LIST_FIELDS}
+     FROM posts
+     JOIN users ON posts.user_id = users.id
+     WHERE posts.id IN (
+       SELECT post_hashtags.post_id FROM post_hashtags
+       JOIN hashtags ON post_hashtags.hashtag_id = hashtags.id
+       WHERE hashtags.name = ? AND post_hashtags.comment_id IS NULL
+     ) AND ${visibility.sql} AND ${cursor.sql}
+     ORDER BY posts.created_at DESC, posts.id DESC
+     LIMIT ?`,
+    [name, ...visibility.params, ...cursor.params, page.limit + 1]
+  );
+};
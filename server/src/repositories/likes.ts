@@ -0,0 +1,25 @@
+import { withTransaction } from './db';
+import { LikeToggle } from './types';
+
+// Like if not yet liked, otherwise unlike, and count the likes afterwards -
+// all in one transaction, so two quick taps can't both insert or both
+// delete, and the count matches the new state.
+const toggle = (table: 'likes' | 'comment_likes', column: 'post_id' | 'comment_id') =>
+  (userId: number, targetId: number | string): Promise<LikeToggle> =>
+    withTransaction(async (tx) => {
+      const inserted = await tx.run(
+        `INSERT INTO ${table} (user_id, ${column}) VALUES (?, ?) ON CONFLICT DO NOTHING`,
+        [userId, targetId]
+      );
+      if (inserted.changes === 0) {
+        await tx.run(`DELETE FROM ${table} WHERE user_id = ? AND ${column} = ?`, [userId, targetId]);
+      }
+      const row = await tx.get<{ likes_count: number }>(
+        `SELECT COUNT(*) as likes_count FROM ${table} WHERE ${column} = ?`,
+        [targetId]
+      );
+      return { liked: inserted.changes > 0, likesCount: row?.likes_count ?? 0 };
+    });
+
+export const togglePostLike = toggle('likes', 'post_id');
+export const toggleCommentLike = toggle('comment_likes', 'comment_id');
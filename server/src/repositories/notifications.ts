@@ -0,0 +1,135 @@
+import { db, Queryable } from './db';
+import { postVisibleTo, commentVisibleTo } from './visibility';
+import { PageParams, cursorCondition } from '../utils/pagination';
+
+export interface NewNotification {
+  userId: number;
+  actorId: number;
+  type: string;
+  postId: number | null;
+  commentId: number | null;
+  groupKey: string;
+}
+
+// A group of notifications sharing a group_key, as listed to its recipient
+export interface NotificationGroupRow {
+  // The latest notification in the group
+  id: number;
+  group_key: string;
+  type: string;
+  post_id: number | null;
+  comment_id: number | null;
+  created_at: string;
+  actors_count: number;
+  unread_count: number;
+  image_url: string | null;
+  image_variants: string | null;
+  comment_content: string | null;
+}
+
+export interface NotificationActorRow {
+  group_key: string;
+  id: number;
+  username: string;
+  avatar: string;
+}
+
+// Insert a notification unless either user blocked the other, or, with
+// `oncePerActor`, the actor is already in the group. Returns whether a row
+// was inserted.
+export const insertNotification = async (
+  notification: NewNotification,
+  oncePerActor: boolean,
+  q: Queryable = db
+) => {
+  const { userId, actorId, type, postId, commentId, groupKey } = notification;
+  const once = oncePerActor
+    ? 'AND NOT EXISTS (SELECT 1 FROM notifications WHERE user_id = ? AND actor_id = ? AND group_key = ?)'
+    : '';
+  const { changes } = await q.run(
+    `INSERT INTO notifications (user_id, actor_id, type, post_id, comment_id, group_key)
+     SELECT ?, ?, ?, ?, ?, ?
+     WHERE NOT EXISTS (SELECT 1 FROM blocks
+       WHERE (blocker_id = ? AND blocked_id = ?) OR (blocker_id = ? AND blocked_id = ?))
+     ${once}`,
+    [
+      userId, actorId, type, postId, commentId, groupKey,
+      userId, actorId, actorId, userId,
+      ...(oncePerActor ? [userId, actorId, groupKey] : [])
+    ]
+  );
+  return changes > 0;
+};
+
+// Delete an actor's notifications in a group, only those sent to `userId`
+// when given
+export const deleteActorNotifications = async (
+  actorId: number,
+  groupKey: string,
+  userId: number | string | null = null,
+  q: Queryable = db
+) => {
+  await q.run(
+    'DELETE FROM notifications WHERE actor_id = ? AND group_key = ? AND (? IS NULL OR user_id = ?)',
+    [actorId, groupKey, userId, userId]
+  );
+};
+
+// A page of a user's notification groups, newest first. The post and
+// comment are only filled in when the user may still see them.
+export const listNotificationGroups = (userId: number, page: PageParams, q: Queryable = db) => {
+  const cursor = cursorCondition('notifications', page);
+  const postVisibility = postVisibleTo(userId);
+  const commentVisibility = commentVisibleTo(userId);
+  return q.all<NotificationGroupRow>(
+    `SELECT notifications.*, posts.image_url, posts.image_variants, comments.content as comment_content
+     FROM (
+       SELECT group_key, type, post_id,
+              MAX(id) as id, MAX(created_at) as created_at, MAX(comment_id) as comment_id,
+              COUNT(DISTINCT actor_id) as actors_count,
+              SUM(read_at IS NULL) as unread_count
+       FROM notifications
+       WHERE user_id = ?
+       GROUP BY group_key
+     ) AS notifications
+     LEFT JOIN posts ON notifications.post_id = posts.id AND ${postVisibility.sql}
+     LEFT JOIN comments ON notifications.comment_id = comments.id AND posts.id IS NOT NULL
+       AND ${commentVisibility.sql}
+     WHERE ${cursor.sql}
+     ORDER BY notifications.created_at DESC, notifications.id DESC
+     LIMIT ?`,
+    [userId, ...postVisibility.params, ...commentVisibility.params, ...cursor.params, page.limit + 1]
+  );
+};
+
+// The actors of each group, most recent first and once per group
+export const findGroupActors = (userId: number, groupKeys: string[], q: Queryable = db) =>
+  q.all<NotificationActorRow>(
+    `SELECT notifications.group_key, users.id, users.username, users.avatar,
+            MAX(notifications.id) as latest
+     FROM notifications
+     JOIN users ON notifications.actor_id = users.id
+     WHERE notifications.user_id = ? AND notifications.group_key IN (${groupKeys.map(() => '?').join(', ')})
+     GROUP BY notifications.group_key, users.id
+     ORDER BY latest DESC`,
+    [userId, ...groupKeys]
+  );
+
+export const countUnreadGroups = async (userId: number, q: Queryable = db) => {
+  const row = await q.get<{ count: number }>(
+    'SELECT COUNT(DISTINCT group_key) as count FROM notifications WHERE user_id = ? AND read_at IS NULL',
+    [userId]
+  );
+  return row?.count ?? 0;
+};
+
+// Mark a single group as read, or every group when no key is given.
+// Returns how many notifications changed.
+export const markNotificationsRead = async (userId: number, groupKey: string | null, q: Queryable = db) => {
+  const { changes } = await q.run(
+    `UPDATE notifications SET read_at = CURRENT_TIMESTAMP
+     WHERE user_id = ? AND read_at IS NULL AND (? IS NULL OR group_key = ?)`,
+    [userId, groupKey, groupKey]
+  );
+  return changes;
+};
@@ -0,0 +1,157 @@
+import { db, withTransaction, Queryable } from './db';
+import { PostRow, PostMediaRow, StoredImageRow } from './types';
+import { postVisibleTo, notMuted } from './visibility';
+import { mentionsSelect } from './textEntities';
+import { PageParams, cursorCondition } from '../utils/pagination';
+
+// A post as listed in feeds, with its author and the caption's mentions as
+// a JSON array
+export interface PostListRow extends PostRow {
+  username: string;
+  avatar: string;
+  mentions: string;
+}
+
+// The columns of PostListRow; rows come from `posts` joined to `users`
+export const POST_LIST_FIELDS = `
+  posts.*, users.username, users.avatar,
+  (SELECT COUNT(*) FROM likes WHERE likes.post_id = posts.id) as likes_count,
+  ${mentionsSelect('posts.id', 'NULL')}
+`;
+
+export const findPostById = (id: number | string, q: Queryable = db) =>
+  q.get<PostRow>('SELECT * FROM posts WHERE id = ?', [id]);
+
+export const findPostOwnedBy = (id: number | string, userId: number, q: Queryable = db) =>
+  q.get<PostRow>('SELECT * FROM posts WHERE id = ? AND user_id = ?', [id, userId]);
+
+// A page of every post the viewer may see, newest first
+export const listVisiblePosts = (viewerId: number | undefined, page: PageParams, q: Queryable = db) => {
+  const cursor = cursorCondition('posts', page);
+  const visibility = postVisibleTo(viewerId);
+  return q.all<PostListRow>(
+    `SELECT ${POST_LIST_FIELDS}
+     FROM posts
+     JOIN users ON posts.user_id = users.id
+     WHERE ${visibility.sql} AND ${cursor.sql}
+     ORDER BY posts.created_at DESC, posts.id DESC
+     LIMIT ?`,
+    [...visibility.params, ...cursor.params, page.limit + 1]
+  );
+};
+
+// A page of the home feed: posts from followed accounts plus the user's
+// own, leaving out accounts the user muted
+export const listFeedPosts = (userId: number, page: PageParams, q: Queryable = db) => {
+  const cursor = cursorCondition('posts', page);
+  const visibility = postVisibleTo(userId);
+  const unmuted = notMuted('posts.user_id', userId);
+  return q.all<PostListRow>(
+    `SELECT ${POST_LIST_FIELDS}
+     FROM posts
+     JOIN users ON posts.user_id = users.id
+     WHERE (posts.user_id = ?
+        OR posts.user_id IN (SELECT following_id FROM follows WHERE follower_id = ?))
+       AND ${visibility.sql} AND ${unmuted.sql} AND ${cursor.sql}
+     ORDER BY posts.created_at DESC, posts.id DESC
+     LIMIT ?`,
+    [userId, userId, ...visibility.params, ...unmuted.params, ...cursor.params, page.limit + 1]
+  );
+};
+
+// A page of one user's posts for their profile grid
+export const listUserPosts = (
+  userId: number | string,
+  viewerId: number | undefined,
+  page: PageParams,
+  q: Queryable = db
+) => {
+  const cursor = cursorCondition('posts', page);
+  const visibility = postVisibleTo(viewerId);
+  return q.all<PostRow & { mentions: string }>(
+    `SELECT posts.*, ${mentionsSelect('posts.id', 'NULL')}
+     FROM posts
+     WHERE user_id = ? AND ${visibility.sql} AND ${cursor.sql}
+     ORDER BY created_at DESC, id DESC
+     LIMIT ?`,
+    [userId, ...visibility.params, ...cursor.params, page.limit + 1]
+  );
+};
+
+// The carousel images of the given posts, in order
+export const findPostMedia = (postIds: number[], q: Queryable = db) =>
+  q.all<PostMediaRow>(
+    `SELECT * FROM post_media
+     WHERE post_id IN (${postIds.map(() => '?').join(', ')})
+     ORDER BY post_id, position`,
+    postIds
+  );
+
+// Returns the new post's id. `cover` is the image shown by older clients.
+export const insertPost = async (userId: number, cover: StoredImageRow, caption: string, q: Queryable = db) => {
+  const { lastID } = await q.run(
+    'INSERT INTO posts (user_id, image_url, caption, image_variants) VALUES (?, ?, ?, ?)',
+    [userId, cover.image_url, caption, cover.image_variants]
+  );
+  return lastID;
+};
+
+// Store a post's carousel images in the given order
+export const insertPostMedia = async (postId: number, images: StoredImageRow[], q: Queryable = db) => {
+  for (const [position, image] of images.entries()) {
+    await q.run(
+      'INSERT INTO post_media (post_id, position, image_url, image_variants) VALUES (?, ?, ?, ?)',
+      [postId, position, image.image_url, image.image_variants]
+    );
+  }
+};
+
+// Returns false when the post doesn't exist or isn't the user's
+export const updatePostCaption = async (id: number | string, userId: number, caption: string, q: Queryable = db) => {
+  const { changes } = await q.run(
+    'UPDATE posts SET caption = ?, edited_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ?',
+    [caption, id, userId]
+  );
+  return changes > 0;
+};
+
+// A caption with its mentions as a JSON array
+export const findPostCaption = (id: number | string, q: Queryable = db) =>
+  q.get<Pick<PostRow, 'id' | 'caption' | 'edited_at'> & { mentions: string }>(
+    `SELECT id, caption, edited_at, ${mentionsSelect('posts.id', 'NULL')} FROM posts WHERE id = ?`,
+    [id]
+  );
+
+// Hide a post from everyone but its author, or show it again
+export const setPostHidden = async (id: number, hidden: boolean, q: Queryable = db) => {
+  await q.run(`UPDATE posts SET hidden_at = ${hidden ? 'CURRENT_TIMESTAMP' : 'NULL'} WHERE id = ?`, [id]);
+};
+
+// Delete a post and everything hanging off it in one transaction, children
+// first so foreign keys hold. Messages that shared the post keep their text.
+// Returns the post's images so their files can be removed, or null if there
+// was no such post. Runs in `tx` when given, otherwise in a transaction of
+// its own.
+export const deletePost = (id: number | string, tx?: Queryable) => {
+  const remove = async (tx: Queryable): Promise<StoredImageRow[] | null> => {
+    const images = await tx.all<StoredImageRow>(
+      `SELECT image_url, image_variants FROM posts WHERE id = ?
+       UNION ALL
+       SELECT image_url, image_variants FROM post_media WHERE post_id = ?`,
+      [id, id]
+    );
+    const comments = 'SELECT id FROM comments WHERE post_id = ?';
+    await tx.run('DELETE FROM post_hashtags WHERE post_id = ?', [id]);
+    await tx.run('DELETE FROM mentions WHERE post_id = ?', [id]);
+    await tx.run('DELETE FROM notifications WHERE post_id = ?', [id]);
+    await tx.run(`DELETE FROM notifications WHERE comment_id IN (${comments})`, [id]);
+    await tx.run(`DELETE FROM comment_likes WHERE comment_id IN (${comments})`, [id]);
+    await tx.run('DELETE FROM comments WHERE post_id = ?', [id]);
+    await tx.run('DELETE FROM likes WHERE post_id = ?', [id]);
+    await tx.run('DELETE FROM post_media WHERE post_id = ?', [id]);
+    await tx.run('UPDATE messages SET post_id = NULL WHERE post_id = ?', [id]);
+    const { changes } = await tx.run('DELETE FROM posts WHERE id = ?', [id]);
+    return changes > 0 ? images : null;
+  };
+  return tx ? remove(tx) : withTransaction(remove);
+};
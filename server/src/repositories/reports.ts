@@ -0,0 +1,171 @@
+import { db, Queryable } from './db';
+import { ReportRow, ReportTargetKind, ModerationLogRow, UserRow } from './types';
+import { commentVisibleTo, postVisibleTo, findUserVisibility } from './visibility';
+import { PageParams, cursorCondition } from '../utils/pagination';
+
+// A report with its reporter and a preview of what was reported. `author`
+// is the reported account, or the author of the reported post or comment;
+// its columns are null once the target is gone.
+export interface ReportListRow extends ReportRow {
+  reporter_username: string;
+  reporter_avatar: string;
+  post_caption: string | null;
+  post_image_url: string | null;
+  post_image_variants: string | null;
+  post_hidden_at: string | null;
+  comment_content: string | null;
+  comment_post_id: number | null;
+  comment_hidden_at: string | null;
+  author_id: number | null;
+  author_username: string | null;
+  author_avatar: string | null;
+  author_suspended_at: string | null;
+}
+
+export interface ModerationLogListRow extends ModerationLogRow {
+  moderator_username: UserRow['username'];
+}
+
+// What a report or moderation action points at: its id, the account
+// responsible and, for comments, the post they belong to
+export interface ReportTargetRow {
+  id: number;
+  author_id: number;
+  post_id: number | null;
+}
+
+export type NewModerationLogEntry = Omit<ModerationLogRow, 'id' | 'created_at'>;
+
+const REPORT_SELECT = `
+  SELECT reports.*,
+         reporter.username as reporter_username, reporter.avatar as reporter_avatar,
+         posts.caption as post_caption, posts.image_url as post_image_url,
+         posts.image_variants as post_image_variants, posts.hidden_at as post_hidden_at,
+         comments.content as comment_content, comments.post_id as comment_post_id,
+         comments.hidden_at as comment_hidden_at,
+         author.id as author_id, author.username as author_username, author.avatar as author_avatar,
+         author.suspended_at as author_suspended_at
+  FROM reports
+  JOIN users AS reporter ON reporter.id = reports.reporter_id
+  LEFT JOIN posts ON reports.target_type = 'post' AND posts.id = reports.target_id
+  LEFT JOIN comments ON reports.target_type = 'comment' AND comments.id = reports.target_id
+  LEFT JOIN users AS author ON author.id = CASE reports.target_type
+    WHEN 'user' THEN reports.target_id
+    WHEN 'post' THEN posts.user_id
+    ELSE comments.user_id
+  END
+`;
+
+// Look up a target. Undefined when it no longer exists.
+export const findReportTarget = (type: ReportTargetKind, id: number, q: Queryable = db) => {
+  const queries: Record<ReportTargetKind, string> = {
+    post: 'SELECT id, user_id as author_id, NULL as post_id FROM posts WHERE id = ?',
+    comment: 'SELECT id, user_id as author_id, post_id FROM comments WHERE id = ?',
+    user: 'SELECT id, id as author_id, NULL as post_id FROM users WHERE id = ?'
+  };
+  return q.get<ReportTargetRow>(queries[type], [id]);
+};
+
+// Who is responsible for something the reporter can see. Undefined when
+// the target doesn't exist or is hidden from the reporter.
+export const findVisibleAuthorId = async (
+  reporterId: number,
+  type: ReportTargetKind,
+  targetId: number,
+  q: Queryable = db
+): Promise<number | undefined> => {
+  if (type === 'user') {
+    return (await findUserVisibility(reporterId, targetId, q))?.id;
+  }
+
+  const posts = postVisibleTo(reporterId);
+  if (type === 'post') {
+    const post = await q.get<{ user_id: number }>(
+      `SELECT user_id FROM posts WHERE id = ? AND ${posts.sql}`,
+      [targetId, ...posts.params]
+    );
+    return post?.user_id;
+  }
+
+  const comments = commentVisibleTo(reporterId);
+  const comment = await q.get<{ user_id: number }>(
+    `SELECT comments.user_id FROM comments
+     JOIN posts ON posts.id = comments.post_id
+     WHERE comments.id = ? AND ${comments.sql} AND ${posts.sql}`,
+    [targetId, ...comments.params, ...posts.params]
+  );
+  return comment?.user_id;
+};
+
+// The reporter's report about a target that is still open, if any
+export const findOpenReport = (reporterId: number, type: ReportTargetKind, targetId: number, q: Queryable = db) =>
+  q.get<Pick<ReportRow, 'id' | 'status'>>(
+    `SELECT id, status FROM reports
+     WHERE reporter_id = ? AND target_type = ? AND target_id = ? AND status = 'open'`,
+    [reporterId, type, targetId]
+  );
+
+// Returns the new report's id
+export const insertReport = async (
+  report: Pick<ReportRow, 'reporter_id' | 'target_type' | 'target_id' | 'reason' | 'details'>,
+  q: Queryable = db
+) => {
+  const { lastID } = await q.run(
+    'INSERT INTO reports (reporter_id, target_type, target_id, reason, details) VALUES (?, ?, ?, ?, ?)',
+    [report.reporter_id, report.target_type, report.target_id, report.reason, report.details]
+  );
+  return lastID;
+};
+
+export const findReportById = (id: number | string, q: Queryable = db) =>
+  q.get<ReportRow>('SELECT * FROM reports WHERE id = ?', [id]);
+
+// A page of reports with the given status, newest first
+export const listReports = (status: ReportRow['status'], page: PageParams, q: Queryable = db) => {
+  const cursor = cursorCondition('reports', page);
+  return q.all<ReportListRow>(
+    `${REPORT_SELECT}
+     WHERE reports.status = ? AND ${cursor.sql}
+     ORDER BY reports.created_at DESC, reports.id DESC
+     LIMIT ?`,
+    [status, ...cursor.params, page.limit + 1]
+  );
+};
+
+// Close every open report about a target. Returns how many were closed.
+export const closeReports = async (
+  type: ReportTargetKind,
+  targetId: number,
+  status: 'resolved' | 'dismissed',
+  moderatorId: number,
+  q: Queryable = db
+) => {
+  const { changes } = await q.run(
+    `UPDATE reports SET status = ?, resolved_at = CURRENT_TIMESTAMP, resolved_by = ?
+     WHERE target_type = ? AND target_id = ? AND status = 'open'`,
+    [status, moderatorId, type, targetId]
+  );
+  return changes;
+};
+
+export const insertModerationLogEntry = async (entry: NewModerationLogEntry, q: Queryable = db) => {
+  await q.run(
+    `INSERT INTO moderation_log (moderator_id, action, target_type, target_id, report_id, note)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [entry.moderator_id, entry.action, entry.target_type, entry.target_id, entry.report_id, entry.note]
+  );
+};
+
+// A page of the audit log, newest first
+export const listModerationLog = (page: PageParams, q: Queryable = db) => {
+  const cursor = cursorCondition('moderation_log', page);
+  return q.all<ModerationLogListRow>(
+    `SELECT moderation_log.*, users.username as moderator_username
+     FROM moderation_log
+     JOIN users ON users.id = moderation_log.moderator_id
+     WHERE ${cursor.sql}
+     ORDER BY moderation_log.created_at DESC, moderation_log.id DESC
+     LIMIT ?`,
+    [...cursor.params, page.limit + 1]
+  );
+};
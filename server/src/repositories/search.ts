@@ -0,0 +1,69 @@
+import { db, Queryable } from './db';
+import { PostRow, UserRow } from './types';
+import { notBlocked, postVisibleTo } from './visibility';
+
+export type UserSearchRow = Pick<UserRow, 'id' | 'username' | 'avatar' | 'bio'>;
+
+export interface TagSearchRow {
+  name: string;
+  posts_count: number;
+}
+
+export interface PostSearchRow extends PostRow, Pick<UserRow, 'username' | 'avatar'> {
+  // The matching part of the caption
+  snippet: string;
+}
+
+// Accounts matching an FTS5 query, best first. Blocked accounts don't show
+// up, in either direction.
+export const searchUsers = (match: string, limit: number, viewerId: number | undefined, q: Queryable = db) => {
+  const unblocked = notBlocked('users.id', viewerId);
+  return q.all<UserSearchRow>(
+    `SELECT users.id, users.username, users.avatar, users.bio
+     FROM users_fts
+     JOIN users ON users.id = users_fts.rowid
+     WHERE users_fts MATCH ? AND ${unblocked.sql}
+     ORDER BY bm25(users_fts, 10.0, 1.0)
+     LIMIT ?`,
+    [match, ...unblocked.params, limit]
+  );
+};
+
+// Hashtags starting with `prefix`, most used first. Only posts the viewer
+// could see on the tag page count, and tags with none of those are left out.
+export const searchTags = (prefix: string, limit: number, viewerId: number | undefined, q: Queryable = db) => {
+  const escaped = prefix.replace(/[\\%_]/g, c => `\\${c}`);
+  const visibility = postVisibleTo(viewerId);
+  return q.all<TagSearchRow>(
+    `SELECT * FROM (
+       SELECT hashtags.name,
+              (SELECT COUNT(DISTINCT post_id) FROM post_hashtags
+               JOIN posts ON posts.id = post_hashtags.post_id
+               WHERE post_hashtags.hashtag_id = hashtags.id AND post_hashtags.comment_id IS NULL
+                 AND ${visibility.sql}) as posts_count
+       FROM hashtags
+       WHERE hashtags.name LIKE ? ESCAPE '\\'
+     )
+     WHERE posts_count > 0
+     ORDER BY posts_count DESC, name
+     LIMIT ?`,
+    [...visibility.params, `${escaped}%`, limit]
+  );
+};
+
+// Posts whose caption matches an FTS5 query. Captions from private
+// accounts only match for their followers.
+export const searchPosts = (match: string, limit: number, viewerId: number | undefined, q: Queryable = db) => {
+  const visibility = postVisibleTo(viewerId);
+  return q.all<PostSearchRow>(
+    `SELECT posts.*, users.username, users.avatar,
+            snippet(posts_fts, 0, '', '', '…', 12) as snippet
+     FROM posts_fts
+     JOIN posts ON posts.id = posts_fts.rowid
+     JOIN users ON posts.user_id = users.id
+     WHERE posts_fts MATCH ? AND ${visibility.sql}
+     ORDER BY bm25(posts_fts), posts.created_at DESC
+     LIMIT ?`,
+    [match, ...visibility.params, limit]
+  );
+};
@@ -0,0 +1,69 @@
+import { db, Queryable } from './db';
+import { SessionRow, UserRow } from './types';
+
+// Returns the new session's id. It expires `days` from now unless rotated.
+export const insertSession = async (
+  userId: number,
+  tokenHash: string,
+  userAgent: string,
+  days: number,
+  q: Queryable = db
+): Promise<number> => {
+  const { lastID } = await q.run(
+    `INSERT INTO sessions (user_id, token_hash, user_agent, expires_at)
+     VALUES (?, ?, ?, datetime('now', '+' || ? || ' days'))`,
+    [userId, tokenHash, userAgent, days]
+  );
+  return lastID;
+};
+
+// A live session whose current or previous refresh token has this hash
+export const findLiveSessionByToken = (tokenHash: string, q: Queryable = db) =>
+  q.get<SessionRow>(
+    `SELECT * FROM sessions
+     WHERE (token_hash = ? OR previous_token_hash = ?)
+       AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP`,
+    [tokenHash, tokenHash]
+  );
+
+// Swap the session's refresh token and push back its expiry. Returns false
+// when the session no longer has `tokenHash`, i.e. another request rotated
+// it first.
+export const replaceSessionToken = async (
+  id: number,
+  tokenHash: string,
+  nextTokenHash: string,
+  days: number,
+  q: Queryable = db
+) => {
+  const { changes } = await q.run(
+    `UPDATE sessions
+     SET token_hash = ?, previous_token_hash = ?, last_used_at = CURRENT_TIMESTAMP,
+         expires_at = datetime('now', '+' || ? || ' days')
+     WHERE id = ? AND token_hash = ?`,
+    [nextTokenHash, tokenHash, days, id, tokenHash]
+  );
+  return changes > 0;
+};
+
+// The user behind a live session, or undefined once it is revoked or expired
+export const findSessionUser = (sessionId: number, userId: number, q: Queryable = db) =>
+  q.get<Pick<UserRow, 'role' | 'suspended_at'>>(
+    `SELECT users.role, users.suspended_at FROM sessions
+     JOIN users ON users.id = sessions.user_id
+     WHERE sessions.id = ? AND sessions.user_id = ?
+       AND sessions.revoked_at IS NULL AND sessions.expires_at > CURRENT_TIMESTAMP`,
+    [sessionId, userId]
+  );
+
+export const revokeSessionById = async (id: number, q: Queryable = db) => {
+  await q.run('UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND revoked_at IS NULL', [id]);
+};
+
+// Revoke every session of a user, except `keepSessionId` when given
+export const revokeUserSessions = async (userId: number, keepSessionId: number | null = null, q: Queryable = db) => {
+  await q.run(
+    'UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = ? AND id IS NOT ? AND revoked_at IS NULL',
+    [userId, keepSessionId]
+  );
+};
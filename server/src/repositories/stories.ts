@@ -0,0 +1,81 @@
+import { db, withTransaction, Queryable } from './db';
+import { StoredImageRow, UserRow } from './types';
+
+export interface StoryRow extends StoredImageRow {
+  id: number;
+  user_id: number;
+  expires_at: string;
+  created_at: string;
+}
+
+// An active story in a viewer's tray, with its author and whether the
+// viewer has seen it
+export interface StoryTrayRow extends StoryRow, Pick<UserRow, 'username' | 'avatar'> {
+  viewed: number;
+}
+
+export interface StoryViewerRow extends Pick<UserRow, 'id' | 'username' | 'avatar'> {
+  viewed_at: string;
+}
+
+// Active stories from the user and the accounts they follow, oldest first
+export const listStoryTray = (userId: number, q: Queryable = db) =>
+  q.all<StoryTrayRow>(
+    `SELECT stories.id, stories.user_id, stories.image_url, stories.image_variants,
+            stories.created_at, stories.expires_at,
+            users.username, users.avatar,
+            EXISTS(SELECT 1 FROM story_views
+                   WHERE story_views.story_id = stories.id AND story_views.viewer_id = ?) as viewed
+     FROM stories
+     JOIN users ON stories.user_id = users.id
+     WHERE stories.expires_at > CURRENT_TIMESTAMP
+       AND (stories.user_id = ?
+         OR stories.user_id IN (SELECT following_id FROM follows WHERE follower_id = ?))
+     ORDER BY stories.created_at ASC, stories.id ASC`,
+    [userId, userId, userId]
+  );
+
+// Store a story that expires `lifetimeHours` from now and return it
+export const insertStory = async (userId: number, image: StoredImageRow, lifetimeHours: number, q: Queryable = db) => {
+  const { lastID } = await q.run(
+    `INSERT INTO stories (user_id, image_url, image_variants, expires_at)
+     VALUES (?, ?, ?, datetime('now', '+' || ? || ' hours'))`,
+    [userId, image.image_url, image.image_variants, lifetimeHours]
+  );
+  return q.get<StoryRow>('SELECT * FROM stories WHERE id = ?', [lastID]);
+};
+
+// An active story the viewer may watch: their own, or one from an account
+// they follow
+export const findViewableStory = (id: number | string, viewerId: number, q: Queryable = db) =>
+  q.get<Pick<StoryRow, 'id' | 'user_id'>>(
+    `SELECT id, user_id FROM stories
+     WHERE id = ? AND expires_at > CURRENT_TIMESTAMP
+       AND (user_id = ? OR user_id IN (SELECT following_id FROM follows WHERE follower_id = ?))`,
+    [id, viewerId, viewerId]
+  );
+
+export const findStoryOwnedBy = (id: number | string, userId: number, q: Queryable = db) =>
+  q.get<StoryRow>('SELECT * FROM stories WHERE id = ? AND user_id = ?', [id, userId]);
+
+export const insertStoryView = async (storyId: number | string, viewerId: number, q: Queryable = db) => {
+  await q.run('INSERT OR IGNORE INTO story_views (story_id, viewer_id) VALUES (?, ?)', [storyId, viewerId]);
+};
+
+// Who viewed a story, most recent first
+export const listStoryViewers = (storyId: number | string, q: Queryable = db) =>
+  q.all<StoryViewerRow>(
+    `SELECT users.id, users.username, users.avatar, story_views.created_at as viewed_at
+     FROM story_views
+     JOIN users ON story_views.viewer_id = users.id
+     WHERE story_views.story_id = ?
+     ORDER BY story_views.created_at DESC`,
+    [storyId]
+  );
+
+// Delete a story with its views
+export const deleteStory = (id: number | string) =>
+  withTransaction(async (tx) => {
+    await tx.run('DELETE FROM story_views WHERE story_id = ?', [id]);
+    await tx.run('DELETE FROM stories WHERE id = ?', [id]);
+  });
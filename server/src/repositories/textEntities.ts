@@ -0,0 +1,46 @@
+import { withTransaction, Queryable } from './db';
+
+// Selects the resolved mentions of a caption or comment as a JSON array.
+// `commentColumn` is 'NULL' for captions, or the comment id column.
+export const mentionsSelect = (postColumn: string, commentColumn: string) => `
+  (SELECT json_group_array(json_object('user_id', mentioned.id, 'username', mentioned.username))
+   FROM mentions JOIN users AS mentioned ON mentions.user_id = mentioned.id
+   WHERE mentions.post_id = ${postColumn} AND mentions.comment_id IS ${commentColumn}) as mentions
+`;
+
+// Replace the hashtags and mentions stored for a caption (commentId = null)
+// or a comment. Mentions of unknown usernames are dropped. Returns the ids
+// of the users that were mentioned. Runs in `tx` when given, otherwise in a
+// transaction of its own.
+export const replaceTextEntities = (
+  postId: number,
+  commentId: number | null,
+  hashtags: string[],
+  usernames: string[],
+  tx?: Queryable
+): Promise<number[]> => {
+  const replace = async (q: Queryable) => {
+    const users = usernames.length
+      ? await q.all<{ id: number }>(
+        `SELECT id FROM users WHERE username COLLATE NOCASE IN (${usernames.map(() => '?').join(', ')})`,
+        usernames
+      )
+      : [];
+
+    await q.run('DELETE FROM post_hashtags WHERE post_id = ? AND comment_id IS ?', [postId, commentId]);
+    await q.run('DELETE FROM mentions WHERE post_id = ? AND comment_id IS ?', [postId, commentId]);
+    for (const tag of hashtags) {
+      await q.run('INSERT OR IGNORE INTO hashtags (name) VALUES (?)', [tag]);
+      await q.run(
+        `INSERT INTO post_hashtags (post_id, comment_id, hashtag_id)
+         SELECT ?, ?, id FROM hashtags WHERE name = ?`,
+        [postId, commentId, tag]
+      );
+    }
+    for (const user of users) {
+      await q.run('INSERT INTO mentions (post_id, comment_id, user_id) VALUES (?, ?, ?)', [postId, commentId, user.id]);
+    }
+    return users.map(user => user.id);
+  };
+  return tx ? replace(tx) : withTransaction(replace);
+};
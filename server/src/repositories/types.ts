@@ -0,0 +1,113 @@
+// Rows as stored in the database. SQLite has no booleans, so flags are 0/1
+// integers, and timestamps are 'YYYY-MM-DD HH:MM:SS' strings in UTC.
+
+export type UserRole = 'user' | 'admin';
+
+export interface UserRow {
+  id: number;
+  username: string;
+  email: string;
+  // bcrypt hash
+  password: string;
+  avatar: string;
+  bio: string;
+  display_name: string | null;
+  is_private: number;
+  role: UserRole;
+  email_verified_at: string | null;
+  suspended_at: string | null;
+  created_at: string;
+}
+
+export interface PostRow {
+  id: number;
+  user_id: number;
+  image_url: string;
+  caption: string;
+  // JSON array of ImageVariant
+  image_variants: string;
+  likes_count: number;
+  edited_at: string | null;
+  hidden_at: string | null;
+  created_at: string;
+}
+
+// An image stored with a post or one of its carousel items
+export interface StoredImageRow {
+  image_url: string;
+  // JSON array of ImageVariant
+  image_variants: string;
+}
+
+// One image of a carousel post
+export interface PostMediaRow extends StoredImageRow {
+  id: number;
+  post_id: number;
+  position: number;
+  created_at: string;
+}
+
+// A stored image and the account it counts against
+export interface OwnedImageRow extends StoredImageRow {
+  user_id: number;
+  username: string;
+}
+
+export interface CommentRow {
+  id: number;
+  user_id: number;
+  post_id: number;
+  // Set on replies
+  parent_id: number | null;
+  content: string;
+  edited_at: string | null;
+  hidden_at: string | null;
+  created_at: string;
+}
+
+// The state of a like after toggling it
+export interface LikeToggle {
+  liked: boolean;
+  likesCount: number;
+}
+
+export interface SessionRow {
+  id: number;
+  user_id: number;
+  // sha256 of the current refresh token
+  token_hash: string;
+  // sha256 of the refresh token it replaced, to catch reuse
+  previous_token_hash: string | null;
+  user_agent: string;
+  expires_at: string;
+  revoked_at: string | null;
+  last_used_at: string;
+  created_at: string;
+}
+
+export type ReportTargetKind = 'post' | 'comment' | 'user';
+
+export interface ReportRow {
+  id: number;
+  reporter_id: number;
+  target_type: ReportTargetKind;
+  // Points into posts, comments or users depending on target_type
+  target_id: number;
+  reason: string;
+  details: string | null;
+  status: 'open' | 'resolved' | 'dismissed';
+  created_at: string;
+  resolved_at: string | null;
+  resolved_by: number | null;
+}
+
+export interface ModerationLogRow {
+  id: number;
+  moderator_id: number;
+  action: string;
+  target_type: ReportTargetKind;
+  target_id: number;
+  report_id: number | null;
+  note: string | null;
+  created_at: string;
+}
@@ -0,0 +1,21 @@
+import { db, Queryable } from './db';
+import { OwnedImageRow } from './types';
+
+// Every image the database refers to - avatars, post covers, carousel items
+// and stories - with the account that uploaded it. Anything in storage that
+// isn't listed here is an orphan.
+export const findOwnedImages = (q: Queryable = db) =>
+  q.all<OwnedImageRow>(
+    `SELECT images.*, users.username
+     FROM (
+       SELECT id AS user_id, avatar AS image_url, '[]' AS image_variants FROM users
+       UNION ALL
+       SELECT user_id, image_url, image_variants FROM posts
+       UNION ALL
+       SELECT posts.user_id, post_media.image_url, post_media.image_variants
+       FROM post_media JOIN posts ON posts.id = post_media.post_id
+       UNION ALL
+       SELECT user_id, image_url, image_variants FROM stories
+     ) AS images
+     JOIN users ON users.id = images.user_id`
+  );
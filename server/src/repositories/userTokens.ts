@@ -0,0 +1,34 @@
+import { db, withTransaction, Queryable } from './db';
+
+// Store a new token, and use up the user's earlier unused tokens for the
+// same purpose in the same transaction
+export const replaceUserToken = (
+  userId: number,
+  purpose: string,
+  tokenHash: string,
+  lifetimeMinutes: number
+) =>
+  withTransaction(async (tx) => {
+    await tx.run(
+      `UPDATE user_tokens SET used_at = CURRENT_TIMESTAMP
+       WHERE user_id = ? AND purpose = ? AND used_at IS NULL`,
+      [userId, purpose]
+    );
+    await tx.run(
+      `INSERT INTO user_tokens (user_id, purpose, token_hash, expires_at)
+       VALUES (?, ?, ?, datetime('now', '+' || ? || ' minutes'))`,
+      [userId, purpose, tokenHash, lifetimeMinutes]
+    );
+  });
+
+// Mark a live token as used. Returns its user, or undefined when the token
+// is unknown, expired, already used or meant for something else.
+export const useUserToken = async (tokenHash: string, purpose: string, q: Queryable = db) => {
+  const row = await q.get<{ user_id: number }>(
+    `UPDATE user_tokens SET used_at = CURRENT_TIMESTAMP
+     WHERE token_hash = ? AND purpose = ? AND used_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+     RETURNING user_id`,
+    [tokenHash, purpose]
+  );
+  return row?.user_id;
+};
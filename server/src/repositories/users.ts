@@ -0,0 +1,156 @@
+import { db, withTransaction, Queryable } from './db';
+import { UserRow } from './types';
+import { visibleTo } from './visibility';
+import { approveAllFollowRequests } from './follows';
+
+// The signed-in user's own view of their account
+export type AccountRow = Pick<
+  UserRow,
+  'id' | 'username' | 'display_name' | 'email' | 'avatar' | 'bio' | 'is_private' | 'role' | 'email_verified_at'
+>;
+
+// A profile header as another user sees it. The flags describe the
+// viewer's relationship to the account; can_view says whether the viewer
+// may see its posts and follower lists.
+export interface ProfileRow extends Pick<
+  UserRow,
+  'id' | 'username' | 'display_name' | 'avatar' | 'bio' | 'is_private' | 'created_at'
+> {
+  followers_count: number;
+  following_count: number;
+  posts_count: number;
+  is_following: number;
+  follow_requested: number;
+  is_blocked: number;
+  is_muted: number;
+  can_view: number;
+}
+
+// Fields a user can change on their profile. An empty display name clears
+// it; undefined leaves a field as it is.
+export interface ProfileChanges {
+  username?: string;
+  displayName?: string;
+  bio?: string;
+  isPrivate?: boolean;
+}
+
+export const findUserById = (id: number | string, q: Queryable = db) =>
+  q.get<UserRow>('SELECT * FROM users WHERE id = ?', [id]);
+
+// Emails are matched case-insensitively
+export const findUserByEmail = (email: string, q: Queryable = db) =>
+  q.get<UserRow>('SELECT * FROM users WHERE email = ? COLLATE NOCASE', [email]);
+
+// Usernames are unique regardless of case, so @mentions can't match two
+// accounts. `exceptId` leaves out the account being renamed.
+export const isUsernameTaken = async (username: string, exceptId: number | null = null, q: Queryable = db) =>
+  !!(await q.get<{ id: number }>(
+    'SELECT id FROM users WHERE username = ? COLLATE NOCASE AND id IS NOT ?',
+    [username, exceptId]
+  ));
+
+// Returns the new user's id. Rejects with SQLite's UNIQUE constraint error
+// when the username or email is taken.
+export const createUser = async (
+  user: Pick<UserRow, 'username' | 'email' | 'password'>,
+  q: Queryable = db
+): Promise<number> => {
+  const { lastID } = await q.run(
+    'INSERT INTO users (username, email, password) VALUES (?, ?, ?)',
+    [user.username, user.email, user.password]
+  );
+  return lastID;
+};
+
+export const markEmailVerified = async (id: number, q: Queryable = db) => {
+  await q.run(
+    'UPDATE users SET email_verified_at = COALESCE(email_verified_at, CURRENT_TIMESTAMP) WHERE id = ?',
+    [id]
+  );
+};
+
+// Set a new password hash. A reset proves the user can read their email, so
+// it also counts as verifying it. Returns the updated user.
+export const resetPassword = (id: number, passwordHash: string, q: Queryable = db) =>
+  q.get<UserRow>(
+    `UPDATE users SET password = ?, email_verified_at = COALESCE(email_verified_at, CURRENT_TIMESTAMP)
+     WHERE id = ?
+     RETURNING *`,
+    [passwordHash, id]
+  );
+
+export const findAccount = (id: number, q: Queryable = db) =>
+  q.get<AccountRow>(
+    `SELECT id, username, display_name, email, avatar, bio, is_private, role, email_verified_at
+     FROM users WHERE id = ?`,
+    [id]
+  );
+
+// The profile of `id` as `viewerId` sees it. Undefined when the account
+// doesn't exist or blocked the viewer; accounts the viewer blocked are
+// still returned, so they can be unblocked.
+export const findProfile = (id: number | string, viewerId: number | undefined, q: Queryable = db) => {
+  const viewer = viewerId || 0;
+  const visibility = visibleTo('users.id', viewerId);
+  return q.get<ProfileRow>(
+    `SELECT id, username, display_name, avatar, bio, is_private, created_at,
+            (SELECT COUNT(*) FROM follows WHERE follows.following_id = users.id) as followers_count,
+            (SELECT COUNT(*) FROM follows WHERE follows.follower_id = users.id) as following_count,
+            (SELECT COUNT(*) FROM posts WHERE posts.user_id = users.id) as posts_count,
+            EXISTS(SELECT 1 FROM follows WHERE follows.follower_id = ? AND follows.following_id = users.id) as is_following,
+            EXISTS(SELECT 1 FROM follow_requests
+                   WHERE follow_requests.requester_id = ? AND follow_requests.target_id = users.id) as follow_requested,
+            EXISTS(SELECT 1 FROM blocks WHERE blocks.blocker_id = ? AND blocks.blocked_id = users.id) as is_blocked,
+            EXISTS(SELECT 1 FROM mutes WHERE mutes.muter_id = ? AND mutes.muted_id = users.id) as is_muted,
+            ${visibility.sql} as can_view
+     FROM users
+     WHERE id = ?
+       AND NOT EXISTS (SELECT 1 FROM blocks WHERE blocks.blocker_id = users.id AND blocks.blocked_id = ?)`,
+    [viewer, viewer, viewer, viewer, ...visibility.params, id, viewer]
+  );
+};
+
+// Apply profile changes. Going public approves every pending follow request
+// in the same transaction. Rejects with SQLite's UNIQUE constraint error
+// when the username is taken.
+export const updateProfile = (id: number, changes: ProfileChanges) =>
+  withTransaction(async (tx) => {
+    const { username, displayName, bio, isPrivate } = changes;
+    await tx.run(
+      `UPDATE users SET
+         username = COALESCE(?, username),
+         display_name = CASE WHEN ? THEN NULLIF(?, '') ELSE display_name END,
+         bio = COALESCE(?, bio),
+         is_private = COALESCE(?, is_private)
+       WHERE id = ?`,
+      [
+        username ?? null, displayName !== undefined, displayName ?? null, bio ?? null,
+        isPrivate === undefined ? null : Number(isPrivate), id
+      ]
+    );
+    if (isPrivate === false) {
+      await approveAllFollowRequests(id, tx);
+    }
+  });
+
+// Set a new avatar URL. Returns the previous one, so its file can be
+// removed, or undefined when there is no such user.
+export const replaceAvatar = (id: number, avatar: string) =>
+  withTransaction(async (tx) => {
+    const previous = await tx.get<Pick<UserRow, 'avatar'>>('SELECT avatar FROM users WHERE id = ?', [id]);
+    await tx.run('UPDATE users SET avatar = ? WHERE id = ?', [avatar, id]);
+    return previous?.avatar;
+  });
+
+export const updatePassword = async (id: number, passwordHash: string, q: Queryable = db) => {
+  await q.run('UPDATE users SET password = ? WHERE id = ?', [passwordHash, id]);
+};
+
+// Suspending keeps the time of the first suspension
+export const setUserSuspended = async (id: number, suspended: boolean, q: Queryable = db) => {
+  await q.run(
+    `UPDATE users SET suspended_at = ${suspended ? 'COALESCE(suspended_at, CURRENT_TIMESTAMP)' : 'NULL'} WHERE id = ?`,
+    [id]
+  );
+};
@@ -0,0 +1,113 @@
+import { db, Queryable, SqlCondition } from './db';
+import { UserRow, PostRow } from './types';
+
+// Public accounts are visible to everyone. Private accounts are visible to
+// their owner and to approved followers only, and a block hides two users
+// from each other entirely. Everything that lists or touches someone's
+// posts, comments or followers goes through these checks.
+
+// SQL condition that is true unless `viewerId` and the user whose id is in
+// `userColumn` have blocked each other, in either direction
+export const notBlocked = (userColumn: string, viewerId: number | undefined): SqlCondition => {
+  const viewer = viewerId || 0;
+  return {
+    sql: `NOT EXISTS (SELECT 1 FROM blocks
+      WHERE (blocks.blocker_id = ? AND blocks.blocked_id = ${userColumn})
+         OR (blocks.blocker_id = ${userColumn} AND blocks.blocked_id = ?))`,
+    params: [viewer, viewer]
+  };
+};
+
+// SQL condition that is true unless `viewerId` muted the user whose id is
+// in `userColumn`. Muting only affects the home feed.
+export const notMuted = (userColumn: string, viewerId: number | undefined): SqlCondition => ({
+  sql: `NOT EXISTS (SELECT 1 FROM mutes WHERE mutes.muter_id = ? AND mutes.muted_id = ${userColumn})`,
+  params: [viewerId || 0]
+});
+
+// SQL condition that is true when `viewerId` may see content owned by the
+// user whose id is in `userColumn`. Anonymous viewers pass undefined.
+export const visibleTo = (userColumn: string, viewerId: number | undefined): SqlCondition => {
+  const viewer = viewerId || 0;
+  const unblocked = notBlocked(userColumn, viewerId);
+  return {
+    sql: `((${userColumn} = ?
+      OR NOT EXISTS (SELECT 1 FROM users AS owner WHERE owner.id = ${userColumn} AND owner.is_private = 1)
+      OR EXISTS (SELECT 1 FROM follows AS approved
+                 WHERE approved.follower_id = ? AND approved.following_id = ${userColumn}))
+      AND ${unblocked.sql})`,
+    params: [viewer, viewer, ...unblocked.params]
+  };
+};
+
+// SQL condition for the `posts` table: the viewer may see the author's
+// content, and moderators haven't hidden the post (authors still see theirs)
+export const postVisibleTo = (viewerId: number | undefined): SqlCondition => {
+  const visibility = visibleTo('posts.user_id', viewerId);
+  return {
+    sql: `(${visibility.sql} AND (posts.hidden_at IS NULL OR posts.user_id = ?))`,
+    params: [...visibility.params, viewerId || 0]
+  };
+};
+
+// SQL condition for the `comments` table, like postVisibleTo. The post's own
+// visibility is checked separately.
+export const commentVisibleTo = (viewerId: number | undefined): SqlCondition => {
+  const unblocked = notBlocked('comments.user_id', viewerId);
+  return {
+    sql: `(${unblocked.sql} AND (comments.hidden_at IS NULL OR comments.user_id = ?))`,
+    params: [...unblocked.params, viewerId || 0]
+  };
+};
+
+// Whether either user has blocked the other
+export const isBlocked = async (userId: number | undefined, otherUserId: number | string, q: Queryable = db) => {
+  const row = await q.get<{ blocked: number }>(
+    `SELECT EXISTS (SELECT 1 FROM blocks
+       WHERE (blocker_id = ? AND blocked_id = ?) OR (blocker_id = ? AND blocked_id = ?)) as blocked`,
+    [userId || 0, otherUserId, otherUserId, userId || 0]
+  );
+  return !!row?.blocked;
+};
+
+// A user and whether the viewer may see their content
+export interface UserVisibilityRow extends Pick<UserRow, 'id' | 'is_private'> {
+  visible: number;
+}
+
+// Looks up a user and whether the viewer may see their content. The user
+// is undefined when it doesn't exist or when either has blocked the other.
+export const findUserVisibility = (viewerId: number | undefined, userId: number | string, q: Queryable = db) => {
+  const visibility = visibleTo('users.id', viewerId);
+  const unblocked = notBlocked('users.id', viewerId);
+  return q.get<UserVisibilityRow>(
+    `SELECT id, is_private, ${visibility.sql} as visible FROM users WHERE id = ? AND ${unblocked.sql}`,
+    [...visibility.params, userId, ...unblocked.params]
+  );
+};
+
+// Looks up a post the viewer may see. Hidden posts come back as undefined,
+// exactly like missing ones, so their existence isn't revealed.
+export const findVisiblePost = (viewerId: number | undefined, postId: number | string, q: Queryable = db) => {
+  const visibility = postVisibleTo(viewerId);
+  return q.get<Pick<PostRow, 'id' | 'user_id'>>(
+    `SELECT id, user_id FROM posts WHERE id = ? AND ${visibility.sql}`,
+    [postId, ...visibility.params]
+  );
+};
+
+// The owner and followers of a post's author when the account is private.
+// Empty for public accounts, and for posts that don't exist.
+export const findPrivatePostAudience = async (postId: number | string, q: Queryable = db) => {
+  const rows = await q.all<{ user_id: number }>(
+    `SELECT posts.user_id as user_id FROM posts JOIN users ON users.id = posts.user_id
+     WHERE posts.id = ? AND users.is_private = 1
+     UNION
+     SELECT follows.follower_id FROM posts
+     JOIN users ON users.id = posts.user_id
+     JOIN follows ON follows.following_id = posts.user_id
+     WHERE posts.id = ? AND users.is_private = 1`,
+    [postId, postId]
+  );
+  return rows.map(row => row.user_id);
+};
@@ -0,0 +1,182 @@
+import express, { Response } from 'express';
+import { z } from 'zod';
+import { sendError } from '../utils/errors';
+import { authenticate, requireAdmin, AuthRequest } from '../middleware/auth';
+import { validate, id, idParams, pageQuery } from '../middleware/validate';
+import { parsePageParams, buildPage } from '../utils/pagination';
+import { withImageVariants } from '../services/images';
+import {
+  moderate, ModerationError, REPORT_TARGET_TYPES, REPORT_STATUSES, MODERATION_ACTIONS
+} from '../services/moderation';
+import { findReportById, listReports, closeReports, listModerationLog, ReportListRow } from '../repositories/reports';
+import { ReportRow } from '../repositories/types';
+
+const router = express.Router();
+
+const MAX_NOTE_LENGTH = 1000;
+
+// Everything here is for admins only
+router.use(authenticate, requireAdmin);
+
+const note = z.string({ invalid_type_error: 'Note must be text' })
+  .trim()
+  .max(MAX_NOTE_LENGTH, `Notes can be at most ${MAX_NOTE_LENGTH} characters`)
+  .nullish();
+
+const reportsQuery = pageQuery.extend({
+  status: z.enum(REPORT_STATUSES, {
+    errorMap: () => ({ message: `status must be one of ${REPORT_STATUSES.join(', ')}` })
+  }).default('open')
+});
+
+// Resolving a report takes one of these; unhide and unsuspend only make
+// sense as direct actions
+const RESOLUTIONS = ['hide', 'remove', 'warn', 'suspend', 'dismiss'] as const;
+
+const resolveBody = z.object({
+  action: z.enum(RESOLUTIONS, {
+    errorMap: () => ({ message: `action must be one of ${RESOLUTIONS.join(', ')}` })
+  }),
+  note
+});
+
+const actionBody = z.object({
+  action: z.enum(MODERATION_ACTIONS, {
+    errorMap: () => ({ message: `action must be one of ${MODERATION_ACTIONS.join(', ')}` })
+  }),
+  target_type: z.enum(REPORT_TARGET_TYPES, {
+    errorMap: () => ({ message: `target_type must be one of ${REPORT_TARGET_TYPES.join(', ')}` })
+  }),
+  target_id: id('target_id'),
+  note
+});
+
+const sendModerationError = (res: Response, err: unknown, fallback: string) => {
+  if (err instanceof ModerationError) {
+    return sendError(res, err.status, err.message);
+  }
+  sendError(res, 500, fallback);
+};
+
+// target.exists is false once the post, comment or account is gone
+const toReport = (row: ReportListRow) => ({
+  id: row.id,
+  reason: row.reason,
+  details: row.details,
+  status: row.status,
+  created_at: row.created_at,
+  resolved_at: row.resolved_at,
+  reporter: { id: row.reporter_id, username: row.reporter_username, avatar: row.reporter_avatar },
+  target: {
+    type: row.target_type,
+    id: row.target_id,
+    exists: row.author_id !== null,
+    hidden: !!(row.post_hidden_at || row.comment_hidden_at),
+    author: row.author_id === null ? null : {
+      id: row.author_id,
+      username: row.author_username,
+      avatar: row.author_avatar,
+      suspended: !!row.author_suspended_at
+    },
+    post: row.post_image_url
+      ? withImageVariants({ caption: row.post_caption, image_url: row.post_image_url, image_variants: row.post_image_variants })
+      : null,
+    comment: row.comment_content === null ? null : { content: row.comment_content, post_id: row.comment_post_id }
+  }
+});
+
+// Get reports by status, newest first
+router.get('/reports', validate({ query: reportsQuery }), async (req: AuthRequest, res) => {
+  const page = parsePageParams(req);
+  if (!page) {
+    return sendError(res, 400, 'Invalid pagination parameters');
+  }
+
+  const { status } = req.query as z.infer<typeof reportsQuery>;
+  try {
+    const { items, nextCursor } = buildPage(await listReports(status, page), page.limit);
+    res.json({ reports: items.map(toReport), nextCursor });
+  } catch (error) {
+    sendError(res, 500, 'Server error');
+  }
+});
+
+// Act on a report. Every other open report about the same target is closed
+// along with it.
+router.post('/reports/:id/resolve', validate({ params: idParams, body: resolveBody }), async (req: AuthRequest, res) => {
+  const { action, note }: z.infer<typeof resolveBody> = req.body;
+
+  let report: ReportRow | undefined;
+  try {
+    report = await findReportById(req.params.id);
+  } catch (error) {
+    return sendError(res, 500, 'Server error');
+  }
+  if (!report) {
+    return sendError(res, 404, 'Report not found');
+  }
+  if (report.status !== 'open') {
+    return sendError(res, 409, 'This report has already been handled');
+  }
+
+  try {
+    await moderate({
+      moderatorId: req.userId!,
+      action,
+      targetType: report.target_type,
+      targetId: report.target_id,
+      reportId: report.id,
+      note
+    });
+  } catch (error) {
+    return sendModerationError(res, error, 'Failed to resolve report');
+  }
+
+  const status = action === 'dismiss' ? 'dismissed' : 'resolved';
+  try {
+    const closed = await closeReports(report.target_type, report.target_id, status, req.userId!);
+    res.json({ status, reports_closed: closed });
+  } catch (error) {
+    sendError(res, 500, 'Failed to resolve report');
+  }
+});
+
+// Act on a post, comment or account directly, without a report - e.g. to
+// undo an earlier hide or suspension
+router.post('/actions', validate({ body: actionBody }), async (req: AuthRequest, res) => {
+  const { action, target_type: targetType, target_id: targetId, note }: z.infer<typeof actionBody> = req.body;
+
+  if (targetType === 'user' && targetId === req.userId && action === 'suspend') {
+    return sendError(res, 400, 'You cannot suspend yourself');
+  }
+
+  try {
+    await moderate({ moderatorId: req.userId!, action, targetType, targetId, note });
+  } catch (error) {
+    return sendModerationError(res, error, 'Failed to apply action');
+  }
+  res.json({ action, target_type: targetType, target_id: targetId });
+});
+
+// Get the moderation audit log, newest first
+router.get('/audit-log', validate({ query: pageQuery }), async (req: AuthRequest, res) => {
+  const page = parsePageParams(req);
+  if (!page) {
+    return sendError(res, 400, 'Invalid pagination parameters');
+  }
+
+  try {
+    const { items, nextCursor } = buildPage(await listModerationLog(page), page.limit);
+    res.json({
+      entries: items.map(({ moderator_id, moderator_username, ...entry }) => ({
+        ...entry,
+        moderator: { id: moderator_id, username: moderator_username }
+      })),
+      nextCursor
+    });
+  } catch (error) {
+    sendError(res, 500, 'Server error');
+  }
+});
+
+export default router;
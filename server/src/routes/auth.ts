@@ -1,63 +1,282 @@
 import express from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
-import { Database } from '../database';
+import { z } from 'zod';
+import { sendError } from '../utils/errors';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { validate, usernameField, newPasswordField } from '../middleware/validate';
+import { sendTooManyRequests } from '../middleware/rateLimit';
+import {
+  createSession, rotateSession, revokeSession, revokeAllSessions, SessionError
+} from '../services/sessions';
+import { disconnectSessions } from '../services/events';
+import { getMailer } from '../services/mailer';
+import { issueUserToken, consumeUserToken, UserTokenPurpose } from '../services/userTokens';
+import { getLoginLock, recordLoginFailure, clearLoginFailures } from '../services/loginThrottle';
+import {
+  findUserById, findUserByEmail, isUsernameTaken, createUser, markEmailVerified, resetPassword
+} from '../repositories/users';
+import { UserRow } from '../repositories/types';
 
 const router = express.Router();
-const db = Database.getInstance().getDb();
+
+const emailField = z.string({ required_error: 'Email is required' })
+  .trim()
+  .toLowerCase()
+  .min(1, 'Email is required')
+  .email('Enter a valid email address');
+
+const tokenField = (name: string) =>
+  z.string({ required_error: `${name} is required` }).min(1, `${name} is required`);
+
+const registerBody = z.object({
+  username: usernameField(),
+  email: emailField,
+  password: newPasswordField()
+});
+
+const loginBody = z.object({
+  email: emailField,
+  password: z.string({ required_error: 'Password is required' }).min(1, 'Password is required')
+});
+
+const refreshBody = z.object({ refreshToken: tokenField('refreshToken') });
+const verifyBody = z.object({ token: tokenField('Token') });
+const forgotBody = z.object({ email: emailField });
+const resetBody = z.object({ token: tokenField('Token'), password: newPasswordField() });
+
+// Links in emails point at the client app
+const getAppUrl = () => (process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+const ACCOUNT_EMAILS: Record<UserTokenPurpose, { subject: string; path: string; body: string }> = {
+  verify_email: {
+    subject: 'Confirm your email address',
+    path: '/verify-email',
+    body: 'Confirm your email address for Instagram Lite by opening this link within 24 hours:'
+  },
+  reset_password: {
+    subject: 'Reset your password',
+    path: '/reset-password',
+    body: 'Someone asked to reset your Instagram Lite password. If it was you, open this link within an hour:'
+  }
+};
+
+// Issue a token and email its link. Failures are logged rather than
+// surfaced, so they never reveal whether an address has an account.
+const sendAccountEmail = async (user: { id: number; email: string }, purpose: UserTokenPurpose) => {
+  let token: string;
+  try {
+    token = await issueUserToken(user.id, purpose);
+  } catch (err) {
+    return console.error(`Failed to issue ${purpose} token`, err);
+  }
+  const { subject, path, body } = ACCOUNT_EMAILS[purpose];
+  const link = `${getAppUrl()}${path}?token=${token}`;
+  getMailer()
+    .send({ to: user.email, subject, text: `${body}\n\n${link}\n\nIf you didn't ask for this, you can ignore this email.` })
+    .catch(err => console.error(`Failed to send ${purpose} email`, err));
+};
 
 // Register
-router.post('/register', async (req, res) => {
-  const { username, email, password } = req.body;
+router.post('/register', validate({ body: registerBody }), async (req, res) => {
+  const { username, email, password }: z.infer<typeof registerBody> = req.body;
+
+  const usernameTaken = () =>
+    sendError(res, 409, 'That username is taken', 'CONFLICT', { username: 'That username is taken' });
 
+  let userId: number;
   try {
+    if (await isUsernameTaken(username)) {
+      return usernameTaken();
+    }
     const hashedPassword = await bcrypt.hash(password, 10);
-    
-    db.run(
-      'INSERT INTO users (username, email, password) VALUES (?, ?, ?)',
-      [username, email, hashedPassword],
-      function(err) {
-        if (err) {
-          return res.status(400).json({ error: 'Username or email already exists' });
-        }
-
-        const token = jwt.sign({ userId: this.lastID }, process.env.JWT_SECRET || 'secret');
-        res.status(201).json({ 
-          token, 
-          user: { id: this.lastID, username, email }
-        });
-      }
-    );
+    userId = await createUser({ username, email, password: hashedPassword });
   } catch (error) {
-    res.status(500).json({ error: 'Server error' });
+    // The message names the column, e.g. "UNIQUE constraint failed: users.email"
+    const taken = (error as Error).message.match(/UNIQUE constraint failed: users\.(username|email)/)?.[1];
+    if (taken === 'username') {
+      return usernameTaken();
+    }
+    if (taken === 'email') {
+      return sendError(res, 409, 'An account with that email already exists', 'CONFLICT', {
+        email: 'An account with that email already exists'
+      });
+    }
+    return sendError(res, 500, 'Failed to create account');
+  }
+
+  sendAccountEmail({ id: userId, email }, 'verify_email');
+  try {
+    const tokens = await createSession(userId, req.headers['user-agent']);
+    res.status(201).json({ 
+      ...tokens, 
+      user: { id: userId, username, email, email_verified: false }
+    });
+  } catch (error) {
+    sendError(res, 500, 'Server error');
   }
 });
 
-// Login
-router.post('/login', (req, res) => {
-  const { email, password } = req.body;
+// Login - repeated wrong passwords lock the account for a while (see loginThrottle)
+router.post('/login', validate({ body: loginBody }), async (req, res) => {
+  const { email, password }: z.infer<typeof loginBody> = req.body;
 
-  db.get('SELECT * FROM users WHERE email = ?', [email], async (err, user: any) => {
-    if (err || !user) {
-      return res.status(401).json({ error: 'Invalid credentials' });
-    }
+  const lockedForMs = await getLoginLock(email).catch(() => 0);
+  if (lockedForMs > 0) {
+    const minutes = Math.ceil(lockedForMs / 60000);
+    return sendTooManyRequests(
+      res,
+      lockedForMs,
+      `Too many failed login attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`,
+      'ACCOUNT_LOCKED'
+    );
+  }
 
-    const isValid = await bcrypt.compare(password, user.password);
-    if (!isValid) {
-      return res.status(401).json({ error: 'Invalid credentials' });
-    }
+  let user: UserRow | undefined;
+  try {
+    user = await findUserByEmail(email);
+  } catch (error) {
+    return sendError(res, 500, 'Server error');
+  }
+  if (!user || !(await bcrypt.compare(password, user.password))) {
+    await recordLoginFailure(email).catch(err => console.error('Failed to record login failure', err));
+    return sendError(res, 401, 'Incorrect email or password', 'INVALID_CREDENTIALS');
+  }
+  clearLoginFailures(email).catch(err => console.error('Failed to clear login failures', err));
+
+  if (user.suspended_at) {
+    return sendError(res, 403, 'Your account has been suspended', 'ACCOUNT_SUSPENDED');
+  }
 
-    const token = jwt.sign({ userId: user.id }, process.env.JWT_SECRET || 'secret');
+  try {
+    const tokens = await createSession(user.id, req.headers['user-agent']);
     res.json({ 
-      token, 
+      ...tokens, 
       user: { 
         id: user.id, 
         username: user.username, 
+        display_name: user.display_name,
         email: user.email,
-        avatar: user.avatar
+        avatar: user.avatar,
+        role: user.role,
+        email_verified: !!user.email_verified_at
       }
     });
-  });
+  } catch (error) {
+    sendError(res, 500, 'Server error');
+  }
+});
+
+// Refresh - trade a refresh token for a new access/refresh token pair
+router.post('/refresh', validate({ body: refreshBody }), async (req, res) => {
+  const { refreshToken }: z.infer<typeof refreshBody> = req.body;
+
+  try {
+    res.json(await rotateSession(refreshToken));
+  } catch (error) {
+    if (error instanceof SessionError) {
+      return sendError(res, 401, error.message, 'INVALID_TOKEN');
+    }
+    sendError(res, 500, 'Server error');
+  }
+});
+
+// Logout - end the current session
+router.post('/logout', authenticate, async (req: AuthRequest, res) => {
+  try {
+    await revokeSession(req.sessionId!);
+  } catch (error) {
+    return sendError(res, 500, 'Failed to log out');
+  }
+  disconnectSessions(req.userId!, req.sessionId);
+  res.json({ message: 'Logged out' });
+});
+
+// Logout everywhere - end every session of the current user
+router.post('/logout-all', authenticate, async (req: AuthRequest, res) => {
+  try {
+    await revokeAllSessions(req.userId!);
+  } catch (error) {
+    return sendError(res, 500, 'Failed to log out');
+  }
+  disconnectSessions(req.userId!);
+  res.json({ message: 'Logged out of all devices' });
+});
+
+// Verify email - confirm the address using the token from the verification email
+router.post('/verify', validate({ body: verifyBody }), async (req, res) => {
+  const { token }: z.infer<typeof verifyBody> = req.body;
+
+  try {
+    const userId = await consumeUserToken(token, 'verify_email');
+    if (!userId) {
+      return sendError(res, 400, 'This link is invalid or has expired', 'INVALID_TOKEN');
+    }
+    await markEmailVerified(userId);
+    res.json({ message: 'Email verified' });
+  } catch (error) {
+    sendError(res, 500, 'Server error');
+  }
+});
+
+// Resend the verification email to the current user
+router.post('/verify/resend', authenticate, async (req: AuthRequest, res) => {
+  const user = await findUserById(req.userId!).catch(() => undefined);
+  if (!user) {
+    return sendError(res, 404, 'User not found');
+  }
+  if (user.email_verified_at) {
+    return sendError(res, 400, 'Email is already verified');
+  }
+  sendAccountEmail(user, 'verify_email');
+  res.json({ message: 'Verification email sent' });
+});
+
+// Forgot password - email a reset link. The response is the same whether or
+// not the address has an account.
+router.post('/forgot', validate({ body: forgotBody }), (req, res) => {
+  const { email }: z.infer<typeof forgotBody> = req.body;
+
+  findUserByEmail(email)
+    .then((user) => {
+      if (user) {
+        sendAccountEmail(user, 'reset_password');
+      }
+      res.json({ message: 'If an account exists for that email, a reset link is on its way' });
+    })
+    .catch(() => sendError(res, 500, 'Server error'));
+});
+
+// Reset password - set a new password using the token from the reset email.
+// Every existing session is ended, and the email counts as verified since
+// the user just proved they can read it.
+router.post('/reset', validate({ body: resetBody }), async (req, res) => {
+  const { token, password }: z.infer<typeof resetBody> = req.body;
+
+  const hashedPassword = await bcrypt.hash(password, 10);
+
+  let userId: number | null;
+  try {
+    userId = await consumeUserToken(token, 'reset_password');
+  } catch (error) {
+    return sendError(res, 500, 'Server error');
+  }
+  if (!userId) {
+    return sendError(res, 400, 'This link is invalid or has expired', 'INVALID_TOKEN');
+  }
+
+  try {
+    const user = await resetPassword(userId, hashedPassword);
+    if (!user) {
+      return sendError(res, 500, 'Failed to reset password');
+    }
+    await revokeAllSessions(userId);
+    disconnectSessions(userId);
+    // The new password works straight away, even if the account was locked
+    clearLoginFailures(user.email).catch(err => console.error('Failed to clear login failures', err));
+    res.json({ message: 'Password updated. You can now log in.' });
+  } catch (error) {
+    sendError(res, 500, 'Failed to reset password');
+  }
 });
 
 export default router;
\ No newline at end of file
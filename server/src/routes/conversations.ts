@@ -0,0 +1,226 @@
+import express, { Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { sendError } from '../utils/errors';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { validate, id, idParams, pageQuery } from '../middleware/validate';
+import { parsePageParams, buildPage } from '../utils/pagination';
+import { withImageVariants } from '../services/images';
+import { publish, LiveEvent } from '../services/events';
+import { isBlocked, findVisiblePost } from '../repositories/visibility';
+import { findUserById } from '../repositories/users';
+import {
+  listConversations, findConversation, countUnreadConversations, isConversationMember,
+  isConversationBlocked, findMemberIds, findConversationBetween, createConversation, listMessages,
+  findMessage, insertMessage, markConversationRead, ConversationSummaryRow, MessageWithPostRow
+} from '../repositories/conversations';
+
+const router = express.Router();
+
+const MAX_MESSAGE_LENGTH = 2000;
+
+const startBody = z.object({ user_id: id('user_id') });
+
+const messageBody = z.object({
+  content: z.string({ invalid_type_error: 'Message must be text' })
+    .trim()
+    .max(MAX_MESSAGE_LENGTH, `Messages can be at most ${MAX_MESSAGE_LENGTH} characters`)
+    .default(''),
+  post_id: id('post_id').nullish()
+}).refine(body => body.content || body.post_id, {
+  message: 'Message content or post_id is required',
+  path: ['content']
+});
+
+const toConversation = (row: ConversationSummaryRow) => ({
+  id: row.id,
+  updated_at: row.updated_at,
+  user: { id: row.user_id, username: row.username, avatar: row.avatar },
+  other_last_read_message_id: row.other_last_read_message_id,
+  unread_count: row.unread_count,
+  last_message: row.last_message_id
+    ? {
+        id: row.last_message_id,
+        sender_id: row.last_sender_id,
+        content: row.last_content,
+        post_id: row.last_post_id,
+        created_at: row.last_created_at
+      }
+    : null
+});
+
+// shared_post is null when the message has no post, or the post was deleted
+// or belongs to a private account the viewer doesn't follow
+const toMessage = ({
+  post_user_id, post_caption, post_image_url, post_image_variants, post_username, ...message
+}: MessageWithPostRow) => ({
+  ...message,
+  shared_post: post_image_url
+    ? withImageVariants({
+        id: message.post_id,
+        user_id: post_user_id,
+        username: post_username,
+        caption: post_caption,
+        image_url: post_image_url,
+        image_variants: post_image_variants
+      })
+    : null
+});
+
+// Only members may read or write a conversation
+const requireMember = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!(await isConversationMember(req.params.id, req.userId!))) {
+      return sendError(res, 404, 'Conversation not found');
+    }
+  } catch (error) {
+    return sendError(res, 404, 'Conversation not found');
+  }
+  next();
+};
+
+// Existing conversations stay readable after a block, but no new messages
+// can be sent in either direction
+const rejectIfBlocked = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (await isConversationBlocked(req.params.id, req.userId!)) {
+      return sendError(res, 403, 'You cannot message this account');
+    }
+  } catch (error) {
+    return sendError(res, 500, 'Server error');
+  }
+  next();
+};
+
+const publishToMembers = (conversationId: number, event: LiveEvent) => {
+  findMemberIds(conversationId)
+    .then(memberIds => publish(event, memberIds))
+    .catch(err => console.error('Failed to publish conversation event', err));
+};
+
+// Get the caller's conversations, most recently active first. Conversations
+// without messages are left out.
+router.get('/', authenticate, async (req: AuthRequest, res) => {
+  try {
+    res.json((await listConversations(req.userId!)).map(toConversation));
+  } catch (error) {
+    sendError(res, 500, 'Server error');
+  }
+});
+
+// Get the number of conversations with unread messages, for the badge
+router.get('/unread-count', authenticate, async (req: AuthRequest, res) => {
+  try {
+    res.json({ count: await countUnreadConversations(req.userId!) });
+  } catch (error) {
+    sendError(res, 500, 'Server error');
+  }
+});
+
+// Start a conversation with another user, or return the existing one
+router.post('/', authenticate, validate({ body: startBody }), async (req: AuthRequest, res) => {
+  const { user_id: userId }: z.infer<typeof startBody> = req.body;
+  if (userId === req.userId) {
+    return sendError(res, 400, 'You cannot message yourself');
+  }
+
+  const user = await findUserById(userId).catch(() => undefined);
+  if (!user) {
+    return sendError(res, 404, 'User not found');
+  }
+
+  try {
+    if (await isBlocked(req.userId!, userId)) {
+      return sendError(res, 403, 'You cannot message this account');
+    }
+
+    const existingId = await findConversationBetween(req.userId!, userId);
+    if (existingId) {
+      return res.json({ id: existingId });
+    }
+  } catch (error) {
+    return sendError(res, 500, 'Server error');
+  }
+
+  try {
+    res.status(201).json({ id: await createConversation(req.userId!, userId) });
+  } catch (error) {
+    sendError(res, 500, 'Failed to start conversation');
+  }
+});
+
+// Get a single conversation
+router.get('/:id', authenticate, validate({ params: idParams }), requireMember, async (req: AuthRequest, res) => {
+  const row = await findConversation(req.userId!, req.params.id).catch(() => undefined);
+  if (!row) {
+    return sendError(res, 404, 'Conversation not found');
+  }
+  res.json(toConversation(row));
+});
+
+// Get message history - newest first, the client reverses each page
+router.get('/:id/messages', authenticate, validate({ params: idParams, query: pageQuery }), requireMember, async (req: AuthRequest, res) => {
+  const page = parsePageParams(req);
+  if (!page) {
+    return sendError(res, 400, 'Invalid pagination parameters');
+  }
+
+  try {
+    const { items, nextCursor } = buildPage(await listMessages(req.params.id, req.userId!, page), page.limit);
+    res.json({ messages: items.map(toMessage), nextCursor });
+  } catch (error) {
+    sendError(res, 500, 'Server error');
+  }
+});
+
+// Send a message - text, a shared post by id, or both
+router.post('/:id/messages', authenticate, validate({ params: idParams, body: messageBody }), requireMember, rejectIfBlocked, async (req: AuthRequest, res) => {
+  const conversationId = Number(req.params.id);
+  const { content, post_id }: z.infer<typeof messageBody> = req.body;
+  const postId = post_id ?? null;
+
+  // Only posts the sender can see may be shared
+  if (postId !== null) {
+    const post = await findVisiblePost(req.userId, postId).catch(() => undefined);
+    if (!post) {
+      return sendError(res, 404, 'Post not found');
+    }
+  }
+
+  let messageId: number;
+  try {
+    messageId = await insertMessage({ conversation_id: conversationId, sender_id: req.userId!, content, post_id: postId });
+  } catch (error) {
+    return sendError(res, 500, 'Failed to send message');
+  }
+  publishToMembers(conversationId, {
+    type: 'message:created',
+    data: { conversation_id: conversationId, message_id: messageId, sender_id: req.userId! }
+  });
+
+  const message = await findMessage(messageId, req.userId!).catch(() => undefined);
+  if (!message) {
+    return sendError(res, 500, 'Server error');
+  }
+  res.status(201).json(toMessage(message));
+});
+
+// Mark every message in the conversation as read by the caller
+router.post('/:id/read', authenticate, validate({ params: idParams }), requireMember, async (req: AuthRequest, res) => {
+  const conversationId = Number(req.params.id);
+
+  try {
+    const { lastReadMessageId, changed } = await markConversationRead(conversationId, req.userId!);
+    // Let the other member show a "Seen" receipt
+    if (changed) {
+      publishToMembers(conversationId, {
+        type: 'conversation:read',
+        data: { conversation_id: conversationId, user_id: req.userId!, last_read_message_id: lastReadMessageId }
+      });
+    }
+    res.json({ last_read_message_id: lastReadMessageId });
+  } catch (error) {
+    sendError(res, 500, 'Failed to mark conversation as read');
+  }
+});
+
+export default router;
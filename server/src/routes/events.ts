@@ -0,0 +1,39 @@
+import express, { Response, NextFunction } from 'express';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { subscribe } from '../services/events';
+
+const router = express.Router();
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL = 25000;
+
+// Browsers' EventSource cannot set headers, so the token may also be
+// passed as ?token=
+const tokenFromQuery = (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.headers.authorization && typeof req.query.token === 'string') {
+    req.headers.authorization = `Bearer ${req.query.token}`;
+  }
+  next();
+};
+
+// Open a Server-Sent Events stream
+router.get('/', tokenFromQuery, authenticate, (req: AuthRequest, res) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+  res.write('retry: 5000\n\n');
+
+  const unsubscribe = subscribe(req.userId!, req.sessionId!, res);
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+export default router;
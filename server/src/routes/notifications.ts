@@ -0,0 +1,72 @@
+import express from 'express';
+import { z } from 'zod';
+import { sendError } from '../utils/errors';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { validate, pageQuery } from '../middleware/validate';
+import { parsePageParams, buildPage } from '../utils/pagination';
+import { withImageVariants } from '../services/images';
+import {
+  listNotificationGroups, findGroupActors, countUnreadGroups, markNotificationsRead
+} from '../repositories/notifications';
+
+const router = express.Router();
+
+// Number of actors named in a grouped notification; the rest are "N others"
+const ACTORS_SHOWN = 2;
+
+const readBody = z.object({
+  group_key: z.string({ invalid_type_error: 'group_key must be a string' }).min(1).optional()
+});
+
+// Get notifications, newest first. Notifications sharing a group_key are
+// returned as one entry with the most recent actors and a total count.
+router.get('/', authenticate, validate({ query: pageQuery }), async (req: AuthRequest, res) => {
+  const page = parsePageParams(req);
+  if (!page) {
+    return sendError(res, 400, 'Invalid pagination parameters');
+  }
+
+  try {
+    const { items, nextCursor } = buildPage(await listNotificationGroups(req.userId!, page), page.limit);
+    if (items.length === 0) {
+      return res.json({ notifications: [], nextCursor });
+    }
+
+    const actorRows = await findGroupActors(req.userId!, items.map(item => item.group_key));
+    const notifications = items.map(({ image_url, image_variants, unread_count, ...item }) => ({
+      ...item,
+      read: unread_count === 0,
+      post: image_url ? withImageVariants({ image_url, image_variants }) : null,
+      actors: actorRows
+        .filter(actor => actor.group_key === item.group_key)
+        .slice(0, ACTORS_SHOWN)
+        .map(({ id, username, avatar }) => ({ id, username, avatar }))
+    }));
+    res.json({ notifications, nextCursor });
+  } catch (error) {
+    sendError(res, 500, 'Server error');
+  }
+});
+
+// Get the number of unread notification groups, for the badge
+router.get('/unread-count', authenticate, async (req: AuthRequest, res) => {
+  try {
+    res.json({ count: await countUnreadGroups(req.userId!) });
+  } catch (error) {
+    sendError(res, 500, 'Server error');
+  }
+});
+
+// Mark notifications as read - a single group when group_key is given,
+// otherwise all of them
+router.post('/read', authenticate, validate({ body: readBody }), async (req: AuthRequest, res) => {
+  const { group_key: groupKey }: z.infer<typeof readBody> = req.body;
+
+  try {
+    res.json({ marked: await markNotificationsRead(req.userId!, groupKey ?? null) });
+  } catch (error) {
+    sendError(res, 500, 'Failed to mark notifications as read');
+  }
+});
+
+export default router;
@@ -1,141 +1,396 @@
-import express from 'express';
-import multer from 'multer';
-import path from 'path';
-import { Database } from '../database';
-import { authenticate, AuthRequest } from '../middleware/auth';
+import express, { Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { sendError } from '../utils/errors';
+import { authenticate, optionalAuthenticate, AuthRequest } from '../middleware/auth';
+import { validate, id, idParams, pageQuery, requiredText } from '../middleware/validate';
+import { parsePageParams, buildPage } from '../utils/pagination';
+import { imageUpload } from '../middleware/upload';
+import { processImage, removeImage, ImageUploadError, ProcessedImage } from '../services/images';
+import { attachMedia, MAX_MEDIA_PER_POST } from '../services/media';
+import { indexTextEntities, withMentions } from '../services/textEntities';
+import { notify, removeNotification } from '../services/notifications';
+import { publish } from '../services/events';
+import { deletePost, deleteComment } from '../services/removal';
+import { postAudience } from '../services/visibility';
+import {
+  findPostById, findPostOwnedBy, listVisiblePosts, listFeedPosts, insertPost, insertPostMedia,
+  updatePostCaption, findPostCaption
+} from '../repositories/posts';
+import {
+  findCommentDeletableBy, listComments, findVisibleComment, findThreadRoot, insertComment,
+  updateCommentContent, findCommentText, CommentListRow
+} from '../repositories/comments';
+import { togglePostLike, toggleCommentLike } from '../repositories/likes';
+import { findFollowerIds } from '../repositories/follows';
+import { withTransaction } from '../repositories/db';
+import { findVisiblePost } from '../repositories/visibility';
+import { CommentRow } from '../repositories/types';
 
 const router = express.Router();
-const db = Database.getInstance().getDb();
 
-// Multer configuration for image uploads
-const storage = multer.diskStorage({
-  destination: 'uploads/',
-  filename: (req, file, cb) => {
-    cb(null, `${Date.now()}-${file.originalname}`);
+const MAX_CAPTION_LENGTH = 2200;
+const MAX_COMMENT_LENGTH = 2200;
+
+const caption = z.string({ required_error: 'Caption is required', invalid_type_error: 'Caption must be text' })
+  .max(MAX_CAPTION_LENGTH, `Captions can be at most ${MAX_CAPTION_LENGTH} characters`);
+
+const createPostBody = z.object({ caption: caption.default('') });
+const editPostBody = z.object({ caption });
+
+const commentParams = z.object({ id: id(), commentId: id('commentId') });
+const commentBody = z.object({
+  content: requiredText('Comment', MAX_COMMENT_LENGTH),
+  parent_id: id('parent_id').nullish()
+});
+const editCommentBody = z.object({ content: requiredText('Comment', MAX_COMMENT_LENGTH) });
+
+// Posts of private accounts don't exist for anyone but the owner and
+// approved followers
+const requireVisiblePost = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!(await findVisiblePost(req.userId, req.params.id))) {
+      return sendError(res, 404, 'Post not found');
+    }
+  } catch (error) {
+    return sendError(res, 500, 'Server error');
+  }
+  next();
+};
+
+// Get all posts the caller may see
+router.get('/', optionalAuthenticate, validate({ query: pageQuery }), async (req: AuthRequest, res) => {
+  const page = parsePageParams(req);
+  if (!page) {
+    return sendError(res, 400, 'Invalid pagination parameters');
+  }
+
+  try {
+    const { items, nextCursor } = buildPage(await listVisiblePosts(req.userId, page), page.limit);
+    res.json({ posts: await attachMedia(items.map(withMentions)), nextCursor });
+  } catch (error) {
+    sendError(res, 500, 'Server error');
   }
 });
-const upload = multer({ storage });
-
-// Get all posts
-router.get('/', (req, res) => {
-  const query = `
-    SELECT posts.*, users.username, users.avatar,
-           (SELECT COUNT(*) FROM likes WHERE likes.post_id = posts.id) as likes_count
-    FROM posts
-    JOIN users ON posts.user_id = users.id
-    ORDER BY posts.created_at DESC
-  `;
-
-  db.all(query, [], (err, posts) => {
-    if (err) {
-      return res.status(500).json({ error: 'Server error' });
-    }
-    res.json(posts);
+
+// Get home feed - posts from followed accounts plus the caller's own,
+// leaving out accounts the caller muted
+router.get('/feed', authenticate, validate({ query: pageQuery }), async (req: AuthRequest, res) => {
+  const page = parsePageParams(req);
+  if (!page) {
+    return sendError(res, 400, 'Invalid pagination parameters');
+  }
+
+  try {
+    const { items, nextCursor } = buildPage(await listFeedPosts(req.userId!, page), page.limit);
+    res.json({ posts: await attachMedia(items.map(withMentions)), nextCursor });
+  } catch (error) {
+    sendError(res, 500, 'Server error');
+  }
+});
+
+// Create post - accepts up to MAX_MEDIA_PER_POST images, in carousel order
+router.post('/', authenticate, imageUpload('images', MAX_MEDIA_PER_POST), validate({ body: createPostBody }), async (req: AuthRequest, res) => {
+  const { caption }: z.infer<typeof createPostBody> = req.body;
+  const files = (req.files as Express.Multer.File[] | undefined) || [];
+
+  if (files.length === 0) {
+    return sendError(res, 400, 'At least one image is required');
+  }
+
+  const images: ProcessedImage[] = [];
+  try {
+    for (const file of files) {
+      images.push(await processImage(file.buffer));
+    }
+  } catch (error) {
+    await Promise.all(images.map(removeImage));
+    if (error instanceof ImageUploadError) {
+      return sendError(res, error.status, error.message);
+    }
+    return sendError(res, 500, 'Failed to process image');
+  }
+
+  // The first image doubles as the post's cover for older clients
+  const { imageUrl, variants } = images[0];
+  const stored = images.map(image => ({ image_url: image.imageUrl, image_variants: JSON.stringify(image.variants) }));
+
+  // The post, its carousel and its caption's tags and mentions are saved
+  // together; if any of it fails nothing is kept, images included
+  let postId: number;
+  let mentionedUserIds: number[];
+  try {
+    ({ postId, mentionedUserIds } = await withTransaction(async (tx) => {
+      const postId = await insertPost(req.userId!, stored[0], caption, tx);
+      await insertPostMedia(postId, stored, tx);
+      return { postId, mentionedUserIds: await indexTextEntities(postId, null, caption, tx) };
+    }));
+  } catch (error) {
+    await Promise.all(images.map(removeImage));
+    return sendError(res, 500, 'Failed to create post');
+  }
+  mentionedUserIds.forEach(userId => notify(userId, req.userId!, 'mention', { postId }));
+
+  // Followers see a "new posts" prompt in their feed
+  findFollowerIds(req.userId!)
+    .then(followerIds => publish({ type: 'post:created', data: { post_id: postId, user_id: req.userId! } }, followerIds))
+    .catch(err => console.error('Failed to announce new post', err));
+  res.status(201).json({
+    id: postId,
+    imageUrl,
+    caption,
+    variants,
+    media: images.map((image, position) => ({
+      position,
+      image_url: image.imageUrl,
+      variants: image.variants
+    }))
   });
 });
 
-// Create post
-router.post('/', authenticate, upload.single('image'), (req: AuthRequest, res) => {
-  const { caption } = req.body;
-  const imageUrl = req.file ? `/uploads/${req.file.filename}` : '';
-
-  db.run(
-    'INSERT INTO posts (user_id, image_url, caption) VALUES (?, ?, ?)',
-    [req.userId, imageUrl, caption],
-    function(err) {
-      if (err) {
-        return res.status(500).json({ error: 'Failed to create post' });
-      }
-      res.status(201).json({ id: this.lastID, imageUrl, caption });
+// Edit post caption
+router.patch('/:id', authenticate, validate({ params: idParams, body: editPostBody }), async (req: AuthRequest, res) => {
+  const postId = Number(req.params.id);
+  const { caption }: z.infer<typeof editPostBody> = req.body;
+
+  try {
+    // The caption and its tags and mentions change together
+    const mentionedUserIds = await withTransaction(async (tx) =>
+      (await updatePostCaption(postId, req.userId!, caption, tx))
+        ? indexTextEntities(postId, null, caption, tx)
+        : null
+    );
+    if (!mentionedUserIds) {
+      return sendError(res, 404, 'Post not found or unauthorized');
     }
-  );
+    mentionedUserIds.forEach(userId => notify(userId, req.userId!, 'mention', { postId }));
+
+    const post = await findPostCaption(postId);
+    if (!post) {
+      return sendError(res, 404, 'Post not found or unauthorized');
+    }
+    res.json(withMentions(post));
+  } catch (error) {
+    sendError(res, 500, 'Failed to update post');
+  }
 });
 
 // Delete post - MUST come BEFORE /:id/like and /:id/comments routes
-router.delete('/:id', authenticate, (req: AuthRequest, res) => {
+router.delete('/:id', authenticate, validate({ params: idParams }), async (req: AuthRequest, res) => {
   const postId = req.params.id;
 
-  // Check if user owns the post
-  db.get(
-    'SELECT * FROM posts WHERE id = ? AND user_id = ?',
-    [postId, req.userId],
-    (err, post) => {
-      if (err || !post) {
-        return res.status(404).json({ error: 'Post not found or unauthorized' });
-      }
+  try {
+    // Check if user owns the post
+    const post = await findPostOwnedBy(postId, req.userId!);
+    if (!post) {
+      return sendError(res, 404, 'Post not found or unauthorized');
+    }
 
-      // Delete related likes and comments first
-      db.run('DELETE FROM likes WHERE post_id = ?', [postId]);
-      db.run('DELETE FROM comments WHERE post_id = ?', [postId]);
-      
-      // Delete the post
-      db.run('DELETE FROM posts WHERE id = ?', [postId], (err) => {
-        if (err) {
-          return res.status(500).json({ error: 'Failed to delete post' });
-        }
-        res.json({ message: 'Post deleted successfully' });
-      });
-    }
-  );
+    await deletePost(postId);
+    res.json({ message: 'Post deleted successfully' });
+  } catch (error) {
+    sendError(res, 500, 'Failed to delete post');
+  }
 });
 
 // Like/Unlike post
-router.post('/:id/like', authenticate, (req: AuthRequest, res) => {
+router.post('/:id/like', authenticate, validate({ params: idParams }), requireVisiblePost, async (req: AuthRequest, res) => {
   const postId = req.params.id;
 
-  // Check if already liked
-  db.get(
-    'SELECT * FROM likes WHERE user_id = ? AND post_id = ?',
-    [req.userId, postId],
-    (err, like) => {
-      if (like) {
-        // Unlike
-        db.run('DELETE FROM likes WHERE user_id = ? AND post_id = ?', [req.userId, postId]);
-        res.json({ liked: false });
-      } else {
-        // Like
-        db.run('INSERT INTO likes (user_id, post_id) VALUES (?, ?)', [req.userId, postId]);
-        res.json({ liked: true });
+  try {
+    const { liked, likesCount } = await togglePostLike(req.userId!, postId);
+
+    if (liked) {
+      const post = await findPostById(postId);
+      if (post) {
+        notify(post.user_id, req.userId!, 'like', { postId: Number(postId) });
       }
+    } else {
+      removeNotification(req.userId!, 'like', { postId });
     }
-  );
+
+    // Everyone viewing the post gets the new count
+    publish({ type: 'post:liked', data: { post_id: Number(postId), likes_count: likesCount } }, await postAudience(postId));
+    res.json({ liked, likes_count: likesCount });
+  } catch (error) {
+    sendError(res, 500, 'Failed to like post');
+  }
 });
 
-// Get comments for a post
-router.get('/:id/comments', (req, res) => {
-  const postId = req.params.id;
+const withLikedFlag = (comment: CommentListRow) => ({ ...withMentions(comment), liked: !!comment.liked });
 
-  db.all(
-    `SELECT comments.*, users.username, users.avatar
-     FROM comments
-     JOIN users ON comments.user_id = users.id
-     WHERE comments.post_id = ?
-     ORDER BY comments.created_at ASC`,
-    [postId],
-    (err, comments) => {
-      if (err) {
-        return res.status(500).json({ error: 'Server error' });
-      }
-      res.json(comments);
+// Get top-level comments for a post - newest first, the client reverses each page
+router.get(
+  '/:id/comments',
+  optionalAuthenticate,
+  validate({ params: idParams, query: pageQuery }),
+  requireVisiblePost,
+  async (req: AuthRequest, res) => {
+    const page = parsePageParams(req);
+    if (!page) {
+      return sendError(res, 400, 'Invalid pagination parameters');
+    }
+
+    try {
+      const rows = await listComments(req.params.id, null, req.userId, page);
+      const { items, nextCursor } = buildPage(rows, page.limit);
+      res.json({ comments: items.map(withLikedFlag), nextCursor });
+    } catch (error) {
+      sendError(res, 500, 'Server error');
+    }
+  }
+);
+
+// Get replies to a comment - newest first, like top-level comments
+router.get(
+  '/:id/comments/:commentId/replies',
+  optionalAuthenticate,
+  validate({ params: commentParams, query: pageQuery }),
+  requireVisiblePost,
+  async (req: AuthRequest, res) => {
+    const { id: postId, commentId } = req.params;
+    const page = parsePageParams(req);
+    if (!page) {
+      return sendError(res, 400, 'Invalid pagination parameters');
+    }
+
+    try {
+      const rows = await listComments(postId, commentId, req.userId, page);
+      const { items, nextCursor } = buildPage(rows, page.limit);
+      res.json({ comments: items.map(withLikedFlag), nextCursor });
+    } catch (error) {
+      sendError(res, 500, 'Server error');
+    }
+  }
+);
+
+// Add comment - pass parent_id to reply. Threads are one level deep, so a
+// reply to a reply is attached to the top-level comment instead.
+router.post('/:id/comments', authenticate, validate({ params: idParams, body: commentBody }), requireVisiblePost, async (req: AuthRequest, res) => {
+  const postId = Number(req.params.id);
+  const { content, parent_id: parentId }: z.infer<typeof commentBody> = req.body;
+
+  // Resolve the thread's top-level comment and its author. Blocked users
+  // can't reply to each other.
+  let parent: Pick<CommentRow, 'id' | 'user_id'> | undefined;
+  if (parentId !== undefined && parentId !== null) {
+    parent = await findThreadRoot(postId, parentId, req.userId).catch(() => undefined);
+    if (!parent) {
+      return sendError(res, 404, 'Parent comment not found');
+    }
+  }
+
+  // The comment is saved together with its tags and mentions, so a failure
+  // leaves nothing behind for a retry to duplicate
+  let commentId: number;
+  let mentionedUserIds: number[];
+  try {
+    ({ commentId, mentionedUserIds } = await withTransaction(async (tx) => {
+      const commentId = await insertComment(
+        { user_id: req.userId!, post_id: postId, content, parent_id: parent?.id ?? null },
+        tx
+      );
+      return { commentId, mentionedUserIds: await indexTextEntities(postId, commentId, content, tx) };
+    }));
+  } catch (error) {
+    return sendError(res, 500, 'Failed to add comment');
+  }
+
+  try {
+    // The post owner hears about every comment; the author of the thread's
+    // top-level comment also hears about replies to it.
+    const target = { postId, commentId };
+    const post = await findPostById(postId);
+    if (post) {
+      notify(post.user_id, req.userId!, 'comment', target);
+    }
+    if (parent && parent.user_id !== post?.user_id) {
+      notify(parent.user_id, req.userId!, 'reply', { ...target, parentId: parent.id });
+    }
+    mentionedUserIds.forEach(userId => notify(userId, req.userId!, 'mention', target));
+    publish({
+      type: 'comment:created',
+      data: { post_id: postId, comment_id: commentId, parent_id: parent?.id ?? null }
+    }, await postAudience(postId));
+
+    const comment = await findCommentText(commentId);
+    res.status(201).json({
+      id: commentId,
+      content,
+      parent_id: parent?.id ?? null,
+      mentions: comment ? withMentions(comment).mentions : []
+    });
+  } catch (error) {
+    sendError(res, 500, 'Server error');
+  }
+});
+
+// Like/Unlike comment
+router.post(
+  '/:id/comments/:commentId/like',
+  authenticate,
+  validate({ params: commentParams }),
+  requireVisiblePost,
+  async (req: AuthRequest, res) => {
+    const { id: postId, commentId } = req.params;
+
+    const comment = await findVisibleComment(postId, commentId, req.userId).catch(() => undefined);
+    if (!comment) {
+      return sendError(res, 404, 'Comment not found');
     }
-  );
+
+    try {
+      const { liked, likesCount } = await toggleCommentLike(req.userId!, commentId);
+      res.json({ liked, likes_count: likesCount });
+    } catch (error) {
+      sendError(res, 500, 'Failed to like comment');
+    }
+  }
+);
+
+// Edit comment - only its author may change it
+router.patch('/:id/comments/:commentId', authenticate, validate({ params: commentParams, body: editCommentBody }), async (req: AuthRequest, res) => {
+  const postId = Number(req.params.id);
+  const commentId = Number(req.params.commentId);
+  const { content }: z.infer<typeof editCommentBody> = req.body;
+
+  try {
+    // The text and its tags and mentions change together
+    const mentionedUserIds = await withTransaction(async (tx) =>
+      (await updateCommentContent(postId, commentId, req.userId!, content, tx))
+        ? indexTextEntities(postId, commentId, content, tx)
+        : null
+    );
+    if (!mentionedUserIds) {
+      return sendError(res, 404, 'Comment not found or unauthorized');
+    }
+    mentionedUserIds.forEach(userId => notify(userId, req.userId!, 'mention', { postId, commentId }));
+
+    const comment = await findCommentText(commentId);
+    if (!comment) {
+      return sendError(res, 404, 'Comment not found or unauthorized');
+    }
+    res.json(withMentions(comment));
+  } catch (error) {
+    sendError(res, 500, 'Failed to update comment');
+  }
 });
 
-// Add comment
-router.post('/:id/comments', authenticate, (req: AuthRequest, res) => {
-  const postId = req.params.id;
-  const { content } = req.body;
-
-  db.run(
-    'INSERT INTO comments (user_id, post_id, content) VALUES (?, ?, ?)',
-    [req.userId, postId, content],
-    function(err) {
-      if (err) {
-        return res.status(500).json({ error: 'Failed to add comment' });
-      }
-      res.status(201).json({ id: this.lastID, content });
+// Delete comment - allowed for the comment's author and the post's owner.
+// Deleting a top-level comment removes its replies too.
+router.delete('/:id/comments/:commentId', authenticate, validate({ params: commentParams }), async (req: AuthRequest, res) => {
+  const { id: postId, commentId } = req.params;
+
+  try {
+    const comment = await findCommentDeletableBy(postId, commentId, req.userId!);
+    if (!comment) {
+      return sendError(res, 404, 'Comment not found or unauthorized');
     }
-  );
+
+    await deleteComment(postId, commentId);
+    res.json({ message: 'Comment deleted successfully' });
+  } catch (error) {
+    sendError(res, 500, 'Failed to delete comment');
+  }
 });
 
 export default router;
\ No newline at end of file
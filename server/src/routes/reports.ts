@@ -0,0 +1,63 @@
+import express from 'express';
+import { z } from 'zod';
+import { sendError } from '../utils/errors';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { validate, id } from '../middleware/validate';
+import { REPORT_TARGET_TYPES, REPORT_REASONS } from '../services/moderation';
+import { findVisibleAuthorId, findOpenReport, insertReport } from '../repositories/reports';
+
+const router = express.Router();
+
+const MAX_DETAILS_LENGTH = 500;
+
+const reportBody = z.object({
+  target_type: z.enum(REPORT_TARGET_TYPES, {
+    errorMap: () => ({ message: `target_type must be one of ${REPORT_TARGET_TYPES.join(', ')}` })
+  }),
+  target_id: id('target_id'),
+  reason: z.enum(REPORT_REASONS, {
+    errorMap: () => ({ message: `reason must be one of ${REPORT_REASONS.join(', ')}` })
+  }),
+  details: z.string({ invalid_type_error: 'Details must be text' })
+    .trim()
+    .max(MAX_DETAILS_LENGTH, `Details can be at most ${MAX_DETAILS_LENGTH} characters`)
+    .nullish()
+});
+
+// Report a post, comment or account to the moderators. Reporting the same
+// thing again while the first report is still open returns that report.
+router.post('/', authenticate, validate({ body: reportBody }), async (req: AuthRequest, res) => {
+  const { target_type: targetType, target_id: targetId, reason, details }: z.infer<typeof reportBody> = req.body;
+
+  try {
+    const authorId = await findVisibleAuthorId(req.userId!, targetType, targetId);
+    if (!authorId) {
+      return sendError(res, 404, `${targetType[0].toUpperCase()}${targetType.slice(1)} not found`);
+    }
+    if (authorId === req.userId) {
+      return sendError(res, 400, targetType === 'user' ? 'You cannot report yourself' : `You cannot report your own ${targetType}`);
+    }
+
+    const existing = await findOpenReport(req.userId!, targetType, targetId);
+    if (existing) {
+      return res.json(existing);
+    }
+  } catch (error) {
+    return sendError(res, 500, 'Server error');
+  }
+
+  try {
+    const reportId = await insertReport({
+      reporter_id: req.userId!,
+      target_type: targetType,
+      target_id: targetId,
+      reason,
+      details: details || null
+    });
+    res.status(201).json({ id: reportId, status: 'open' });
+  } catch (error) {
+    sendError(res, 500, 'Failed to send report');
+  }
+});
+
+export default router;
@@ -0,0 +1,54 @@
+import express from 'express';
+import { z } from 'zod';
+import { optionalAuthenticate, AuthRequest } from '../middleware/auth';
+import { sendError } from '../utils/errors';
+import { validate } from '../middleware/validate';
+import { attachMedia } from '../services/media';
+import { searchUsers, searchTags, searchPosts } from '../repositories/search';
+
+const router = express.Router();
+
+const SEARCH_TYPES = ['all', 'users', 'tags', 'posts'] as const;
+
+const searchQuery = z.object({
+  q: z.string().trim().max(100, 'Search terms can be at most 100 characters').default(''),
+  type: z.enum(SEARCH_TYPES, {
+    errorMap: () => ({ message: `type must be one of ${SEARCH_TYPES.join(', ')}` })
+  }).default('all')
+});
+
+// Turn free text into an FTS5 query where every word is a quoted prefix
+// term, so user input can never inject FTS syntax (AND/OR/NEAR, columns...).
+const toMatchQuery = (q: string): string | null => {
+  const terms = q
+    .split(/\s+/)
+    .map(term => term.replace(/^[#@]/, '').replace(/"/g, ''))
+    .filter(Boolean);
+  return terms.length ? terms.map(term => `"${term}"*`).join(' ') : null;
+};
+
+// Search accounts, hashtags and captions. type=all returns a few results of
+// each kind for typeahead; a specific type returns a longer list.
+router.get('/', optionalAuthenticate, validate({ query: searchQuery }), async (req: AuthRequest, res) => {
+  const { q, type } = req.query as z.infer<typeof searchQuery>;
+
+  const limit = type === 'all' ? 5 : 20;
+  const match = toMatchQuery(q);
+  const tagPrefix = q.replace(/^#/, '').toLowerCase();
+  if (!match) {
+    return res.json({ users: [], tags: [], posts: [] });
+  }
+
+  try {
+    const [users, tags, posts] = await Promise.all([
+      type === 'all' || type === 'users' ? searchUsers(match, limit, req.userId) : [],
+      (type === 'all' || type === 'tags') && tagPrefix ? searchTags(tagPrefix, limit, req.userId) : [],
+      type === 'all' || type === 'posts' ? searchPosts(match, limit, req.userId).then(attachMedia) : []
+    ]);
+    res.json({ users, tags, posts });
+  } catch (error) {
+    sendError(res, 500, 'Server error');
+  }
+});
+
+export default router;
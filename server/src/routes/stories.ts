@@ -0,0 +1,142 @@
+import express from 'express';
+import { sendError } from '../utils/errors';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { validate, idParams } from '../middleware/validate';
+import { imageUpload } from '../middleware/upload';
+import {
+  processImage, removeImage, withImageVariants, ImageUploadError, ProcessedImage, ImageVariant
+} from '../services/images';
+import {
+  listStoryTray, insertStory, findViewableStory, findStoryOwnedBy, insertStoryView, listStoryViewers,
+  deleteStory, StoryRow, StoryTrayRow
+} from '../repositories/stories';
+
+const router = express.Router();
+
+const STORY_LIFETIME_HOURS = 24;
+
+// One author's active stories in the caller's tray
+interface StoryGroup {
+  user: Pick<StoryTrayRow, 'username' | 'avatar'> & { id: number };
+  stories: (Omit<StoryRow, 'image_variants'> & { variants: ImageVariant[]; viewed: boolean })[];
+  has_unseen: boolean;
+}
+
+// Get active stories from followed accounts and the caller, grouped by
+// author. The caller's own stories come first, then authors with stories
+// the caller hasn't seen yet.
+router.get('/', authenticate, async (req: AuthRequest, res) => {
+  let rows: StoryTrayRow[];
+  try {
+    rows = await listStoryTray(req.userId!);
+  } catch (error) {
+    return sendError(res, 500, 'Server error');
+  }
+
+  const groups = new Map<number, StoryGroup>();
+  for (const { username, avatar, viewed, ...story } of rows) {
+    let group = groups.get(story.user_id);
+    if (!group) {
+      group = { user: { id: story.user_id, username, avatar }, stories: [], has_unseen: false };
+      groups.set(story.user_id, group);
+    }
+    const isOwn = story.user_id === req.userId;
+    group.stories.push({ ...withImageVariants(story), viewed: isOwn || !!viewed });
+    group.has_unseen = group.has_unseen || (!isOwn && !viewed);
+  }
+
+  const latest = (group: StoryGroup) => group.stories[group.stories.length - 1].id;
+  const rank = (group: StoryGroup) => (group.user.id === req.userId ? 0 : group.has_unseen ? 1 : 2);
+  res.json([...groups.values()].sort((a, b) => rank(a) - rank(b) || latest(b) - latest(a)));
+});
+
+// Post a story
+router.post('/', authenticate, imageUpload('image'), async (req: AuthRequest, res) => {
+  if (!req.file) {
+    return sendError(res, 400, 'Image is required');
+  }
+
+  let image: ProcessedImage;
+  try {
+    image = await processImage(req.file.buffer);
+  } catch (error) {
+    if (error instanceof ImageUploadError) {
+      return sendError(res, error.status, error.message);
+    }
+    return sendError(res, 500, 'Failed to process image');
+  }
+
+  let story: StoryRow | undefined;
+  try {
+    story = await insertStory(
+      req.userId!,
+      { image_url: image.imageUrl, image_variants: JSON.stringify(image.variants) },
+      STORY_LIFETIME_HOURS
+    );
+  } catch (error) {
+    removeImage(image);
+    return sendError(res, 500, 'Failed to create story');
+  }
+  if (!story) {
+    return sendError(res, 500, 'Server error');
+  }
+  res.status(201).json(withImageVariants(story));
+});
+
+// Record that the caller saw a story. Authors viewing their own stories
+// are not counted.
+router.post('/:id/view', authenticate, validate({ params: idParams }), async (req: AuthRequest, res) => {
+  const storyId = req.params.id;
+
+  const story = await findViewableStory(storyId, req.userId!).catch(() => undefined);
+  if (!story) {
+    return sendError(res, 404, 'Story not found');
+  }
+  if (story.user_id === req.userId) {
+    return res.json({ viewed: true });
+  }
+
+  try {
+    await insertStoryView(storyId, req.userId!);
+  } catch (error) {
+    return sendError(res, 500, 'Failed to record view');
+  }
+  res.json({ viewed: true });
+});
+
+// Get who viewed a story - only its author may see this
+router.get('/:id/viewers', authenticate, validate({ params: idParams }), async (req: AuthRequest, res) => {
+  const storyId = req.params.id;
+
+  const story = await findStoryOwnedBy(storyId, req.userId!).catch(() => undefined);
+  if (!story) {
+    return sendError(res, 404, 'Story not found or unauthorized');
+  }
+
+  try {
+    res.json(await listStoryViewers(storyId));
+  } catch (error) {
+    sendError(res, 500, 'Server error');
+  }
+});
+
+// Delete a story before it expires
+router.delete('/:id', authenticate, validate({ params: idParams }), async (req: AuthRequest, res) => {
+  const storyId = req.params.id;
+
+  const story = await findStoryOwnedBy(storyId, req.userId!).catch(() => undefined);
+  if (!story) {
+    return sendError(res, 404, 'Story not found or unauthorized');
+  }
+
+  try {
+    await deleteStory(storyId);
+  } catch (error) {
+    return sendError(res, 500, 'Failed to delete story');
+  }
+  const { image_url: imageUrl, variants } = withImageVariants(story);
+  removeImage({ imageUrl, variants });
+  res.json({ message: 'Story deleted successfully' });
+});
+
+export default router;
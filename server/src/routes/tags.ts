@@ -0,0 +1,41 @@
+import express from 'express';
+import { z } from 'zod';
+import { optionalAuthenticate, AuthRequest } from '../middleware/auth';
+import { sendError } from '../utils/errors';
+import { validate, pageQuery } from '../middleware/validate';
+import { parsePageParams, buildPage } from '../utils/pagination';
+import { attachMedia } from '../services/media';
+import { withMentions } from '../services/textEntities';
+import { findHashtag, listHashtagPosts } from '../repositories/hashtags';
+
+const router = express.Router();
+
+// The same characters textEntities indexes, in any script
+const tagParams = z.object({
+  tag: z.string().regex(/^#?[\p{L}\p{N}_]+$/u, 'Tags can only use letters, numbers and underscores')
+});
+
+// Get posts whose caption uses a hashtag, leaving out private accounts the
+// caller doesn't follow
+router.get('/:tag', optionalAuthenticate, validate({ params: tagParams, query: pageQuery }), async (req: AuthRequest, res) => {
+  const tag = req.params.tag.replace(/^#/, '').toLowerCase();
+  const page = parsePageParams(req);
+  if (!page) {
+    return sendError(res, 400, 'Invalid pagination parameters');
+  }
+
+  try {
+    const hashtag = await findHashtag(tag, req.userId);
+    if (!hashtag) {
+      return res.json({ tag, posts_count: 0, posts: [], nextCursor: null });
+    }
+
+    const { items, nextCursor } = buildPage(await listHashtagPosts(tag, req.userId, page), page.limit);
+    const posts = await attachMedia(items.map(withMentions));
+    res.json({ tag: hashtag.name, posts_count: hashtag.posts_count, posts, nextCursor });
+  } catch (error) {
+    sendError(res, 500, 'Server error');
+  }
+});
+
+export default router;
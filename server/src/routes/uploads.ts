@@ -0,0 +1,14 @@
+import express from 'express';
+import { getStorage, isValidKey } from '../services/storage';
+
+const router = express.Router();
+
+// Serve an uploaded file from the configured storage backend
+router.get('/:key', (req, res, next) => {
+  if (!isValidKey(req.params.key)) {
+    return res.sendStatus(404);
+  }
+  getStorage().send(req.params.key, res).catch(next);
+});
+
+export default router;
@@ -1,46 +1,453 @@
-import express from 'express';
-import { Database } from '../database';
-import { authenticate, AuthRequest } from '../middleware/auth';
+import express, { Response, NextFunction } from 'express';
+import bcrypt from 'bcryptjs';
+import { z } from 'zod';
+import { sendError } from '../utils/errors';
+import { authenticate, optionalAuthenticate, AuthRequest } from '../middleware/auth';
+import { validate, id, idParams, pageQuery, usernameField, newPasswordField } from '../middleware/validate';
+import { imageUpload } from '../middleware/upload';
+import { parsePageParams, buildPage, PageParams } from '../utils/pagination';
+import { attachMedia } from '../services/media';
+import { withMentions } from '../services/textEntities';
+import { notify, removeNotification } from '../services/notifications';
+import { processAvatar, removeUpload, ImageUploadError } from '../services/images';
+import { revokeOtherSessions } from '../services/sessions';
+import { disconnectOtherSessions } from '../services/events';
+import {
+  findUserById, isUsernameTaken, findAccount, findProfile, updateProfile, replaceAvatar, updatePassword, AccountRow
+} from '../repositories/users';
+import { listUserPosts } from '../repositories/posts';
+import {
+  insertFollow, insertFollowRequest, deleteFollow, listFollowRequests, deleteFollowRequest, approveFollowRequest,
+  listFollowers, listFollowing
+} from '../repositories/follows';
+import {
+  insertBlock, deleteBlock, insertMute, deleteMute, listBlocks, listMutes, RelationshipListRow
+} from '../repositories/blocks';
+import { findUserVisibility } from '../repositories/visibility';
 
 const router = express.Router();
-const db = Database.getInstance().getDb();
 
-// Get user profile
-router.get('/:id', (req, res) => {
-  const userId = req.params.id;
+const DEFAULT_AVATAR = '/default-avatar.png';
+const MAX_DISPLAY_NAME_LENGTH = 50;
+const MAX_BIO_LENGTH = 150;
 
-  db.get(
-    'SELECT id, username, email, avatar, bio, created_at FROM users WHERE id = ?',
-    [userId],
-    (err, user) => {
-      if (err || !user) {
-        return res.status(404).json({ error: 'User not found' });
-      }
+const toAccount = ({ email_verified_at, is_private, ...user }: AccountRow) => ({
+  ...user,
+  is_private: !!is_private,
+  email_verified: !!email_verified_at
+});
 
-      // Get user's posts
-      db.all(
-        'SELECT * FROM posts WHERE user_id = ? ORDER BY created_at DESC',
-        [userId],
-        (err, posts) => {
-          res.json({ ...user, posts: posts || [] });
-        }
-      );
-    }
-  );
+const profileBody = z.object({
+  username: usernameField().optional(),
+  display_name: z.string({ invalid_type_error: 'Name must be text' })
+    .trim()
+    .max(MAX_DISPLAY_NAME_LENGTH, `Name can be at most ${MAX_DISPLAY_NAME_LENGTH} characters`)
+    .optional(),
+  bio: z.string({ invalid_type_error: 'Bio must be text' })
+    .trim()
+    .max(MAX_BIO_LENGTH, `Bio can be at most ${MAX_BIO_LENGTH} characters`)
+    .optional(),
+  is_private: z.boolean({ invalid_type_error: 'is_private must be true or false' }).optional()
+}).refine(body => Object.values(body).some(value => value !== undefined), {
+  message: 'Nothing to update'
+});
+
+const passwordBody = z.object({
+  current_password: z.string({ required_error: 'Current password is required' })
+    .min(1, 'Current password is required'),
+  new_password: newPasswordField('New password')
 });
 
+const followRequestParams = z.object({ requestId: id('requestId') });
+
+const sendAccount = async (userId: number, res: Response) => {
+  const user = await findAccount(userId).catch(() => undefined);
+  if (!user) {
+    return sendError(res, 404, 'User not found');
+  }
+  res.json(toAccount(user));
+};
+
+// The posts and follower lists of a private account are only shown to its
+// owner and approved followers; everyone else just sees the profile header
+const requireVisibleUser = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const user = await findUserVisibility(req.userId, req.params.id);
+    if (!user) {
+      return sendError(res, 404, 'User not found');
+    }
+    if (!user.visible) {
+      return sendError(res, 403, 'This account is private', 'PRIVATE_ACCOUNT');
+    }
+  } catch (error) {
+    return sendError(res, 500, 'Server error');
+  }
+  next();
+};
+
+// Send a page of the accounts the caller blocked or muted, most recent first
+const sendRelationshipPage = async (
+  req: AuthRequest,
+  res: Response,
+  list: (userId: number, page: PageParams) => Promise<RelationshipListRow[]>
+) => {
+  const page = parsePageParams(req);
+  if (!page) {
+    return sendError(res, 400, 'Invalid pagination parameters');
+  }
+
+  try {
+    const { items, nextCursor } = buildPage(await list(req.userId!, page), page.limit);
+    res.json({
+      users: items.map(({ user_id, username, display_name, avatar, created_at }) => ({
+        id: user_id, username, display_name, avatar, created_at
+      })),
+      nextCursor
+    });
+  } catch (error) {
+    sendError(res, 500, 'Server error');
+  }
+};
+
 // Get current user
 router.get('/me', authenticate, (req: AuthRequest, res) => {
-  db.get(
-    'SELECT id, username, email, avatar, bio FROM users WHERE id = ?',
-    [req.userId],
-    (err, user) => {
-      if (err || !user) {
-        return res.status(404).json({ error: 'User not found' });
-      }
-      res.json(user);
+  sendAccount(req.userId!, res);
+});
+
+// Edit profile - any of username, display_name, bio and is_private. An
+// empty display name clears it. Going public approves every pending follow
+// request.
+router.patch('/me', authenticate, validate({ body: profileBody }), async (req: AuthRequest, res) => {
+  const { username, display_name: displayName, bio, is_private: isPrivate }: z.infer<typeof profileBody> = req.body;
+
+  const usernameTaken = () => sendError(res, 409, 'That username is taken', 'CONFLICT', {
+    username: 'That username is taken'
+  });
+
+  try {
+    // Usernames differing only in case would be confusing in @mentions
+    if (username !== undefined && await isUsernameTaken(username, req.userId!)) {
+      return usernameTaken();
+    }
+    await updateProfile(req.userId!, { username, displayName, bio, isPrivate });
+  } catch (error) {
+    // Another request took the username since we checked
+    if ((error as Error).message.includes('UNIQUE constraint failed: users.username')) {
+      return usernameTaken();
+    }
+    return sendError(res, 500, 'Failed to update profile');
+  }
+  sendAccount(req.userId!, res);
+});
+
+// Replace the current user's avatar with a square crop of the upload
+router.put('/me/avatar', authenticate, imageUpload('avatar'), async (req: AuthRequest, res) => {
+  if (!req.file) {
+    return sendError(res, 400, 'An image is required', 'VALIDATION_FAILED', { avatar: 'An image is required' });
+  }
+
+  let avatarUrl: string;
+  try {
+    avatarUrl = await processAvatar(req.file.buffer);
+  } catch (error) {
+    if (error instanceof ImageUploadError) {
+      return sendError(res, error.status, error.message);
+    }
+    return sendError(res, 500, 'Failed to process image');
+  }
+
+  let previous: string | undefined;
+  try {
+    previous = await replaceAvatar(req.userId!, avatarUrl);
+  } catch (error) {
+    removeUpload(avatarUrl);
+    return sendError(res, 500, 'Failed to update avatar');
+  }
+  removeUpload(previous);
+  sendAccount(req.userId!, res);
+});
+
+// Go back to the default avatar
+router.delete('/me/avatar', authenticate, async (req: AuthRequest, res) => {
+  let previous: string | undefined;
+  try {
+    previous = await replaceAvatar(req.userId!, DEFAULT_AVATAR);
+  } catch (error) {
+    return sendError(res, 500, 'Failed to remove avatar');
+  }
+  removeUpload(previous);
+  sendAccount(req.userId!, res);
+});
+
+// Change password - requires the current one. Other devices are signed out;
+// this one stays signed in.
+router.put('/me/password', authenticate, validate({ body: passwordBody }), async (req: AuthRequest, res) => {
+  const { current_password: currentPassword, new_password: newPassword }: z.infer<typeof passwordBody> = req.body;
+
+  const user = await findUserById(req.userId!).catch(() => undefined);
+  if (!user) {
+    return sendError(res, 404, 'User not found');
+  }
+  if (!(await bcrypt.compare(currentPassword, user.password))) {
+    return sendError(res, 400, 'Current password is incorrect', 'INVALID_CREDENTIALS', {
+      current_password: 'Current password is incorrect'
+    });
+  }
+
+  try {
+    await updatePassword(req.userId!, await bcrypt.hash(newPassword, 10));
+  } catch (error) {
+    return sendError(res, 500, 'Failed to change password');
+  }
+  revokeOtherSessions(req.userId!, req.sessionId!).catch(err => console.error('Failed to revoke other sessions', err));
+  disconnectOtherSessions(req.userId!, req.sessionId!);
+  res.json({ message: 'Password changed' });
+});
+
+// Get the caller's pending follow requests, newest first
+router.get('/me/follow-requests', authenticate, validate({ query: pageQuery }), async (req: AuthRequest, res) => {
+  const page = parsePageParams(req);
+  if (!page) {
+    return sendError(res, 400, 'Invalid pagination parameters');
+  }
+
+  try {
+    const { items, nextCursor } = buildPage(await listFollowRequests(req.userId!, page), page.limit);
+    res.json({
+      requests: items.map(({ user_id, username, display_name, avatar, ...request }) => ({
+        ...request,
+        user: { id: user_id, username, display_name, avatar }
+      })),
+      nextCursor
+    });
+  } catch (error) {
+    sendError(res, 500, 'Server error');
+  }
+});
+
+// Get the accounts the caller blocked
+router.get('/me/blocks', authenticate, validate({ query: pageQuery }), (req: AuthRequest, res) => {
+  sendRelationshipPage(req, res, listBlocks);
+});
+
+// Get the accounts the caller muted
+router.get('/me/mutes', authenticate, validate({ query: pageQuery }), (req: AuthRequest, res) => {
+  sendRelationshipPage(req, res, listMutes);
+});
+
+// Approve a follow request - the requester becomes a follower
+router.post(
+  '/me/follow-requests/:requestId/approve',
+  authenticate,
+  validate({ params: followRequestParams }),
+  async (req: AuthRequest, res) => {
+    let requesterId: number | undefined;
+    try {
+      requesterId = await approveFollowRequest(req.params.requestId, req.userId!);
+    } catch (error) {
+      return sendError(res, 500, 'Failed to approve request');
+    }
+    if (requesterId === undefined) {
+      return sendError(res, 404, 'Follow request not found');
     }
-  );
+
+    removeNotification(requesterId, 'follow_request', { userId: req.userId });
+    notify(req.userId!, requesterId, 'follow');
+    notify(requesterId, req.userId!, 'follow_accepted');
+    res.json({ approved: true });
+  }
+);
+
+// Decline a follow request
+router.delete(
+  '/me/follow-requests/:requestId',
+  authenticate,
+  validate({ params: followRequestParams }),
+  async (req: AuthRequest, res) => {
+    let requesterId: number | undefined;
+    try {
+      requesterId = await deleteFollowRequest(req.params.requestId, req.userId!);
+    } catch (error) {
+      return sendError(res, 500, 'Failed to decline request');
+    }
+    if (requesterId === undefined) {
+      return sendError(res, 404, 'Follow request not found');
+    }
+    removeNotification(requesterId, 'follow_request', { userId: req.userId });
+    res.json({ approved: false });
+  }
+);
+
+// Get user profile. The header is public; can_view says whether the caller
+// may also see the posts and follower lists. Someone who blocked the caller
+// doesn't exist for them, while accounts the caller blocked keep their
+// header so they can be unblocked. Email addresses are only ever shown to
+// their owner, through GET /me.
+router.get('/:id', optionalAuthenticate, validate({ params: idParams }), async (req: AuthRequest, res) => {
+  const user = await findProfile(req.params.id, req.userId).catch(() => undefined);
+  if (!user) {
+    return sendError(res, 404, 'User not found');
+  }
+  res.json({
+    ...user,
+    is_private: !!user.is_private,
+    is_following: !!user.is_following,
+    follow_requested: !!user.follow_requested,
+    is_blocked: !!user.is_blocked,
+    is_muted: !!user.is_muted,
+    can_view: !!user.can_view
+  });
+});
+
+// Get a page of a user's posts for the profile grid
+router.get(
+  '/:id/posts',
+  optionalAuthenticate,
+  validate({ params: idParams, query: pageQuery }),
+  requireVisibleUser,
+  async (req: AuthRequest, res) => {
+    const page = parsePageParams(req);
+    if (!page) {
+      return sendError(res, 400, 'Invalid pagination parameters');
+    }
+
+    try {
+      const { items, nextCursor } = buildPage(await listUserPosts(req.params.id, req.userId, page), page.limit);
+      res.json({ posts: await attachMedia(items.map(withMentions)), nextCursor });
+    } catch (error) {
+      sendError(res, 500, 'Server error');
+    }
+  }
+);
+
+// Follow user - private accounts get a follow request instead, which they
+// approve or decline
+router.post('/:id/follow', authenticate, validate({ params: idParams }), async (req: AuthRequest, res) => {
+  const userId = Number(req.params.id);
+
+  if (userId === req.userId) {
+    return sendError(res, 400, 'You cannot follow yourself');
+  }
+
+  const user = await findUserVisibility(req.userId, userId).catch(() => undefined);
+  if (!user) {
+    return sendError(res, 404, 'User not found');
+  }
+
+  // Not visible means private and not yet followed
+  if (!user.visible) {
+    try {
+      await insertFollowRequest(req.userId!, userId);
+    } catch (error) {
+      return sendError(res, 500, 'Failed to request to follow');
+    }
+    notify(userId, req.userId!, 'follow_request');
+    return res.json({ following: false, requested: true });
+  }
+
+  try {
+    await insertFollow(req.userId!, userId);
+  } catch (error) {
+    return sendError(res, 500, 'Failed to follow user');
+  }
+  notify(userId, req.userId!, 'follow');
+  res.json({ following: true, requested: false });
+});
+
+// Unfollow user, or withdraw a pending follow request
+router.delete('/:id/follow', authenticate, validate({ params: idParams }), async (req: AuthRequest, res) => {
+  const userId = req.params.id;
+
+  try {
+    await deleteFollow(req.userId!, userId);
+  } catch (error) {
+    return sendError(res, 500, 'Failed to unfollow user');
+  }
+  removeNotification(req.userId!, 'follow', { userId });
+  removeNotification(req.userId!, 'follow_request', { userId });
+  res.json({ following: false, requested: false });
+});
+
+// Block a user. Any follows and follow requests between the two end, and
+// their notifications about each other are cleared.
+router.post('/:id/block', authenticate, validate({ params: idParams }), async (req: AuthRequest, res) => {
+  const userId = Number(req.params.id);
+
+  if (userId === req.userId) {
+    return sendError(res, 400, 'You cannot block yourself');
+  }
+
+  const user = await findUserById(userId).catch(() => undefined);
+  if (!user) {
+    return sendError(res, 404, 'User not found');
+  }
+
+  try {
+    await insertBlock(req.userId!, userId);
+  } catch (error) {
+    return sendError(res, 500, 'Failed to block user');
+  }
+  res.json({ blocked: true });
+});
+
+// Unblock user. Earlier follows are not restored.
+router.delete('/:id/block', authenticate, validate({ params: idParams }), async (req: AuthRequest, res) => {
+  try {
+    await deleteBlock(req.userId!, req.params.id);
+  } catch (error) {
+    return sendError(res, 500, 'Failed to unblock user');
+  }
+  res.json({ blocked: false });
+});
+
+// Mute user - their posts no longer show up in the caller's feed. They
+// aren't told, and can still see and interact with the caller's content.
+router.post('/:id/mute', authenticate, validate({ params: idParams }), async (req: AuthRequest, res) => {
+  const userId = Number(req.params.id);
+
+  if (userId === req.userId) {
+    return sendError(res, 400, 'You cannot mute yourself');
+  }
+
+  const user = await findUserVisibility(req.userId, userId).catch(() => undefined);
+  if (!user) {
+    return sendError(res, 404, 'User not found');
+  }
+
+  try {
+    await insertMute(req.userId!, userId);
+  } catch (error) {
+    return sendError(res, 500, 'Failed to mute user');
+  }
+  res.json({ muted: true });
+});
+
+// Unmute user
+router.delete('/:id/mute', authenticate, validate({ params: idParams }), async (req: AuthRequest, res) => {
+  try {
+    await deleteMute(req.userId!, req.params.id);
+  } catch (error) {
+    return sendError(res, 500, 'Failed to unmute user');
+  }
+  res.json({ muted: false });
+});
+
+// Get followers of a user
+router.get('/:id/followers', optionalAuthenticate, validate({ params: idParams }), requireVisibleUser, async (req: AuthRequest, res) => {
+  try {
+    res.json(await listFollowers(req.params.id, req.userId));
+  } catch (error) {
+    sendError(res, 500, 'Server error');
+  }
+});
+
+// Get accounts a user follows
+router.get('/:id/following', optionalAuthenticate, validate({ params: idParams }), requireVisibleUser, async (req: AuthRequest, res) => {
+  try {
+    res.json(await listFollowing(req.params.id, req.userId));
+  } catch (error) {
+    sendError(res, 500, 'Server error');
+  }
 });
 
-export default router;
\ No newline at end of file
+export default router;
@@ -0,0 +1,59 @@
+import { Response } from 'express';
+
+// Events pushed to connected clients over Server-Sent Events
+export type LiveEvent =
+  | { type: 'post:created'; data: { post_id: number; user_id: number } }
+  | { type: 'post:deleted'; data: { post_id: number } }
+  | { type: 'post:liked'; data: { post_id: number; likes_count: number } }
+  | { type: 'comment:created'; data: { post_id: number; comment_id: number; parent_id: number | null } }
+  | { type: 'comment:deleted'; data: { post_id: number; comment_id: number } }
+  | { type: 'notification'; data: Record<string, never> }
+  | { type: 'message:created'; data: { conversation_id: number; message_id: number; sender_id: number } }
+  | { type: 'conversation:read'; data: { conversation_id: number; user_id: number; last_read_message_id: number } };
+
+interface Subscriber {
+  userId: number;
+  sessionId: number;
+  res: Response;
+}
+
+const subscribers = new Set<Subscriber>();
+
+// Register an open event stream. Returns a function that removes it again.
+export const subscribe = (userId: number, sessionId: number, res: Response) => {
+  const subscriber = { userId, sessionId, res };
+  subscribers.add(subscriber);
+  return () => {
+    subscribers.delete(subscriber);
+  };
+};
+
+// Send an event to every connected client, or only to the given users
+export const publish = (event: LiveEvent, userIds?: number[]) => {
+  const message = `event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
+  for (const subscriber of subscribers) {
+    if (!userIds || userIds.includes(subscriber.userId)) {
+      subscriber.res.write(message);
+    }
+  }
+};
+
+// Close the streams of a revoked session, or of every session of a user
+export const disconnectSessions = (userId: number, sessionId?: number) => {
+  for (const subscriber of subscribers) {
+    if (subscriber.userId === userId && (sessionId === undefined || subscriber.sessionId === sessionId)) {
+      subscriber.res.end();
+      subscribers.delete(subscriber);
+    }
+  }
+};
+
+// Close a user's streams except those of the session that is kept
+export const disconnectOtherSessions = (userId: number, keepSessionId: number) => {
+  for (const subscriber of subscribers) {
+    if (subscriber.userId === userId && subscriber.sessionId !== keepSessionId) {
+      subscriber.res.end();
+      subscribers.delete(subscriber);
+    }
+  }
+};
@@ -0,0 +1,197 @@
+import sharp from 'sharp';
+import crypto from 'crypto';
+import { getStorage, uploadUrl, uploadKey } from './storage';
+
+export interface ImageVariant {
+  name: string;
+  url: string;
+  width: number;
+  height: number;
+}
+
+export interface ProcessedImage {
+  imageUrl: string;
+  variants: ImageVariant[];
+}
+
+interface VariantSpec {
+  name: string;
+  width: number;
+  height?: number;
+}
+
+// Grid thumbnails are square crops; feed and full sizes keep the aspect ratio
+const VARIANT_SPECS: VariantSpec[] = [
+  { name: 'thumb', width: 320, height: 320 },
+  { name: 'feed', width: 1080 },
+  { name: 'full', width: 2048 }
+];
+
+// Avatars are stored as a single square crop
+const AVATAR_SIZE = 320;
+
+// Defaults: 10 MB per file and 40 megapixels after decoding
+export const getUploadLimits = () => ({
+  maxBytes: Number(process.env.MAX_UPLOAD_BYTES) || 10 * 1024 * 1024,
+  maxPixels: Number(process.env.MAX_UPLOAD_PIXELS) || 40_000_000
+});
+
+export class ImageUploadError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ImageUploadError';
+    this.status = status;
+  }
+}
+
+export type ImageType = 'jpeg' | 'png' | 'webp' | 'gif';
+
+// Identify the image format from its leading bytes; the client-supplied
+// mimetype and filename are never trusted.
+export const detectImageType = (buffer: Buffer): ImageType | null => {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'jpeg';
+  }
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'png';
+  }
+  if (buffer.length >= 6 && ['GIF87a', 'GIF89a'].includes(buffer.toString('ascii', 0, 6))) {
+    return 'gif';
+  }
+  if (buffer.length >= 12 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+    return 'webp';
+  }
+  return null;
+};
+
+const generateBaseName = () => `${Date.now()}-${crypto.randomBytes(8).toString('hex')}`;
+
+interface DecodedUpload {
+  source: sharp.Sharp;
+  // The shorter of the image's width and height
+  shortSide: number;
+}
+
+// Check the upload's format and size and prepare it for resizing, with its
+// EXIF orientation applied
+const decodeUpload = async (buffer: Buffer): Promise<DecodedUpload> => {
+  if (!detectImageType(buffer)) {
+    throw new ImageUploadError(400, 'Only JPEG, PNG, WebP and GIF images are allowed');
+  }
+
+  const { maxPixels } = getUploadLimits();
+  let source: sharp.Sharp;
+  let metadata: sharp.Metadata;
+  try {
+    // metadata() only reads the header, so the pixel limit below is checked
+    // before anything is decoded
+    source = sharp(buffer, { failOn: 'error', limitInputPixels: false }).rotate();
+    metadata = await source.metadata();
+  } catch (error) {
+    throw new ImageUploadError(400, 'Uploaded file is not a valid image');
+  }
+
+  if (!metadata.width || !metadata.height) {
+    throw new ImageUploadError(400, 'Uploaded file is not a valid image');
+  }
+  if (metadata.width * metadata.height > maxPixels) {
+    throw new ImageUploadError(413, `Image dimensions exceed the ${maxPixels} pixel limit`);
+  }
+  return { source, shortSide: Math.min(metadata.width, metadata.height) };
+};
+
+// Decode the upload and write every variant as a freshly encoded JPEG.
+// sharp drops all metadata (including GPS) unless withMetadata() is
+// requested, so nothing from the original file survives.
+export const processImage = async (buffer: Buffer): Promise<ProcessedImage> => {
+  const { source, shortSide } = await decodeUpload(buffer);
+  const baseName = generateBaseName();
+  const variants: ImageVariant[] = [];
+
+  try {
+    for (const spec of VARIANT_SPECS) {
+      const filename = `${baseName}-${spec.name}.jpg`;
+      // Nothing is enlarged. A small upload's square crop is as wide as its
+      // shorter side, so it stays square.
+      const side = spec.height ? Math.min(spec.width, spec.height, shortSide) : undefined;
+      const { data, info } = await source
+        .clone()
+        .resize({
+          width: side ?? spec.width,
+          height: side,
+          fit: spec.height ? 'cover' : 'inside',
+          withoutEnlargement: true
+        })
+        .flatten({ background: '#ffffff' })
+        .jpeg({ quality: 82, mozjpeg: true })
+        .toBuffer({ resolveWithObject: true })
+        .catch(() => {
+          throw new ImageUploadError(400, 'Uploaded file is not a valid image');
+        });
+      await getStorage().put(filename, data, 'image/jpeg');
+
+      variants.push({
+        name: spec.name,
+        url: uploadUrl(filename),
+        width: info.width,
+        height: info.height
+      });
+    }
+  } catch (error) {
+    // Don't leave a partial set of variants behind
+    await removeImage({ imageUrl: '', variants });
+    throw error;
+  }
+
+  const full = variants.find(v => v.name === 'full')!;
+  return { imageUrl: full.url, variants };
+};
+
+// Crop the upload to a centred square and store it as a JPEG; returns its URL
+export const processAvatar = async (buffer: Buffer): Promise<string> => {
+  const { source } = await decodeUpload(buffer);
+  const filename = `${generateBaseName()}-avatar.jpg`;
+
+  let data: Buffer;
+  try {
+    data = await source
+      .resize({ width: AVATAR_SIZE, height: AVATAR_SIZE, fit: 'cover', position: 'centre' })
+      .flatten({ background: '#ffffff' })
+      .jpeg({ quality: 85, mozjpeg: true })
+      .toBuffer();
+  } catch (error) {
+    throw new ImageUploadError(400, 'Uploaded file is not a valid image');
+  }
+  await getStorage().put(filename, data, 'image/jpeg');
+  return uploadUrl(filename);
+};
+
+// Delete a stored upload by its URL. URLs outside /uploads/, such as the
+// default avatar, are left alone. Failures are logged, not thrown; a
+// leftover file is harmless.
+export const removeUpload = async (url: string | null | undefined): Promise<void> => {
+  const key = uploadKey(url);
+  if (!key) {
+    return;
+  }
+  await getStorage().delete(key).catch(err => console.error(`Failed to delete upload ${key}`, err));
+};
+
+// Remove every stored variant of a processed image
+export const removeImage = async (image: ProcessedImage): Promise<void> => {
+  await Promise.all(image.variants.map(v => removeUpload(v.url)));
+};
+
+// Posts store their variants as JSON; expose them as a parsed array
+export const withImageVariants = <T extends { image_variants?: string | null }>(post: T) => {
+  const { image_variants, ...rest } = post;
+  let variants: ImageVariant[] = [];
+  try {
+    variants = JSON.parse(image_variants || '[]');
+  } catch (error) {
+    // Leave variants empty; clients fall back to image_url
+  }
+  return { ...rest, variants };
+};
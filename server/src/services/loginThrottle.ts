@@ -0,0 +1,33 @@
+import { getRateLimitStore } from './rateLimitStore';
+
+// After FREE_ATTEMPTS wrong passwords an account is locked for a minute,
+// and every further failure doubles the lock, up to an hour. Counts are
+// kept per email, whether or not an account exists, so lockouts don't
+// reveal which addresses are registered.
+const FREE_ATTEMPTS = 5;
+const BASE_LOCK_MS = 60 * 1000;
+const MAX_LOCK_MS = 60 * 60 * 1000;
+const FORGET_AFTER_MS = 24 * 60 * 60 * 1000;
+
+interface LoginFailures {
+  count: number;
+  lockedUntil: number;
+}
+
+const keyFor = (email: string) => `login-failures:${email.toLowerCase()}`;
+
+// Milliseconds until the account may try again; 0 when it isn't locked
+export const getLoginLock = async (email: string): Promise<number> => {
+  const failures = await getRateLimitStore().get<LoginFailures>(keyFor(email));
+  return failures ? Math.max(0, failures.lockedUntil - Date.now()) : 0;
+};
+
+export const recordLoginFailure = async (email: string): Promise<void> => {
+  const store = getRateLimitStore();
+  const failures = await store.get<LoginFailures>(keyFor(email));
+  const count = (failures?.count || 0) + 1;
+  const lockMs = count < FREE_ATTEMPTS ? 0 : Math.min(BASE_LOCK_MS * 2 ** (count - FREE_ATTEMPTS), MAX_LOCK_MS);
+  await store.set<LoginFailures>(keyFor(email), { count, lockedUntil: Date.now() + lockMs }, FORGET_AFTER_MS);
+};
+
+export const clearLoginFailures = (email: string): Promise<void> => getRateLimitStore().delete(keyFor(email));
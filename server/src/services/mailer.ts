@@ -0,0 +1,69 @@
+import fs from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+export interface Mail {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(mail: Mail): Promise<void>;
+}
+
+const getSender = () => process.env.MAIL_FROM || 'Instagram Lite <no-reply@localhost>';
+
+// Delivers mail through an SMTP server
+export class SmtpMailer implements Mailer {
+  private transport: nodemailer.Transporter;
+
+  constructor() {
+    this.transport = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined
+    });
+  }
+
+  async send(mail: Mail): Promise<void> {
+    await this.transport.sendMail({ from: getSender(), ...mail });
+  }
+}
+
+// Writes each message to a file in MAIL_DIR and logs where it went, so links
+// can be followed during development without a mail server. MAIL_DIR
+// defaults to server/mail wherever the server is started from.
+export class FileMailer implements Mailer {
+  private dir: string;
+
+  constructor(dir = process.env.MAIL_DIR || path.join(__dirname, '../../mail')) {
+    this.dir = path.resolve(dir);
+  }
+
+  async send(mail: Mail): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const file = path.join(this.dir, `${Date.now()}-${mail.to.replace(/[^\w.@-]/g, '_')}.txt`);
+    const contents = `From: ${getSender()}\nTo: ${mail.to}\nSubject: ${mail.subject}\n\n${mail.text}\n`;
+    await fs.promises.writeFile(file, contents);
+    console.log(`📧 Mail to ${mail.to} ("${mail.subject}") written to ${file}`);
+  }
+}
+
+let mailer: Mailer | null = null;
+
+// MAIL_TRANSPORT=smtp sends real mail; anything else uses the file transport
+export const getMailer = (): Mailer => {
+  if (!mailer) {
+    mailer = process.env.MAIL_TRANSPORT === 'smtp' ? new SmtpMailer() : new FileMailer();
+  }
+  return mailer;
+};
+
+// Swap the transport, e.g. for a fake that records messages in tests
+export const setMailer = (next: Mailer) => {
+  mailer = next;
+};
@@ -0,0 +1,42 @@
+import { ImageVariant, withImageVariants } from './images';
+import { findPostMedia } from '../repositories/posts';
+import { PostMediaRow } from '../repositories/types';
+
+export const MAX_MEDIA_PER_POST = 10;
+
+export interface PostMedia {
+  id: number | null;
+  position: number;
+  image_url: string;
+  variants: ImageVariant[];
+}
+
+// Load the ordered media of each post in one query and attach it as `media`.
+// Posts created before carousels existed have no post_media rows, so their
+// single image is exposed as a one-item carousel.
+export const attachMedia = async <T extends { id: number; image_url: string; image_variants?: string }>(
+  posts: T[]
+): Promise<(Omit<T, 'image_variants'> & { variants: ImageVariant[]; media: PostMedia[] })[]> => {
+  const rows: PostMediaRow[] = posts.length ? await findPostMedia(posts.map(post => post.id)) : [];
+
+  const mediaByPost = new Map<number, PostMedia[]>();
+  for (const row of rows) {
+    if (!mediaByPost.has(row.post_id)) {
+      mediaByPost.set(row.post_id, []);
+    }
+    mediaByPost.get(row.post_id)!.push({
+      id: row.id,
+      position: row.position,
+      image_url: row.image_url,
+      variants: withImageVariants(row).variants
+    });
+  }
+
+  return posts.map(post => {
+    const withVariants = withImageVariants(post);
+    const media = mediaByPost.get(post.id) || [
+      { id: null, position: 0, image_url: post.image_url, variants: withVariants.variants }
+    ];
+    return { ...withVariants, media };
+  });
+};
@@ -0,0 +1,185 @@
+import { getMailer } from './mailer';
+import { revokeAllSessions } from './sessions';
+import { publish, disconnectSessions } from './events';
+import { removePost, removeComment } from './removal';
+import { postAudience } from './visibility';
+import { withTransaction, Queryable } from '../repositories/db';
+import { findUserById, setUserSuspended } from '../repositories/users';
+import { setPostHidden } from '../repositories/posts';
+import { setCommentHidden } from '../repositories/comments';
+import { findReportTarget, insertModerationLogEntry } from '../repositories/reports';
+
+export const REPORT_TARGET_TYPES = ['post', 'comment', 'user'] as const;
+export type ReportTargetType = typeof REPORT_TARGET_TYPES[number];
+
+export const REPORT_REASONS = ['spam', 'harassment', 'hate', 'nudity', 'violence', 'self_harm', 'other'] as const;
+
+export const REPORT_STATUSES = ['open', 'resolved', 'dismissed'] as const;
+
+// hide/unhide and remove apply to posts and comments. warn and suspend apply
+// to an account, or to the author of a post or comment.
+export const MODERATION_ACTIONS = ['hide', 'unhide', 'remove', 'warn', 'suspend', 'unsuspend'] as const;
+export type ModerationAction = typeof MODERATION_ACTIONS[number];
+
+const CONTENT_ACTIONS: ModerationAction[] = ['hide', 'unhide', 'remove'];
+
+export class ModerationError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'ModerationError';
+    this.status = status;
+  }
+}
+
+export interface ReportTarget {
+  type: ReportTargetType;
+  id: number;
+  // The account responsible: the user itself, or the content's author
+  authorId: number;
+  // Set for comments, whose routes are nested under their post
+  postId?: number;
+}
+
+// Look up what a report or action points at. The target is undefined when
+// it no longer exists.
+export const findTarget = async (
+  type: ReportTargetType,
+  id: number,
+  q?: Queryable
+): Promise<ReportTarget | undefined> => {
+  const row = await findReportTarget(type, id, q);
+  if (!row) {
+    return undefined;
+  }
+  return { type, id: row.id, authorId: row.author_id, postId: row.post_id ?? undefined };
+};
+
+const notifyAuthor = async (userId: number, subject: string, text: string) => {
+  try {
+    const user = await findUserById(userId);
+    if (!user) {
+      return console.error(`Failed to look up user ${userId} to email`);
+    }
+    await getMailer().send({ to: user.email, subject, text });
+  } catch (err) {
+    console.error('Failed to send moderation email', err);
+  }
+};
+
+const withNote = (text: string, note?: string | null) => (note ? `${text}\n\nModerator's note: ${note}` : text);
+
+// Emails, live events and file removal wait until the action's changes
+// have committed
+type AfterCommit = () => unknown;
+
+const setHidden = async (target: ReportTarget, hidden: boolean, tx: Queryable): Promise<AfterCommit | undefined> => {
+  if (target.type === 'comment') {
+    await setCommentHidden(target.id, hidden, tx);
+    return undefined;
+  }
+  await setPostHidden(target.id, hidden, tx);
+  if (!hidden) {
+    return undefined;
+  }
+  // Open feeds drop the post the same way as when it is deleted
+  const audience = await postAudience(target.id, tx);
+  return () => publish({ type: 'post:deleted', data: { post_id: target.id } }, audience);
+};
+
+// Suspended accounts are signed out everywhere and can't sign back in
+const setSuspended = async (userId: number, suspended: boolean, tx: Queryable) => {
+  const user = await findUserById(userId, tx);
+  if (suspended && user?.role === 'admin') {
+    throw new ModerationError('Admins cannot be suspended');
+  }
+  await setUserSuspended(userId, suspended, tx);
+  if (suspended) {
+    await revokeAllSessions(userId, tx);
+  }
+};
+
+// Make the action's changes in `tx`. Resolves to the follow-up to run once
+// they have committed, if any.
+const applyAction = async (
+  action: ModerationAction,
+  target: ReportTarget,
+  note: string | null,
+  tx: Queryable
+): Promise<AfterCommit | undefined> => {
+  if (CONTENT_ACTIONS.includes(action) && target.type === 'user') {
+    throw new ModerationError('Only posts and comments can be hidden or removed');
+  }
+
+  switch (action) {
+    case 'hide':
+    case 'unhide':
+      return setHidden(target, action === 'hide', tx);
+    case 'remove':
+      return target.type === 'post' ? removePost(target.id, tx) : removeComment(target.postId!, target.id, tx);
+    case 'warn':
+      return () => {
+        notifyAuthor(
+          target.authorId,
+          'A warning about your account',
+          withNote(`Your ${target.type === 'user' ? 'account' : target.type} was reported and reviewed by our moderators. ` +
+            'Please follow the community guidelines, or your account may be suspended.', note)
+        );
+      };
+    case 'suspend':
+    case 'unsuspend':
+      await setSuspended(target.authorId, action === 'suspend', tx);
+      if (action === 'unsuspend') {
+        return undefined;
+      }
+      return () => {
+        disconnectSessions(target.authorId);
+        notifyAuthor(
+          target.authorId,
+          'Your account has been suspended',
+          withNote('Your account was suspended for breaking the community guidelines.', note)
+        );
+      };
+  }
+};
+
+export interface ModerationRequest {
+  moderatorId: number;
+  action: ModerationAction | 'dismiss';
+  targetType: ReportTargetType;
+  targetId: number;
+  reportId?: number | null;
+  note?: string | null;
+}
+
+// Record an action in the audit log
+const logAction = (request: ModerationRequest, tx: Queryable) =>
+  insertModerationLogEntry({
+    moderator_id: request.moderatorId,
+    action: request.action,
+    target_type: request.targetType,
+    target_id: request.targetId,
+    report_id: request.reportId ?? null,
+    note: request.note ?? null
+  }, tx);
+
+// Take a moderation action and log it, in one transaction so no action goes
+// unlogged. 'dismiss' changes nothing but is still logged, so the audit log
+// shows every decision on a report. Rejects with a ModerationError when the
+// action doesn't apply to the target.
+export const moderate = async (request: ModerationRequest) => {
+  const afterCommit = await withTransaction(async (tx) => {
+    let afterCommit: AfterCommit | undefined;
+    if (request.action !== 'dismiss') {
+      const target = await findTarget(request.targetType, request.targetId, tx);
+      if (!target) {
+        throw new ModerationError(`That ${request.targetType} no longer exists`, 404);
+      }
+      afterCommit = await applyAction(request.action, target, request.note ?? null, tx);
+    }
+    await logAction(request, tx);
+    return afterCommit;
+  });
+  await afterCommit?.();
+};
@@ -0,0 +1,84 @@
+import { publish } from './events';
+import { insertNotification, deleteActorNotifications } from '../repositories/notifications';
+import { findVisiblePost } from '../repositories/visibility';
+
+export type NotificationType =
+  | 'like' | 'comment' | 'reply' | 'follow' | 'mention' | 'follow_request' | 'follow_accepted';
+
+interface NotificationTarget {
+  postId?: number | null;
+  commentId?: number | null;
+  // The comment being replied to, for replies
+  parentId?: number | null;
+}
+
+// Notifications with the same key are listed as one entry, e.g.
+// "alice and 4 others liked your post". Mentions are never grouped.
+const groupKeyFor = (type: NotificationType, target: NotificationTarget): string => {
+  switch (type) {
+    case 'like':
+    case 'comment':
+      return `${type}:${target.postId}`;
+    case 'reply':
+      return `reply:${target.parentId}`;
+    case 'follow':
+    case 'follow_request':
+    case 'follow_accepted':
+      return type;
+    case 'mention':
+      return `mention:${target.postId}:${target.commentId ?? 'caption'}`;
+  }
+};
+
+// Likes, follows and mentions can be repeated (unlike then like again, or
+// editing a caption), but should only notify once per actor.
+const ONCE_PER_ACTOR: NotificationType[] = ['like', 'follow', 'mention', 'follow_request', 'follow_accepted'];
+
+// Record a notification for `userId` about something `actorId` did.
+// Acting on your own content never notifies you, and neither does anything
+// from someone you blocked or who blocked you. Mentions in a post the user
+// can't see, e.g. one on a private account they don't follow, are dropped.
+export const notify = (
+  userId: number,
+  actorId: number,
+  type: NotificationType,
+  target: NotificationTarget = {}
+) => {
+  if (!userId || userId === actorId) {
+    return;
+  }
+
+  const notification = {
+    userId,
+    actorId,
+    type,
+    postId: target.postId ?? null,
+    commentId: target.commentId ?? null,
+    groupKey: groupKeyFor(type, target)
+  };
+  const visible = type === 'mention' && notification.postId
+    ? findVisiblePost(userId, notification.postId).then(post => !!post)
+    : Promise.resolve(true);
+  visible
+    .then(allowed => allowed && insertNotification(notification, ONCE_PER_ACTOR.includes(type)))
+    .then((inserted) => {
+      // Let the recipient's open tabs refresh their badge
+      if (inserted) {
+        publish({ type: 'notification', data: {} }, [userId]);
+      }
+    })
+    .catch(err => console.error('Failed to record notification', err));
+};
+
+// Withdraw a like, follow or follow request notification when the action
+// is undone (or the request is answered)
+export const removeNotification = (
+  actorId: number,
+  type: 'like' | 'follow' | 'follow_request',
+  target: { postId?: number | string; userId?: number | string }
+) => {
+  const removal = type === 'like'
+    ? deleteActorNotifications(actorId, `like:${target.postId}`)
+    : deleteActorNotifications(actorId, type, target.userId);
+  removal.catch(err => console.error('Failed to remove notification', err));
+};
@@ -0,0 +1,57 @@
+// Where rate limiters and the login lockout keep their counters. The default
+// keeps them in process memory, which is lost on restart and not shared
+// between server instances; a persistent store (Redis, SQLite, ...) can be
+// installed with setRateLimitStore.
+export interface RateLimitStore {
+  get<T>(key: string): Promise<T | undefined>;
+  // ttlMs is how long the value is worth keeping; stores may drop it after
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+const SWEEP_INTERVAL = 60 * 1000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  constructor() {
+    // Drop expired entries so idle keys don't accumulate forever
+    setInterval(() => {
+      const now = Date.now();
+      for (const [key, entry] of this.entries) {
+        if (entry.expiresAt <= now) {
+          this.entries.delete(key);
+        }
+      }
+    }, SWEEP_INTERVAL).unref();
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+export const getRateLimitStore = (): RateLimitStore => {
+  if (!store) {
+    store = new MemoryRateLimitStore();
+  }
+  return store;
+};
+
+export const setRateLimitStore = (next: RateLimitStore) => {
+  store = next;
+};
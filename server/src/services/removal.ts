@@ -0,0 +1,64 @@
+import { deletePost as deletePostRows } from '../repositories/posts';
+import { deleteCommentThread } from '../repositories/comments';
+import { withTransaction, Queryable } from '../repositories/db';
+import { publish } from './events';
+import { removeUpload, withImageVariants } from './images';
+import { postAudience } from './visibility';
+
+// What is left to do once a removal has committed
+export type AfterRemoval = () => Promise<void>;
+
+// Delete a post with its likes, comments, media, hashtags and notifications
+// in `tx`. Resolves to the follow-up for after the commit: telling the
+// clients that could see the post, then removing its image files. Undefined
+// when there was no such post.
+export const removePost = async (postId: number | string, tx: Queryable): Promise<AfterRemoval | undefined> => {
+  // Who could see the post can only be worked out while it still exists
+  const audience = await postAudience(postId, tx);
+  const images = await deletePostRows(postId, tx);
+  if (!images) {
+    return undefined;
+  }
+
+  return async () => {
+    publish({ type: 'post:deleted', data: { post_id: Number(postId) } }, audience);
+
+    // The cover image repeats the first carousel item, so collect unique URLs
+    const urls = new Set(images.flatMap((image) => [
+      image.image_url,
+      ...withImageVariants(image).variants.map(variant => variant.url)
+    ]));
+    await Promise.all([...urls].map(removeUpload));
+  };
+};
+
+// Delete a comment, and its replies if it is a top-level comment, in `tx`.
+// Resolves to the follow-up that tells open clients, or undefined when there
+// was no such comment.
+export const removeComment = async (
+  postId: number | string,
+  commentId: number | string,
+  tx: Queryable
+): Promise<AfterRemoval | undefined> => {
+  if (!(await deleteCommentThread(commentId, tx))) {
+    return undefined;
+  }
+  const audience = await postAudience(postId, tx);
+  return async () => {
+    publish({ type: 'comment:deleted', data: { post_id: Number(postId), comment_id: Number(commentId) } }, audience);
+  };
+};
+
+// Delete a post in a transaction of its own, then finish up. Used when
+// authors delete their own posts.
+export const deletePost = async (postId: number | string) => {
+  const finish = await withTransaction(tx => removePost(postId, tx));
+  await finish?.();
+};
+
+// Delete a comment and its replies in a transaction of its own, then tell
+// open clients
+export const deleteComment = async (postId: number | string, commentId: number | string) => {
+  const finish = await withTransaction(tx => removeComment(postId, commentId, tx));
+  await finish?.();
+};
@@ -0,0 +1,294 @@
+import crypto from 'crypto';
+import { Response } from 'express';
+import { StorageBackend, StoredFile, StoredObject } from './storage';
+
+// Stores files in an S3 bucket, or anything that speaks the S3 API such as
+// MinIO. Requests are signed with AWS Signature Version 4.
+export interface S3Config {
+  bucket: string;
+  region: string;
+  // e.g. http://localhost:9000 for MinIO; AWS when unset
+  endpoint: string;
+  // bucket in the path (endpoint/bucket/key) rather than the host name
+  pathStyle: boolean;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // Prepended to every key, e.g. "uploads/"
+  prefix: string;
+  // 'proxy' streams files through this server; 'signed' redirects clients
+  // to a short-lived signed URL on the bucket itself
+  urlMode: 'proxy' | 'signed';
+  signedUrlTtl: number;
+}
+
+export const getS3Config = (): S3Config => {
+  const { S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+  if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+    throw new Error('STORAGE_BACKEND=s3 needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+  }
+  const region = process.env.S3_REGION || 'us-east-1';
+  const endpoint = process.env.S3_ENDPOINT;
+
+  return {
+    bucket: S3_BUCKET,
+    region,
+    endpoint: (endpoint || `https://s3.${region}.amazonaws.com`).replace(/\/$/, ''),
+    // Self-hosted stand-ins rarely have wildcard DNS for bucket subdomains
+    pathStyle: process.env.S3_FORCE_PATH_STYLE ? process.env.S3_FORCE_PATH_STYLE === 'true' : !!endpoint,
+    accessKeyId: S3_ACCESS_KEY_ID,
+    secretAccessKey: S3_SECRET_ACCESS_KEY,
+    prefix: process.env.S3_PREFIX || '',
+    urlMode: process.env.S3_URL_MODE === 'signed' ? 'signed' : 'proxy',
+    signedUrlTtl: Number(process.env.S3_SIGNED_URL_TTL) || 3600
+  };
+};
+
+export class S3StorageError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'S3StorageError';
+    this.status = status;
+  }
+}
+
+// RFC 3986 encoding, as Signature Version 4 requires
+const encode = (value: string) =>
+  encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const sha256 = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+
+const hmac = (key: string | Buffer, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+
+// 20130524T000000Z
+const toAmzDate = (date: Date) => date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+
+interface SigningRequest {
+  method: string;
+  url: URL;
+  // Signed along with the host
+  headers: Record<string, string>;
+  payloadHash: string;
+  date: Date;
+}
+
+// The signature of a request, and the credential scope it was made in
+export const signRequest = (
+  config: Pick<S3Config, 'region' | 'accessKeyId' | 'secretAccessKey'>,
+  { method, url, headers, payloadHash, date }: SigningRequest
+) => {
+  const amzDate = toAmzDate(date);
+  const scope = `${amzDate.slice(0, 8)}/${config.region}/s3/aws4_request`;
+
+  const allHeaders: Record<string, string> = { host: url.host };
+  Object.entries(headers).forEach(([name, value]) => {
+    allHeaders[name.toLowerCase()] = value.trim();
+  });
+  const headerNames = Object.keys(allHeaders).sort();
+  const signedHeaders = headerNames.join(';');
+
+  const query = [...url.searchParams.entries()]
+    .map(([name, value]) => [encode(name), encode(value)])
+    .sort(([a, x], [b, y]) => (a === b ? (x < y ? -1 : 1) : a < b ? -1 : 1))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    query,
+    ...headerNames.map(name => `${name}:${allHeaders[name]}`),
+    '',
+    signedHeaders,
+    payloadHash
+  ].join('\n');
+
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+  const signingKey = ['s3', 'aws4_request'].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${config.secretAccessKey}`, amzDate.slice(0, 8)), config.region)
+  );
+
+  return {
+    signature: crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex'),
+    credential: `${config.accessKeyId}/${scope}`,
+    signedHeaders
+  };
+};
+
+// A URL that lets anyone GET the object until it expires
+export const presignUrl = (
+  config: Pick<S3Config, 'region' | 'accessKeyId' | 'secretAccessKey'>,
+  url: URL,
+  expiresIn: number,
+  date = new Date()
+): string => {
+  const amzDate = toAmzDate(date);
+  const signed = new URL(url);
+  signed.searchParams.set('X-Amz-Algorithm', 'AWS4-HMAC-SHA256');
+  signed.searchParams.set('X-Amz-Credential', `${config.accessKeyId}/${amzDate.slice(0, 8)}/${config.region}/s3/aws4_request`);
+  signed.searchParams.set('X-Amz-Date', amzDate);
+  signed.searchParams.set('X-Amz-Expires', String(expiresIn));
+  signed.searchParams.set('X-Amz-SignedHeaders', 'host');
+
+  const { signature } = signRequest(config, {
+    method: 'GET', url: signed, headers: {}, payloadHash: 'UNSIGNED-PAYLOAD', date
+  });
+  signed.searchParams.set('X-Amz-Signature', signature);
+  return signed.toString();
+};
+
+const xmlValues = (xml: string, tag: string) =>
+  [...xml.matchAll(new RegExp(`<${tag}>([^<]*)</${tag}>`, 'g'))].map(([, value]) =>
+    value
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&'));
+
+// Quarantined objects keep their key under this prefix. Listings skip them,
+// since keys can't contain a slash.
+const QUARANTINE_PREFIX = '.quarantine/';
+
+export class S3Storage implements StorageBackend {
+  readonly name = 's3';
+  private config: S3Config;
+
+  constructor(config: S3Config) {
+    this.config = config;
+  }
+
+  private objectPath(key: string) {
+    return `/${(this.config.prefix + key).split('/').map(encode).join('/')}`;
+  }
+
+  // The bucket's URL, or an object's when a key is given
+  private url(key?: string): URL {
+    const { endpoint, bucket, pathStyle } = this.config;
+    const objectPath = key === undefined ? '' : this.objectPath(key);
+    if (pathStyle) {
+      return new URL(`${endpoint}/${encode(bucket)}${objectPath}`);
+    }
+    const base = new URL(endpoint);
+    return new URL(`${base.protocol}//${bucket}.${base.host}${objectPath || '/'}`);
+  }
+
+  // x-amz-* headers among `headers` are signed, as S3 requires
+  private async request(method: string, url: URL, body?: Buffer, headers: Record<string, string> = {}) {
+    const date = new Date();
+    const payloadHash = sha256(body || '');
+    const amzHeaders: Record<string, string> = { 'x-amz-content-sha256': payloadHash, 'x-amz-date': toAmzDate(date) };
+    Object.entries(headers)
+      .filter(([name]) => name.toLowerCase().startsWith('x-amz-'))
+      .forEach(([name, value]) => {
+        amzHeaders[name.toLowerCase()] = value;
+      });
+    const { signature, credential, signedHeaders } = signRequest(this.config, {
+      method, url, headers: amzHeaders, payloadHash, date
+    });
+
+    return fetch(url, {
+      method,
+      body,
+      headers: {
+        ...headers,
+        ...amzHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${credential}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+      }
+    });
+  }
+
+  private async fail(action: string, response: globalThis.Response): Promise<never> {
+    const body = await response.text().catch(() => '');
+    const code = xmlValues(body, 'Code')[0];
+    throw new S3StorageError(response.status, `S3 ${action} failed with ${response.status}${code ? ` (${code})` : ''}`);
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const response = await this.request('PUT', this.url(key), body, { 'Content-Type': contentType });
+    if (!response.ok) {
+      await this.fail(`upload of ${key}`, response);
+    }
+  }
+
+  async get(key: string): Promise<StoredFile | null> {
+    const response = await this.request('GET', this.url(key));
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      await this.fail(`download of ${key}`, response);
+    }
+    return {
+      body: Buffer.from(await response.arrayBuffer()),
+      contentType: response.headers.get('content-type') || 'application/octet-stream'
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', this.url(key));
+    if (!response.ok && response.status !== 404) {
+      await this.fail(`delete of ${key}`, response);
+    }
+  }
+
+  // Every object under the prefix, a page of up to 1000 at a time
+  async list(): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const url = this.url();
+      url.searchParams.set('list-type', '2');
+      url.searchParams.set('prefix', this.config.prefix);
+      if (continuationToken) {
+        url.searchParams.set('continuation-token', continuationToken);
+      }
+      const response = await this.request('GET', url);
+      if (!response.ok) {
+        await this.fail('listing', response);
+      }
+      const xml = await response.text();
+      [...xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)].forEach(([, contents]) => {
+        const key = xmlValues(contents, 'Key')[0].slice(this.config.prefix.length);
+        if (!key.includes('/')) {
+          objects.push({
+            key,
+            size: Number(xmlValues(contents, 'Size')[0]),
+            modifiedAt: new Date(xmlValues(contents, 'LastModified')[0])
+          });
+        }
+      });
+      continuationToken = xmlValues(xml, 'IsTruncated')[0] === 'true'
+        ? xmlValues(xml, 'NextContinuationToken')[0]
+        : undefined;
+    } while (continuationToken);
+    return objects;
+  }
+
+  // Copy the object under the quarantine prefix, then delete the original
+  async quarantine(key: string): Promise<void> {
+    const copySource = `/${encode(this.config.bucket)}${this.objectPath(key)}`;
+    const response = await this.request('PUT', this.url(QUARANTINE_PREFIX + key), undefined, {
+      'x-amz-copy-source': copySource
+    });
+    if (!response.ok) {
+      await this.fail(`quarantine of ${key}`, response);
+    }
+    await this.delete(key);
+  }
+
+  async send(key: string, res: Response): Promise<void> {
+    if (this.config.urlMode === 'signed') {
+      return res.redirect(302, presignUrl(this.config, this.url(key), this.config.signedUrlTtl));
+    }
+
+    const file = await this.get(key);
+    if (!file) {
+      res.sendStatus(404);
+      return;
+    }
+    res.type(file.contentType).send(file.body);
+  }
+}
@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { UserRole } from '../repositories/types';
+import { Queryable } from '../repositories/db';
+import {
+  insertSession, findLiveSessionByToken, replaceSessionToken, findSessionUser,
+  revokeSessionById, revokeUserSessions
+} from '../repositories/sessions';
+
+// The placeholder shipped in the sample .env must never sign real tokens
+const PLACEHOLDER_SECRET = 'your-secret-key-change-in-production';
+const DEVELOPMENT_SECRET = 'secret';
+
+// Defaults: access tokens live 15 minutes, refresh tokens 30 days
+export const getTokenLifetimes = () => ({
+  accessTokenTtl: process.env.ACCESS_TOKEN_TTL || '15m',
+  refreshTokenDays: Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30
+});
+
+const isProduction = () => process.env.NODE_ENV === 'production';
+
+// Development falls back to a fixed secret; production refuses to start
+// without a real one (see assertAuthConfig).
+export const getJwtSecret = (): string => process.env.JWT_SECRET || DEVELOPMENT_SECRET;
+
+// Called on startup, before the server accepts requests
+export const assertAuthConfig = () => {
+  const secret = process.env.JWT_SECRET;
+  if (isProduction() && (!secret || secret === PLACEHOLDER_SECRET)) {
+    throw new Error('JWT_SECRET must be set to a unique value when NODE_ENV=production');
+  }
+};
+
+export interface Tokens {
+  token: string;
+  refreshToken: string;
+}
+
+export interface AccessTokenPayload {
+  userId: number;
+  sessionId: number;
+}
+
+// What a live session says about its user, looked up on every request so
+// role changes and suspensions apply immediately
+export interface VerifiedSession extends AccessTokenPayload {
+  role: UserRole;
+  suspended: boolean;
+}
+
+export class SessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const newRefreshToken = () => crypto.randomBytes(32).toString('hex');
+
+const signAccessToken = (userId: number, sessionId: number) =>
+  jwt.sign({ userId, sid: sessionId }, getJwtSecret(), {
+    expiresIn: getTokenLifetimes().accessTokenTtl
+  } as jwt.SignOptions);
+
+// Decode an access token. Throws if it is malformed, expired or was signed
+// before sessions existed.
+export const decodeAccessToken = (token: string): AccessTokenPayload => {
+  const decoded = jwt.verify(token, getJwtSecret()) as { userId: number; sid?: number };
+  if (!decoded.sid) {
+    throw new SessionError('Token has no session');
+  }
+  return { userId: decoded.userId, sessionId: decoded.sid };
+};
+
+// Start a session for a user who just signed in
+export const createSession = async (userId: number, userAgent: string | undefined): Promise<Tokens> => {
+  const refreshToken = newRefreshToken();
+  const sessionId = await insertSession(
+    userId, hashToken(refreshToken), userAgent || '', getTokenLifetimes().refreshTokenDays
+  );
+  return { token: signAccessToken(userId, sessionId), refreshToken };
+};
+
+// Exchange a refresh token for a new access token and a new refresh token.
+// The old refresh token stops working; presenting it again afterwards is
+// treated as theft and ends the session. Rejects with a SessionError when
+// the token can't be used.
+export const rotateSession = async (refreshToken: string): Promise<Tokens> => {
+  const tokenHash = hashToken(refreshToken);
+
+  const session = await findLiveSessionByToken(tokenHash);
+  if (!session) {
+    throw new SessionError('Invalid refresh token');
+  }
+  if (session.token_hash !== tokenHash) {
+    await revokeSessionById(session.id);
+    throw new SessionError('Refresh token was already used');
+  }
+
+  const nextToken = newRefreshToken();
+  const rotated = await replaceSessionToken(
+    session.id, tokenHash, hashToken(nextToken), getTokenLifetimes().refreshTokenDays
+  );
+  // Another request rotated the same token first
+  if (!rotated) {
+    throw new SessionError('Refresh token was already used');
+  }
+  return { token: signAccessToken(session.user_id, session.id), refreshToken: nextToken };
+};
+
+// Resolve an access token to its user. Resolves to null for revoked or
+// expired sessions, and when the lookup fails.
+export const verifyAccessToken = async (token: string): Promise<VerifiedSession | null> => {
+  let payload: AccessTokenPayload;
+  try {
+    payload = decodeAccessToken(token);
+  } catch (error) {
+    return null;
+  }
+
+  const user = await findSessionUser(payload.sessionId, payload.userId).catch(() => undefined);
+  if (!user) {
+    return null;
+  }
+  return { ...payload, role: user.role, suspended: !!user.suspended_at };
+};
+
+export const revokeSession = (sessionId: number) => revokeSessionById(sessionId);
+
+// "Log out of all devices"
+export const revokeAllSessions = (userId: number, q?: Queryable) => revokeUserSessions(userId, null, q);
+
+// End every session of a user except the one making the request
+export const revokeOtherSessions = (userId: number, keepSessionId: number) =>
+  revokeUserSessions(userId, keepSessionId);
@@ -0,0 +1,162 @@
+import fs from 'fs';
+import path from 'path';
+import { Response } from 'express';
+import { S3Storage, getS3Config } from './s3Storage';
+
+// Uploaded files are addressed by key, the file name the server gave them.
+// Clients always load them from /uploads/<key> on this server, which
+// answers from whichever backend is configured, so stored URLs keep working
+// when files move between backends.
+export interface StoredFile {
+  body: Buffer;
+  contentType: string;
+}
+
+// A file as listed by its backend
+export interface StoredObject {
+  key: string;
+  size: number;
+  modifiedAt: Date;
+}
+
+export interface StorageBackend {
+  readonly name: StorageBackendName;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  // Resolves to null when there is no such file
+  get(key: string): Promise<StoredFile | null>;
+  // Deleting a missing file is not an error
+  delete(key: string): Promise<void>;
+  list(): Promise<StoredObject[]>;
+  // Take a file out of service without destroying it. Quarantined files are
+  // no longer listed or served, and are kept for an operator to inspect.
+  quarantine(key: string): Promise<void>;
+  // Answer a request for /uploads/<key>
+  send(key: string, res: Response): Promise<void>;
+}
+
+export const STORAGE_BACKENDS = ['local', 's3'] as const;
+export type StorageBackendName = typeof STORAGE_BACKENDS[number];
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp'
+};
+
+export const contentTypeFor = (key: string) =>
+  CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream';
+
+// Keys are plain file names, so one can never point outside the store
+export const isValidKey = (key: string) => /^[\w-][\w.-]*$/.test(key);
+
+// Not a valid key, so nothing in it can be requested through /uploads
+const QUARANTINE_DIR = '.quarantine';
+
+const UPLOAD_URL_PREFIX = '/uploads/';
+
+export const uploadUrl = (key: string) => `${UPLOAD_URL_PREFIX}${key}`;
+
+// The key behind an upload's URL, or null for other URLs such as the
+// default avatar
+export const uploadKey = (url: string | null | undefined): string | null => {
+  if (!url || !url.startsWith(UPLOAD_URL_PREFIX)) {
+    return null;
+  }
+  const key = url.slice(UPLOAD_URL_PREFIX.length);
+  return isValidKey(key) ? key : null;
+};
+
+// Keeps files in a directory on this host. UPLOAD_DIR defaults to
+// server/uploads wherever the server is started from. Quarantined files move
+// to its .quarantine subdirectory.
+export class DiskStorage implements StorageBackend {
+  readonly name = 'local';
+  private dir: string;
+
+  constructor(dir = process.env.UPLOAD_DIR || path.join(__dirname, '../../uploads')) {
+    this.dir = path.resolve(dir);
+    fs.mkdirSync(this.dir, { recursive: true });
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    await fs.promises.writeFile(path.join(this.dir, key), body);
+  }
+
+  async get(key: string): Promise<StoredFile | null> {
+    try {
+      const body = await fs.promises.readFile(path.join(this.dir, key));
+      return { body, contentType: contentTypeFor(key) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.unlink(path.join(this.dir, key)).catch((error: NodeJS.ErrnoException) => {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    });
+  }
+
+  async list(): Promise<StoredObject[]> {
+    const entries = await fs.promises.readdir(this.dir, { withFileTypes: true });
+    return Promise.all(
+      entries
+        .filter(entry => entry.isFile() && isValidKey(entry.name))
+        .map(async (entry) => {
+          const stats = await fs.promises.stat(path.join(this.dir, entry.name));
+          return { key: entry.name, size: stats.size, modifiedAt: stats.mtime };
+        })
+    );
+  }
+
+  async quarantine(key: string): Promise<void> {
+    const quarantineDir = path.join(this.dir, QUARANTINE_DIR);
+    await fs.promises.mkdir(quarantineDir, { recursive: true });
+    await fs.promises.rename(path.join(this.dir, key), path.join(quarantineDir, key));
+  }
+
+  send(key: string, res: Response): Promise<void> {
+    return new Promise((resolve) => {
+      res.sendFile(key, { root: this.dir, dotfiles: 'deny' }, (err) => {
+        if (err && !res.headersSent) {
+          res.sendStatus(404);
+        }
+        resolve();
+      });
+    });
+  }
+}
+
+// Build a backend by name, configured from the environment
+export const createStorage = (name: string): StorageBackend => {
+  switch (name) {
+    case 'local':
+      return new DiskStorage();
+    case 's3':
+      return new S3Storage(getS3Config());
+    default:
+      throw new Error(`Unknown storage backend "${name}"; expected one of ${STORAGE_BACKENDS.join(', ')}`);
+  }
+};
+
+let storage: StorageBackend | null = null;
+
+// STORAGE_BACKEND picks the backend; local disk unless it says s3
+export const getStorage = (): StorageBackend => {
+  if (!storage) {
+    storage = createStorage(process.env.STORAGE_BACKEND || 'local');
+  }
+  return storage;
+};
+
+// Swap the backend, e.g. for an in-memory one in tests
+export const setStorage = (next: StorageBackend) => {
+  storage = next;
+};
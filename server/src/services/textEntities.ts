@@ -0,0 +1,35 @@
+import { Queryable } from '../repositories/db';
+import { replaceTextEntities } from '../repositories/textEntities';
+
+const HASHTAG_PATTERN = /#([\p{L}\p{N}_]+)/gu;
+// A mention never ends on a period, so "thanks @bob." mentions bob
+const MENTION_PATTERN = /@([A-Za-z0-9_.]*[A-Za-z0-9_])/g;
+
+export interface Mention {
+  user_id: number;
+  username: string;
+}
+
+// Hashtags are stored lowercased, so #Sunset and #sunset share a tag page
+export const extractHashtags = (text: string): string[] =>
+  [...new Set(Array.from(text.matchAll(HASHTAG_PATTERN), m => m[1].toLowerCase()))];
+
+export const extractMentions = (text: string): string[] =>
+  [...new Set(Array.from(text.matchAll(MENTION_PATTERN), m => m[1]))];
+
+// Re-index the hashtags and mentions of a caption (commentId = null) or a
+// comment. Existing rows for that text are replaced, so this is called on
+// every create and edit. Mentions of unknown usernames are dropped. Resolves
+// to the ids of the users that were mentioned.
+export const indexTextEntities = (postId: number, commentId: number | null, text: string, tx?: Queryable) =>
+  replaceTextEntities(postId, commentId, extractHashtags(text || ''), extractMentions(text || ''), tx);
+
+export const withMentions = <T extends { mentions?: string }>(row: T) => {
+  let mentions: Mention[] = [];
+  try {
+    mentions = JSON.parse(row.mentions || '[]');
+  } catch (error) {
+    // Leave mentions empty; clients render the text as-is
+  }
+  return { ...row, mentions };
+};
@@ -0,0 +1,181 @@
+import { getStorage, uploadKey, StorageBackend, StoredObject } from './storage';
+import { withImageVariants } from './images';
+import { findOwnedImages } from '../repositories/uploads';
+import { OwnedImageRow } from '../repositories/types';
+
+// Finds uploads that nothing in the database refers to any more - left by a
+// failed post insert, a crash between deleting rows and files, or older
+// versions that never removed files - and quarantines or deletes them. The
+// same pass adds up how much storage each account uses.
+export const ORPHAN_ACTIONS = ['quarantine', 'delete'] as const;
+export type OrphanAction = typeof ORPHAN_ACTIONS[number];
+
+export interface CleanupOptions {
+  // Orphans younger than this are left alone: an upload is stored before
+  // the row that refers to it is saved
+  graceMs: number;
+  action: OrphanAction;
+  // Report what would happen without touching any file
+  dryRun: boolean;
+}
+
+export interface StorageUsage {
+  userId: number;
+  username: string;
+  files: number;
+  bytes: number;
+}
+
+export interface CleanupReport {
+  files: number;
+  bytes: number;
+  orphans: StoredObject[];
+  // Orphans past the grace period, and how many of those were removed
+  expired: number;
+  removed: number;
+  failed: number;
+  // Referenced by the database but not in storage
+  missing: string[];
+  // Largest first
+  usage: StorageUsage[];
+}
+
+const HOUR = 60 * 60 * 1000;
+
+// A number of hours from the environment; 0 is allowed
+const hoursFromEnv = (name: string, fallback: number) => {
+  const value = process.env[name];
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const hours = Number(value);
+  if (!Number.isFinite(hours) || hours < 0) {
+    throw new Error(`${name} must be a number of hours`);
+  }
+  return hours;
+};
+
+// UPLOAD_ORPHAN_GRACE_HOURS defaults to a day; UPLOAD_ORPHAN_ACTION to
+// quarantine, so a misconfigured database can't wipe out every upload
+export const getCleanupOptions = (): CleanupOptions => ({
+  graceMs: hoursFromEnv('UPLOAD_ORPHAN_GRACE_HOURS', 24) * HOUR,
+  action: process.env.UPLOAD_ORPHAN_ACTION === 'delete' ? 'delete' : 'quarantine',
+  dryRun: false
+});
+
+// The stored files behind each image, keyed to the row that uses them
+const ownersByKey = (rows: OwnedImageRow[]) => {
+  const owners = new Map<string, OwnedImageRow>();
+  rows.forEach((row) => {
+    [row.image_url, ...withImageVariants(row).variants.map(variant => variant.url)].forEach((url) => {
+      const key = uploadKey(url);
+      if (key) {
+        owners.set(key, row);
+      }
+    });
+  });
+  return owners;
+};
+
+export const cleanUploads = async (
+  options: CleanupOptions = getCleanupOptions(),
+  storage: StorageBackend = getStorage()
+): Promise<CleanupReport> => {
+  // Listing first means a file stored during the scan is either referenced
+  // by the time the database is read, or too new to be touched
+  const objects = await storage.list();
+  const owners = ownersByKey(await findOwnedImages());
+
+  const usage = new Map<number, StorageUsage>();
+  const orphans: StoredObject[] = [];
+  objects.forEach((object) => {
+    const owner = owners.get(object.key);
+    if (!owner) {
+      orphans.push(object);
+      return;
+    }
+    const entry = usage.get(owner.user_id) || { userId: owner.user_id, username: owner.username, files: 0, bytes: 0 };
+    entry.files++;
+    entry.bytes += object.size;
+    usage.set(owner.user_id, entry);
+  });
+
+  const stored = new Set(objects.map(object => object.key));
+  const cutoff = Date.now() - options.graceMs;
+  const expired = orphans.filter(object => object.modifiedAt.getTime() <= cutoff);
+
+  let removed = 0;
+  let failed = 0;
+  if (!options.dryRun) {
+    // One at a time, to go easy on the disk or bucket
+    for (const { key } of expired) {
+      try {
+        await (options.action === 'delete' ? storage.delete(key) : storage.quarantine(key));
+        removed++;
+      } catch (error) {
+        console.error(`Failed to ${options.action} orphaned upload ${key}`, error);
+        failed++;
+      }
+    }
+  }
+
+  return {
+    files: objects.length,
+    bytes: objects.reduce((total, object) => total + object.size, 0),
+    orphans,
+    expired: expired.length,
+    removed,
+    failed,
+    missing: [...owners.keys()].filter(key => !stored.has(key)),
+    usage: [...usage.values()].sort((a, b) => b.bytes - a.bytes)
+  };
+};
+
+// The first run waits for the server to settle after starting
+const FIRST_RUN_DELAY = 60 * 1000;
+// Node timers can't wait longer than this (about 24.8 days)
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+let running = false;
+
+const runScheduledCleanup = async () => {
+  // A slow bucket could make a run outlast the interval
+  if (running) {
+    return;
+  }
+  running = true;
+  try {
+    const options = getCleanupOptions();
+    const report = await cleanUploads(options);
+    if (report.orphans.length || report.missing.length) {
+      const verb = options.action === 'delete' ? 'deleted' : 'quarantined';
+      console.log(
+        `🧹 Upload cleanup: ${report.orphans.length} orphaned file(s), ${report.removed} ${verb}` +
+        `${report.failed ? `, ${report.failed} failed` : ''}; ${report.missing.length} referenced file(s) missing`
+      );
+    }
+  } catch (error) {
+    console.error('Upload cleanup failed', error);
+  } finally {
+    running = false;
+  }
+};
+
+// Clean up every UPLOAD_CLEANUP_INTERVAL_HOURS (default 24; 0 turns the job
+// off). Timers are unref'd so they never keep the process alive.
+export const startUploadCleanup = () => {
+  let intervalHours: number;
+  try {
+    intervalHours = hoursFromEnv('UPLOAD_CLEANUP_INTERVAL_HOURS', 24);
+    // Report bad settings now rather than at the first run
+    getCleanupOptions();
+  } catch (error) {
+    console.error(`❌ Upload cleanup is off: ${(error as Error).message}`);
+    return;
+  }
+  if (!intervalHours) {
+    return;
+  }
+  setTimeout(runScheduledCleanup, FIRST_RUN_DELAY).unref();
+  setInterval(runScheduledCleanup, Math.min(intervalHours * HOUR, MAX_TIMER_DELAY)).unref();
+};
@@ -0,0 +1,25 @@
+import crypto from 'crypto';
+import { replaceUserToken, useUserToken } from '../repositories/userTokens';
+
+export type UserTokenPurpose = 'verify_email' | 'reset_password';
+
+// How long each kind of link stays valid, in minutes
+const TOKEN_LIFETIME_MINUTES: Record<UserTokenPurpose, number> = {
+  verify_email: 24 * 60,
+  reset_password: 60
+};
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Issue a new single-use token. Earlier unused tokens for the same purpose
+// stop working, so only the most recent email's link is valid.
+export const issueUserToken = async (userId: number, purpose: UserTokenPurpose): Promise<string> => {
+  const token = crypto.randomBytes(32).toString('hex');
+  await replaceUserToken(userId, purpose, hashToken(token), TOKEN_LIFETIME_MINUTES[purpose]);
+  return token;
+};
+
+// Use up a token. Resolves to the token's user, or null when the token is
+// unknown, expired, already used or meant for something else.
+export const consumeUserToken = async (token: string, purpose: UserTokenPurpose): Promise<number | null> =>
+  (await useUserToken(hashToken(token), purpose)) ?? null;
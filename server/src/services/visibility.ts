@@ -0,0 +1,14 @@
+import { findPrivatePostAudience } from '../repositories/visibility';
+import { Queryable } from '../repositories/db';
+
+// Who should receive live events about a post: undefined (everyone) for a
+// public account, otherwise the owner and their followers. Nobody gets the
+// event if the lookup fails.
+export const postAudience = async (postId: number | string, q?: Queryable): Promise<number[] | undefined> => {
+  try {
+    const userIds = await findPrivatePostAudience(postId, q);
+    return userIds.length > 0 ? userIds : undefined;
+  } catch (error) {
+    return [];
+  }
+};
@@ -0,0 +1,56 @@
+import { Response } from 'express';
+
+// Machine-readable error codes. Clients branch on these; `message` is for people.
+export type ErrorCode =
+  | 'VALIDATION_FAILED'
+  | 'BAD_REQUEST'
+  | 'INVALID_CREDENTIALS'
+  | 'INVALID_TOKEN'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'PRIVATE_ACCOUNT'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'UNSUPPORTED_MEDIA_TYPE'
+  | 'RATE_LIMITED'
+  | 'ACCOUNT_LOCKED'
+  | 'ACCOUNT_SUSPENDED'
+  | 'SERVER_ERROR';
+
+// Messages keyed by field path, e.g. { email: 'Enter a valid email address' }
+export type FieldErrors = Record<string, string>;
+
+export interface ErrorBody {
+  error: {
+    code: ErrorCode;
+    message: string;
+    fields?: FieldErrors;
+  };
+}
+
+const CODES_BY_STATUS: Record<number, ErrorCode> = {
+  400: 'BAD_REQUEST',
+  401: 'UNAUTHORIZED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+  413: 'PAYLOAD_TOO_LARGE',
+  415: 'UNSUPPORTED_MEDIA_TYPE',
+  429: 'RATE_LIMITED'
+};
+
+export const codeForStatus = (status: number): ErrorCode => CODES_BY_STATUS[status] || 'SERVER_ERROR';
+
+// Every error response goes out as { error: { code, message, fields? } }.
+// The code defaults to the one matching the status.
+export const sendError = (
+  res: Response,
+  status: number,
+  message: string,
+  code: ErrorCode = codeForStatus(status),
+  fields?: FieldErrors
+) => {
+  const body: ErrorBody = { error: { code, message, ...(fields && { fields }) } };
+  return res.status(status).json(body);
+};
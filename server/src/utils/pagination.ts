@@ -0,0 +1,70 @@
+import { Request } from 'express';
+import { SqlCondition } from '../repositories/db';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+export interface Cursor {
+  createdAt: string;
+  id: number;
+}
+
+export interface PageParams {
+  before: Cursor | null;
+  limit: number;
+}
+
+// Parse `?before=<created_at,id>&limit=` from the query string.
+// Returns null when the cursor or limit is malformed.
+export const parsePageParams = (req: Request): PageParams | null => {
+  const { before, limit } = req.query;
+
+  let parsedLimit = DEFAULT_LIMIT;
+  if (limit !== undefined) {
+    parsedLimit = Number(limit);
+    if (!Number.isInteger(parsedLimit) || parsedLimit < 1) {
+      return null;
+    }
+    parsedLimit = Math.min(parsedLimit, MAX_LIMIT);
+  }
+
+  if (before === undefined || before === '') {
+    return { before: null, limit: parsedLimit };
+  }
+  if (typeof before !== 'string') {
+    return null;
+  }
+
+  const separator = before.lastIndexOf(',');
+  const createdAt = before.slice(0, separator);
+  const id = Number(before.slice(separator + 1));
+  if (separator < 1 || !Number.isInteger(id)) {
+    return null;
+  }
+
+  return { before: { createdAt, id }, limit: parsedLimit };
+};
+
+// Builds the keyset condition for rows older than the cursor, newest first.
+// `table` is the table whose created_at/id columns define the order.
+export const cursorCondition = (table: string, page: PageParams): SqlCondition => {
+  if (!page.before) {
+    return { sql: '1 = 1', params: [] };
+  }
+  return {
+    sql: `(${table}.created_at < ? OR (${table}.created_at = ? AND ${table}.id < ?))`,
+    params: [page.before.createdAt, page.before.createdAt, page.before.id]
+  };
+};
+
+// Rows are fetched with `limit + 1` so we know whether another page exists
+// without running a separate COUNT query.
+export const buildPage = <T extends { id: number; created_at: string }>(
+  rows: T[],
+  limit: number
+): { items: T[]; nextCursor: string | null } => {
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  const nextCursor = rows.length > limit && last ? `${last.created_at},${last.id}` : null;
+  return { items, nextCursor };
+};
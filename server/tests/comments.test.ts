@@ -0,0 +1,88 @@
+import express from 'express';
+import request from 'supertest';
+import { Database } from '../src/database';
+import { db } from '../src/repositories/db';
+import { createUser } from '../src/repositories/users';
+import { insertPost, findPostCaption } from '../src/repositories/posts';
+import * as textEntities from '../src/repositories/textEntities';
+import { createSession } from '../src/services/sessions';
+import postRoutes from '../src/routes/posts';
+
+const app = express();
+app.use(express.json());
+app.use('/api/posts', postRoutes);
+
+let postId: number;
+let auth: string;
+
+const commentCount = async () =>
+  (await db.get<{ count: number }>('SELECT COUNT(*) as count FROM comments WHERE post_id = ?', [postId]))!.count;
+
+// Make the next tag and mention indexing fail
+const failIndexing = () =>
+  jest.spyOn(textEntities, 'replaceTextEntities').mockRejectedValueOnce(new Error('disk I/O error'));
+
+beforeAll(async () => {
+  await Database.getInstance().migrate();
+  const alice = await createUser({ username: 'alice', email: 'alice@example.com', password: 'hash' });
+  await createUser({ username: 'bob', email: 'bob@example.com', password: 'hash' });
+  auth = `Bearer ${(await createSession(alice, 'jest')).token}`;
+  postId = await insertPost(alice, { image_url: '/uploads/post-full.jpg', image_variants: '[]' }, 'hello');
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('comments', () => {
+  it('answers with the mentions of a new comment', async () => {
+    const { body } = await request(app)
+      .post(`/api/posts/${postId}/comments`)
+      .set('Authorization', auth)
+      .send({ content: 'hi @bob' })
+      .expect(201);
+
+    expect(body.mentions).toEqual([expect.objectContaining({ username: 'bob' })]);
+  });
+
+  it("doesn't keep a comment whose tags and mentions couldn't be saved", async () => {
+    const before = await commentCount();
+    failIndexing();
+
+    await request(app)
+      .post(`/api/posts/${postId}/comments`)
+      .set('Authorization', auth)
+      .send({ content: 'hi #there' })
+      .expect(500);
+
+    expect(await commentCount()).toBe(before);
+  });
+
+  it("leaves the caption as it was when its tags and mentions couldn't be saved", async () => {
+    failIndexing();
+
+    await request(app)
+      .patch(`/api/posts/${postId}`)
+      .set('Authorization', auth)
+      .send({ caption: 'changed #tag' })
+      .expect(500);
+
+    expect(await findPostCaption(postId)).toMatchObject({ caption: 'hello', edited_at: null });
+  });
+
+  it("leaves a comment as it was when its tags and mentions couldn't be saved", async () => {
+    const { body: comment } = await request(app)
+      .post(`/api/posts/${postId}/comments`)
+      .set('Authorization', auth)
+      .send({ content: 'first' })
+      .expect(201);
+    failIndexing();
+
+    await request(app)
+      .patch(`/api/posts/${postId}/comments/${comment.id}`)
+      .set('Authorization', auth)
+      .send({ content: 'second #tag' })
+      .expect(500);
+
+    const row = await db.get<{ content: string }>('SELECT content FROM comments WHERE id = ?', [comment.id]);
+    expect(row?.content).toBe('first');
+  });
+});
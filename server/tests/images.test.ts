@@ -0,0 +1,49 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { DiskStorage, setStorage } from '../src/services/storage';
+import { processImage, ImageUploadError } from '../src/services/images';
+
+let dir: string;
+
+const png = (width: number, height: number) =>
+  sharp({ create: { width, height, channels: 3, background: '#336699' } }).png().toBuffer();
+
+const sizes = async (buffer: Buffer) =>
+  Object.fromEntries((await processImage(buffer)).variants.map(v => [v.name, [v.width, v.height]]));
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'uploads-'));
+  setStorage(new DiskStorage(dir));
+});
+
+afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+describe('processImage', () => {
+  it('crops a square thumbnail and scales the rest down to fit', async () => {
+    expect(await sizes(await png(3000, 1500))).toEqual({
+      thumb: [320, 320],
+      feed: [1080, 540],
+      full: [2048, 1024]
+    });
+  });
+
+  it('never enlarges a small upload, keeping its thumbnail square', async () => {
+    expect(await sizes(await png(50, 40))).toEqual({
+      thumb: [40, 40],
+      feed: [50, 40],
+      full: [50, 40]
+    });
+  });
+
+  it('stores every variant', async () => {
+    const { variants } = await processImage(await png(50, 40));
+
+    expect(fs.readdirSync(dir).sort()).toEqual(variants.map(v => path.basename(v.url)).sort());
+  });
+
+  it('rejects files that are not images', async () => {
+    await expect(processImage(Buffer.from('not an image'))).rejects.toBeInstanceOf(ImageUploadError);
+  });
+});
@@ -0,0 +1,123 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { migrate, rollback, getMigrationStatus, loadMigrations, MigrationError } from '../src/migrations';
+
+const open = () => new sqlite3.Database(':memory:');
+
+const exec = (db: sqlite3.Database, sql: string) =>
+  new Promise<void>((resolve, reject) => db.exec(sql, err => (err ? reject(err) : resolve())));
+
+const all = <T>(db: sqlite3.Database, sql: string) =>
+  new Promise<T[]>((resolve, reject) => db.all(sql, (err, rows) => (err ? reject(err) : resolve(rows as T[]))));
+
+const columns = async (db: sqlite3.Database, table: string) =>
+  (await all<{ name: string }>(db, `PRAGMA table_info(${table})`)).map(column => column.name);
+
+// The schema of a database from before migrations and most later columns
+const LEGACY_SCHEMA = `
+  CREATE TABLE users (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    username TEXT UNIQUE NOT NULL,
+    email TEXT UNIQUE NOT NULL,
+    password TEXT NOT NULL,
+    avatar TEXT DEFAULT '/default-avatar.png',
+    bio TEXT DEFAULT '',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+  CREATE TABLE posts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    image_url TEXT NOT NULL,
+    caption TEXT DEFAULT '',
+    likes_count INTEGER DEFAULT 0,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+  INSERT INTO users (username, email, password) VALUES ('alice', 'alice@example.com', 'hash');
+  INSERT INTO posts (user_id, image_url, caption) VALUES (1, '/uploads/a.jpg', 'hello');
+`;
+
+describe('migrate', () => {
+  it('builds an empty database and records every migration', async () => {
+    const db = open();
+
+    const applied = await migrate(db);
+
+    expect(applied.map(m => m.version)).toEqual(loadMigrations().map(m => m.version));
+    expect((await getMigrationStatus(db)).every(status => status.appliedAt !== null)).toBe(true);
+    expect(await migrate(db)).toEqual([]);
+    db.close();
+  });
+
+  it('adopts a database created before migrations, keeping its rows', async () => {
+    const db = open();
+    await exec(db, LEGACY_SCHEMA);
+
+    await migrate(db);
+
+    expect(await columns(db, 'users')).toEqual(
+      expect.arrayContaining(['email_verified_at', 'display_name', 'is_private', 'role', 'suspended_at'])
+    );
+    expect(await columns(db, 'posts')).toEqual(expect.arrayContaining(['image_variants', 'edited_at', 'hidden_at']));
+    expect(await all(db, 'SELECT username, role, is_private FROM users')).toEqual([
+      { username: 'alice', role: 'user', is_private: 0 }
+    ]);
+    expect(await all(db, "SELECT caption, image_variants FROM posts")).toEqual([
+      { caption: 'hello', image_variants: '[]' }
+    ]);
+    // Tables the old version never had are created
+    expect(await columns(db, 'sessions')).toContain('token_hash');
+    db.close();
+  });
+
+  it('refuses to run when an applied migration was edited', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrations-'));
+    const file = path.join(dir, '001_create_things.sql');
+    fs.writeFileSync(file, '-- migrate:up\nCREATE TABLE things (id INTEGER);\n-- migrate:down\nDROP TABLE things;\n');
+    const db = open();
+
+    try {
+      await migrate(db, dir);
+      fs.writeFileSync(file, '-- migrate:up\nCREATE TABLE things (id INTEGER, name TEXT);\n');
+
+      await expect(migrate(db, dir)).rejects.toThrow(MigrationError);
+    } finally {
+      db.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('rollback', () => {
+  it('undoes every migration of a database it built', async () => {
+    const db = open();
+    await migrate(db);
+
+    await rollback(db, loadMigrations().length);
+
+    expect(await all(db, "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'users'")).toEqual([]);
+    db.close();
+  });
+
+  it('refuses to undo the migration that adopted a database, keeping its rows', async () => {
+    const db = open();
+    await exec(db, LEGACY_SCHEMA);
+    await migrate(db);
+
+    await expect(rollback(db, loadMigrations().length)).rejects.toThrow(MigrationError);
+
+    expect(await all(db, 'SELECT username FROM users')).toEqual([{ username: 'alice' }]);
+    expect((await getMigrationStatus(db)).every(status => status.appliedAt !== null)).toBe(true);
+    db.close();
+  });
+
+  it('assumes the first migration was an adoption when that was never recorded', async () => {
+    const db = open();
+    await migrate(db);
+    await exec(db, 'ALTER TABLE schema_migrations DROP COLUMN adopted');
+
+    await expect(rollback(db, loadMigrations().length)).rejects.toThrow(MigrationError);
+    db.close();
+  });
+});
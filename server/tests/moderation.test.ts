@@ -0,0 +1,71 @@
+import express from 'express';
+import request from 'supertest';
+import { Database } from '../src/database';
+import { db } from '../src/repositories/db';
+import { createUser } from '../src/repositories/users';
+import { insertPost, findPostById } from '../src/repositories/posts';
+import * as reports from '../src/repositories/reports';
+import { createSession, verifyAccessToken } from '../src/services/sessions';
+import { setMailer } from '../src/services/mailer';
+import adminRoutes from '../src/routes/admin';
+
+const app = express();
+app.use(express.json());
+app.use('/api/admin', adminRoutes);
+
+// Not under /uploads/, so removing a post leaves the disk alone
+const image = { image_url: '/test/post.jpg', image_variants: '[]' };
+
+// Warnings and suspensions email the author; don't write them to mail/
+setMailer({ send: async () => {} });
+
+let adminAuth: string;
+let alice: number;
+
+const act = (action: string, targetType: string, targetId: number) =>
+  request(app)
+    .post('/api/admin/actions')
+    .set('Authorization', adminAuth)
+    .send({ action, target_type: targetType, target_id: targetId });
+
+const logCount = async () =>
+  (await db.get<{ count: number }>('SELECT COUNT(*) as count FROM moderation_log'))!.count;
+
+beforeAll(async () => {
+  await Database.getInstance().migrate();
+  const admin = await createUser({ username: 'admin', email: 'admin@example.com', password: 'hash' });
+  await db.run("UPDATE users SET role = 'admin' WHERE id = ?", [admin]);
+  adminAuth = `Bearer ${(await createSession(admin, 'jest')).token}`;
+  alice = await createUser({ username: 'alice', email: 'alice@example.com', password: 'hash' });
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('moderation actions', () => {
+  it('hides a post and logs it', async () => {
+    const postId = await insertPost(alice, image, 'hello');
+    const before = await logCount();
+
+    await act('hide', 'post', postId).expect(200);
+
+    expect((await findPostById(postId))?.hidden_at).not.toBeNull();
+    expect(await logCount()).toBe(before + 1);
+  });
+
+  it("undoes the action when it can't be logged", async () => {
+    const postId = await insertPost(alice, image, 'hello');
+    jest.spyOn(reports, 'insertModerationLogEntry').mockRejectedValueOnce(new Error('disk I/O error'));
+
+    await act('remove', 'post', postId).expect(500);
+
+    expect(await findPostById(postId)).toBeDefined();
+  });
+
+  it('signs a suspended account out', async () => {
+    const { token } = await createSession(alice, 'jest');
+
+    await act('suspend', 'user', alice).expect(200);
+
+    expect(await verifyAccessToken(token)).toBeNull();
+  });
+});
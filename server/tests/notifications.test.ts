@@ -0,0 +1,84 @@
+import express from 'express';
+import request from 'supertest';
+import { Database } from '../src/database';
+import { createUser, updateProfile } from '../src/repositories/users';
+import { insertFollow } from '../src/repositories/follows';
+import { insertPost } from '../src/repositories/posts';
+import { insertNotification } from '../src/repositories/notifications';
+import { createSession } from '../src/services/sessions';
+import postRoutes from '../src/routes/posts';
+import notificationRoutes from '../src/routes/notifications';
+
+const app = express();
+app.use(express.json());
+app.use('/api/posts', postRoutes);
+app.use('/api/notifications', notificationRoutes);
+
+const image = { image_url: '/uploads/post-full.jpg', image_variants: '[]' };
+
+// alice is private; carol follows her and bob doesn't
+let alice: number;
+let bob: number;
+let carol: number;
+const auth: Record<number, string> = {};
+
+const signUp = async (username: string) => {
+  const userId = await createUser({ username, email: `${username}@example.com`, password: 'hash' });
+  auth[userId] = `Bearer ${(await createSession(userId, 'jest')).token}`;
+  return userId;
+};
+
+const notificationsOf = async (userId: number) =>
+  (await request(app).get('/api/notifications').set('Authorization', auth[userId]).expect(200)).body.notifications;
+
+// Notifications are recorded after the response is sent
+const eventually = async (check: () => Promise<boolean>) => {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    if (await check()) {
+      return;
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  throw new Error('Condition was never met');
+};
+
+beforeAll(async () => {
+  await Database.getInstance().migrate();
+  alice = await signUp('alice');
+  bob = await signUp('bob');
+  carol = await signUp('carol');
+  await updateProfile(alice, { isPrivate: true });
+  await insertFollow(carol, alice);
+});
+
+describe('notifications', () => {
+  it('only shows the post to users who may see it', async () => {
+    const postId = await insertPost(alice, image, 'hello');
+    for (const userId of [bob, carol]) {
+      await insertNotification({
+        userId, actorId: alice, type: 'mention', postId, commentId: null, groupKey: `mention:${postId}:caption`
+      }, true);
+    }
+
+    const [forBob] = await notificationsOf(bob);
+    const [forCarol] = await notificationsOf(carol);
+
+    expect(forBob).toMatchObject({ post_id: postId, post: null });
+    expect(forCarol.post).toMatchObject({ image_url: image.image_url });
+  });
+
+  it("doesn't notify mentioned users who can't see the post", async () => {
+    const postId = await insertPost(alice, image, 'hello');
+
+    await request(app)
+      .patch(`/api/posts/${postId}`)
+      .set('Authorization', auth[alice])
+      .send({ caption: 'hello @bob and @carol' })
+      .expect(200);
+
+    const mentionsIn = async (userId: number) =>
+      (await notificationsOf(userId)).filter((n: { post_id: number }) => n.post_id === postId);
+    await eventually(async () => (await mentionsIn(carol)).length === 1);
+    expect(await mentionsIn(bob)).toEqual([]);
+  });
+});
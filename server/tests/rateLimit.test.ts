@@ -0,0 +1,161 @@
+import express, { Request, Response } from 'express';
+import supertest from 'supertest';
+import { rateLimit } from '../src/middleware/rateLimit';
+import { createSession } from '../src/services/sessions';
+import { getLoginLock, recordLoginFailure, clearLoginFailures } from '../src/services/loginThrottle';
+import { Database } from '../src/database';
+import { createUser } from '../src/repositories/users';
+import authRoutes from '../src/routes/auth';
+
+let now = 1_000_000;
+jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+beforeAll(() => Database.getInstance().migrate());
+
+const request = (overrides: Partial<Request> = {}) =>
+  ({ method: 'POST', ip: '10.0.0.1', headers: {}, ...overrides }) as Request;
+
+// Records what the limiter did with a request
+const send = async (limiter: ReturnType<typeof rateLimit>, req: Request) => {
+  const headers: Record<string, string> = {};
+  let status = 200;
+  let passed = false;
+  const res = {
+    set(name: string, value: string) {
+      headers[name] = value;
+      return this;
+    },
+    status(code: number) {
+      status = code;
+      return this;
+    },
+    json() {
+      return this;
+    }
+  } as unknown as Response;
+
+  await limiter(req, res, () => {
+    passed = true;
+  });
+  return { status: passed ? 200 : status, headers };
+};
+
+describe('rateLimit', () => {
+  it('allows a burst up to capacity, then answers 429 with Retry-After', async () => {
+    const limiter = rateLimit({ name: 'burst', by: 'ip', capacity: 3, perMinute: 6 });
+
+    for (let i = 0; i < 3; i++) {
+      expect((await send(limiter, request())).status).toBe(200);
+    }
+    const limited = await send(limiter, request());
+
+    expect(limited.status).toBe(429);
+    expect(limited.headers['Retry-After']).toBe('10');
+    expect(limited.headers['RateLimit-Remaining']).toBe('0');
+  });
+
+  it('refills tokens over time', async () => {
+    const limiter = rateLimit({ name: 'refill', by: 'ip', capacity: 1, perMinute: 60 });
+
+    expect((await send(limiter, request())).status).toBe(200);
+    expect((await send(limiter, request())).status).toBe(429);
+
+    now += 1000;
+    expect((await send(limiter, request())).status).toBe(200);
+  });
+
+  it('counts each client separately', async () => {
+    const limiter = rateLimit({ name: 'clients', by: 'ip', capacity: 1, perMinute: 1 });
+
+    expect((await send(limiter, request({ ip: '10.0.0.2' }))).status).toBe(200);
+    expect((await send(limiter, request({ ip: '10.0.0.3' }))).status).toBe(200);
+    expect((await send(limiter, request({ ip: '10.0.0.2' }))).status).toBe(429);
+  });
+
+  it('only counts the given methods', async () => {
+    const limiter = rateLimit({ name: 'methods', by: 'ip', capacity: 1, perMinute: 1, methods: ['POST'] });
+
+    expect((await send(limiter, request())).status).toBe(200);
+    expect((await send(limiter, request({ method: 'GET' }))).status).toBe(200);
+    expect((await send(limiter, request()))).toMatchObject({ status: 429 });
+  });
+
+  it('counts signed-in users by account rather than address', async () => {
+    const userId = await createUser({ username: 'alice', email: 'alice@example.com', password: 'hash' });
+    const { token } = await createSession(userId, 'jest');
+    const limiter = rateLimit({ name: 'users', by: 'user', capacity: 1, perMinute: 1 });
+    const signedIn = (ip: string) => request({ ip, headers: { authorization: `Bearer ${token}` } });
+
+    expect((await send(limiter, signedIn('10.0.0.4'))).status).toBe(200);
+    expect((await send(limiter, signedIn('10.0.0.5'))).status).toBe(429);
+    expect((await send(limiter, request({ ip: '10.0.0.5' }))).status).toBe(200);
+  });
+});
+
+describe('login lockout', () => {
+  const email = 'Someone@Example.com';
+
+  afterEach(() => clearLoginFailures(email));
+
+  it('locks after five failures for a minute, doubling with each further failure', async () => {
+    for (let i = 0; i < 4; i++) {
+      await recordLoginFailure(email);
+    }
+    expect(await getLoginLock(email)).toBe(0);
+
+    await recordLoginFailure(email);
+    expect(await getLoginLock(email)).toBe(60 * 1000);
+
+    await recordLoginFailure(email);
+    expect(await getLoginLock(email.toLowerCase())).toBe(2 * 60 * 1000);
+  });
+
+  it('never locks for more than an hour', async () => {
+    for (let i = 0; i < 20; i++) {
+      await recordLoginFailure(email);
+    }
+    expect(await getLoginLock(email)).toBe(60 * 60 * 1000);
+  });
+
+  it('unlocks once the lock has passed, and forgets failures on success', async () => {
+    for (let i = 0; i < 5; i++) {
+      await recordLoginFailure(email);
+    }
+    now += 60 * 1000;
+    expect(await getLoginLock(email)).toBe(0);
+
+    await clearLoginFailures(email);
+    await recordLoginFailure(email);
+    expect(await getLoginLock(email)).toBe(0);
+  });
+});
+
+describe('over HTTP', () => {
+  it('answers 429 in the error envelope once the bucket is empty', async () => {
+    const app = express();
+    app.use(rateLimit({ name: 'http', by: 'ip', capacity: 1, perMinute: 1 }));
+    app.get('/ping', (req, res) => res.json({ ok: true }));
+
+    await supertest(app).get('/ping').expect(200);
+    const limited = await supertest(app).get('/ping').expect(429);
+
+    expect(limited.headers['retry-after']).toBe('60');
+    expect(limited.body.error.code).toBe('RATE_LIMITED');
+  });
+
+  it('locks login after repeated wrong passwords', async () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api/auth', authRoutes);
+    const login = () =>
+      supertest(app).post('/api/auth/login').send({ email: 'nobody@example.com', password: 'wrong' });
+
+    for (let i = 0; i < 5; i++) {
+      await login().expect(401);
+    }
+    const locked = await login().expect(429);
+
+    expect(locked.body.error.code).toBe('ACCOUNT_LOCKED');
+    expect(locked.headers['retry-after']).toBe('60');
+  });
+});
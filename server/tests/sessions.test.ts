@@ -0,0 +1,115 @@
+import express from 'express';
+import request from 'supertest';
+import { Database } from '../src/database';
+import authRoutes from '../src/routes/auth';
+import { createUser } from '../src/repositories/users';
+import {
+  createSession, rotateSession, verifyAccessToken, revokeAllSessions, SessionError
+} from '../src/services/sessions';
+import { setMailer } from '../src/services/mailer';
+
+const app = express();
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+
+let userId: number;
+
+// Registration sends a verification email; don't write it to mail/
+setMailer({ send: async () => {} });
+
+beforeAll(async () => {
+  await Database.getInstance().migrate();
+  userId = await createUser({ username: 'alice', email: 'alice@example.com', password: 'hash' });
+});
+
+describe('sessions', () => {
+  it('issues an access token for a live session', async () => {
+    const { token } = await createSession(userId, 'jest');
+
+    expect(await verifyAccessToken(token)).toMatchObject({ userId, role: 'user', suspended: false });
+  });
+
+  it('replaces the refresh token on rotation', async () => {
+    const first = await createSession(userId, 'jest');
+    const second = await rotateSession(first.refreshToken);
+
+    expect(second.refreshToken).not.toBe(first.refreshToken);
+    expect(await verifyAccessToken(second.token)).toMatchObject({ userId });
+
+    const third = await rotateSession(second.refreshToken);
+    expect(await verifyAccessToken(third.token)).toMatchObject({ userId });
+  });
+
+  it('ends the session when a replaced refresh token is used again', async () => {
+    const first = await createSession(userId, 'jest');
+    const second = await rotateSession(first.refreshToken);
+
+    await expect(rotateSession(first.refreshToken)).rejects.toThrow('Refresh token was already used');
+
+    // The thief and the owner are both signed out
+    await expect(rotateSession(second.refreshToken)).rejects.toThrow(SessionError);
+    expect(await verifyAccessToken(second.token)).toBeNull();
+  });
+
+  it('lets only one of two concurrent rotations of the same token succeed', async () => {
+    const { refreshToken } = await createSession(userId, 'jest');
+
+    const results = await Promise.allSettled([rotateSession(refreshToken), rotateSession(refreshToken)]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+  });
+
+  it('rejects unknown refresh tokens', async () => {
+    await expect(rotateSession('not-a-token')).rejects.toThrow('Invalid refresh token');
+  });
+
+  it('signs every session out on "log out of all devices"', async () => {
+    const a = await createSession(userId, 'phone');
+    const b = await createSession(userId, 'laptop');
+
+    await revokeAllSessions(userId);
+
+    expect(await verifyAccessToken(a.token)).toBeNull();
+    expect(await verifyAccessToken(b.token)).toBeNull();
+    await expect(rotateSession(b.refreshToken)).rejects.toThrow(SessionError);
+  });
+});
+
+describe('auth routes', () => {
+  const register = (username: string) =>
+    request(app)
+      .post('/api/auth/register')
+      .send({ username, email: `${username}@example.com`, password: 'password1' });
+
+  it('trades a refresh token for a new pair once', async () => {
+    const { body: session } = await register('bob').expect(201);
+
+    const refreshed = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: session.refreshToken })
+      .expect(200);
+    expect(refreshed.body.refreshToken).not.toBe(session.refreshToken);
+
+    const replayed = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: session.refreshToken })
+      .expect(401);
+    expect(replayed.body.error).toMatchObject({ code: 'INVALID_TOKEN', message: 'Refresh token was already used' });
+  });
+
+  it('requires a refresh token', async () => {
+    const { body } = await request(app).post('/api/auth/refresh').send({}).expect(400);
+
+    expect(body.error.code).toBe('VALIDATION_FAILED');
+  });
+
+  it('stops accepting the access token after logout', async () => {
+    const { body: session } = await register('carol').expect(201);
+    const auth = `Bearer ${session.token}`;
+
+    await request(app).post('/api/auth/logout').set('Authorization', auth).expect(200);
+
+    await request(app).post('/api/auth/logout').set('Authorization', auth).expect(401);
+    await request(app).post('/api/auth/refresh').send({ refreshToken: session.refreshToken }).expect(401);
+  });
+});
@@ -0,0 +1,4 @@
+// Runs before each test file. Jest gives every file its own module
+// registry, so each one opens a fresh in-memory database.
+process.env.DATABASE_PATH = ':memory:';
+process.env.JWT_SECRET = 'test-secret';
@@ -0,0 +1,21 @@
+import { extractHashtags, extractMentions } from '../src/services/textEntities';
+
+describe('extractMentions', () => {
+  it('finds each username once', () => {
+    expect(extractMentions('@alice and @bob.smith, then @alice again')).toEqual(['alice', 'bob.smith']);
+  });
+
+  it('leaves out periods that end a sentence', () => {
+    expect(extractMentions('thanks @bob. See you @carol...')).toEqual(['bob', 'carol']);
+  });
+
+  it('ignores a lone @', () => {
+    expect(extractMentions('meet @ noon or @.')).toEqual([]);
+  });
+});
+
+describe('extractHashtags', () => {
+  it('lowercases tags and keeps non-ASCII letters', () => {
+    expect(extractHashtags('#Sunset #sunset #café')).toEqual(['sunset', 'café']);
+  });
+});
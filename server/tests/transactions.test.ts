@@ -0,0 +1,75 @@
+import { Database } from '../src/database';
+import { db, withTransaction } from '../src/repositories/db';
+
+const names = async () =>
+  (await db.all<{ name: string }>('SELECT name FROM hashtags ORDER BY name')).map(row => row.name);
+
+beforeAll(() => Database.getInstance().migrate());
+
+beforeEach(() => db.run('DELETE FROM hashtags'));
+
+describe('withTransaction', () => {
+  it('commits when the work resolves', async () => {
+    const result = await withTransaction(async (tx) => {
+      await tx.run('INSERT INTO hashtags (name) VALUES (?)', ['kept']);
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(await names()).toEqual(['kept']);
+  });
+
+  it('rolls back and rethrows when the work throws', async () => {
+    const failure = withTransaction(async (tx) => {
+      await tx.run('INSERT INTO hashtags (name) VALUES (?)', ['lost']);
+      throw new Error('boom');
+    });
+
+    await expect(failure).rejects.toThrow('boom');
+    expect(await names()).toEqual([]);
+  });
+
+  it('keeps writes issued before a transaction that rolls back', async () => {
+    const before = db.run('INSERT INTO hashtags (name) VALUES (?)', ['before']);
+    const failure = withTransaction(async (tx) => {
+      await tx.run('INSERT INTO hashtags (name) VALUES (?)', ['inside']);
+      throw new Error('boom');
+    });
+
+    await before;
+    await expect(failure).rejects.toThrow('boom');
+    expect(await names()).toEqual(['before']);
+  });
+
+  it('runs writes issued during a transaction after it, outside the rollback', async () => {
+    let during: Promise<unknown> = Promise.resolve();
+    const failure = withTransaction(async (tx) => {
+      await tx.run('INSERT INTO hashtags (name) VALUES (?)', ['inside']);
+      during = db.run('INSERT INTO hashtags (name) VALUES (?)', ['during']);
+      await tx.get('SELECT 1');
+      throw new Error('boom');
+    });
+
+    await expect(failure).rejects.toThrow('boom');
+    await during;
+    expect(await names()).toEqual(['during']);
+  });
+
+  it('runs transactions one at a time', async () => {
+    const order: string[] = [];
+    const first = withTransaction(async (tx) => {
+      order.push('first:start');
+      await tx.run('INSERT INTO hashtags (name) VALUES (?)', ['first']);
+      order.push('first:end');
+    });
+    const second = withTransaction(async (tx) => {
+      order.push('second:start');
+      await tx.run('INSERT INTO hashtags (name) VALUES (?)', ['second']);
+      order.push('second:end');
+    });
+
+    await Promise.all([first, second]);
+    expect(order).toEqual(['first:start', 'first:end', 'second:start', 'second:end']);
+    expect(await names()).toEqual(['first', 'second']);
+  });
+});
@@ -0,0 +1,80 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Database } from '../src/database';
+import { createUser } from '../src/repositories/users';
+import { insertPost } from '../src/repositories/posts';
+import { DiskStorage } from '../src/services/storage';
+import { cleanUploads, CleanupOptions } from '../src/services/uploadCleanup';
+
+const HOUR = 60 * 60 * 1000;
+
+let dir: string;
+let storage: DiskStorage;
+
+// Store a file last modified `ageMs` ago
+const store = async (key: string, ageMs: number, bytes = 10) => {
+  await storage.put(key, Buffer.alloc(bytes));
+  const modified = new Date(Date.now() - ageMs);
+  fs.utimesSync(path.join(dir, key), modified, modified);
+};
+
+const options = (overrides: Partial<CleanupOptions> = {}): CleanupOptions => ({
+  graceMs: HOUR,
+  action: 'quarantine',
+  dryRun: false,
+  ...overrides
+});
+
+beforeAll(async () => {
+  await Database.getInstance().migrate();
+  const userId = await createUser({ username: 'alice', email: 'alice@example.com', password: 'hash' });
+  await insertPost(userId, {
+    image_url: '/uploads/post-full.jpg',
+    image_variants: JSON.stringify([{ name: 'thumb', url: '/uploads/post-thumb.jpg', width: 320, height: 320 }])
+  }, '');
+});
+
+beforeEach(async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'uploads-'));
+  storage = new DiskStorage(dir);
+  await store('post-full.jpg', 2 * HOUR, 100);
+  await store('post-thumb.jpg', 2 * HOUR, 20);
+  await store('old-orphan.jpg', 2 * HOUR);
+  await store('new-orphan.jpg', 0);
+});
+
+afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+describe('cleanUploads', () => {
+  it('quarantines orphans past the grace period and leaves the rest', async () => {
+    const report = await cleanUploads(options(), storage);
+
+    expect(report.orphans.map(o => o.key).sort()).toEqual(['new-orphan.jpg', 'old-orphan.jpg']);
+    expect(report).toMatchObject({ expired: 1, removed: 1, failed: 0 });
+    expect(fs.readdirSync(dir).sort()).toEqual(['.quarantine', 'new-orphan.jpg', 'post-full.jpg', 'post-thumb.jpg']);
+    expect(fs.readdirSync(path.join(dir, '.quarantine'))).toEqual(['old-orphan.jpg']);
+  });
+
+  it('deletes orphans when asked to', async () => {
+    await cleanUploads(options({ action: 'delete', graceMs: 0 }), storage);
+
+    expect(fs.readdirSync(dir).sort()).toEqual(['post-full.jpg', 'post-thumb.jpg']);
+  });
+
+  it('changes nothing on a dry run', async () => {
+    const report = await cleanUploads(options({ dryRun: true }), storage);
+
+    expect(report).toMatchObject({ expired: 1, removed: 0 });
+    expect(fs.readdirSync(dir)).toHaveLength(4);
+  });
+
+  it('reports referenced files that are missing, and storage per account', async () => {
+    fs.unlinkSync(path.join(dir, 'post-thumb.jpg'));
+
+    const report = await cleanUploads(options({ dryRun: true }), storage);
+
+    expect(report.missing).toEqual(['post-thumb.jpg']);
+    expect(report.usage).toEqual([{ userId: 1, username: 'alice', files: 1, bytes: 100 }]);
+  });
+});